@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { AgendaItem, AgendaMode, DiscussionEvent, EngineContext } from './types';
+import { formatClock } from './DiscussionStage';
+import { useI18n } from './i18n';
+import { ListChecks, ChevronDown, Plus, Trash2, Play, SkipForward } from 'lucide-react';
+
+const AGENDA_MODES: AgendaMode[] = ['open', 'structured', 'reflection'];
+
+const DEFAULT_TIMEBOX_MINUTES = 10;
+
+interface AgendaPanelProps {
+  context: EngineContext;
+  onEvent: (event: DiscussionEvent) => void;
+}
+
+/** Agenda editor: topics with a timebox and facilitation mode, and controls to move through them. */
+const AgendaPanel: React.FC<AgendaPanelProps> = ({ context, onEvent }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const { agenda, agendaIndex, agendaProgress } = context;
+
+  const setAgenda = (items: AgendaItem[]) => onEvent({ type: 'SET_AGENDA', items });
+  const updateItem = (id: string, patch: Partial<AgendaItem>) =>
+    setAgenda(agenda.map(item => item.id === id ? { ...item, ...patch } : item));
+
+  const handleAdd = () => setAgenda([...agenda, {
+    id: `topic-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    title: t('agenda.newTopic', { n: agenda.length + 1 }),
+    timeboxSeconds: DEFAULT_TIMEBOX_MINUTES * 60,
+    mode: 'open',
+  }]);
+
+  const handleTitle = (item: AgendaItem, value: string) => {
+    const title = value.trim();
+    if (title && title !== item.title) updateItem(item.id, { title });
+  };
+
+  const handleMinutes = (item: AgendaItem, value: string) => {
+    const minutes = Number(value);
+    if (Number.isFinite(minutes) && minutes > 0 && minutes * 60 !== item.timeboxSeconds) updateItem(item.id, { timeboxSeconds: Math.round(minutes * 60) });
+  };
+
+  const current = agendaIndex === null ? null : agenda[agendaIndex] ?? null;
+
+  return (
+    <div className="shrink-0 rounded-xl border border-[#d6cdc1] bg-white/60">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 p-2">
+        <ListChecks size={14} className="text-[#5d473b]" />
+        <span className="text-[11px] font-black text-[#3d2e25] flex-1 text-start truncate">
+          {current ? t('agenda.titleWithCurrent', { title: current.title }) : t('agenda.title')}
+        </span>
+        <ChevronDown size={14} className={`text-[#5d473b] transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-2 pb-2 space-y-1.5">
+          <div className="space-y-1 max-h-48 overflow-y-auto scrollbar-hide">
+            {agenda.map((item, i) => {
+              const isCurrent = i === agendaIndex;
+              const elapsed = agendaProgress[item.id]?.elapsedSeconds ?? 0;
+              return (
+                <div key={item.id} className={`rounded-lg border p-1.5 space-y-1 ${isCurrent ? 'bg-white border-[#4a635d]/50' : 'border-[#d6cdc1]/60'}`}>
+                  <div className="flex items-center gap-1.5">
+                    <button
+                      onClick={() => onEvent({ type: 'START_TOPIC', id: item.id })}
+                      title={t('agenda.start')}
+                      className={`p-0.5 rounded ${isCurrent ? 'text-[#4a635d]' : 'text-[#736d52] hover:text-[#4a635d]'}`}
+                    >
+                      <Play size={12} fill={isCurrent ? 'currentColor' : 'none'} />
+                    </button>
+                    <input
+                      key={item.title}
+                      defaultValue={item.title}
+                      onBlur={(e) => handleTitle(item, e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      className="flex-1 min-w-0 bg-transparent text-[11px] font-black text-[#3d2e25] focus:outline-none focus:bg-white rounded px-1"
+                    />
+                    <button onClick={() => setAgenda(agenda.filter(x => x.id !== item.id))} title={t('agenda.remove')} className="p-0.5 text-red-600/70 hover:text-red-900">
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-1.5 ps-5">
+                    <input
+                      key={item.timeboxSeconds}
+                      type="number"
+                      min={1}
+                      step={1}
+                      defaultValue={item.timeboxSeconds / 60}
+                      onBlur={(e) => handleMinutes(item, e.target.value)}
+                      title={t('agenda.minutes')}
+                      className="w-12 bg-white/80 border border-[#d6cdc1] rounded px-1 text-[10px] font-bold tabular-nums focus:outline-none"
+                    />
+                    <span className="text-[10px] font-bold text-[#736d52]">{t('agenda.minutesShort')}</span>
+                    <select
+                      value={item.mode}
+                      onChange={(e) => updateItem(item.id, { mode: e.target.value as AgendaMode })}
+                      className="flex-1 min-w-0 bg-white/80 border border-[#d6cdc1] rounded px-1 text-[10px] font-bold focus:outline-none"
+                    >
+                      {AGENDA_MODES.map(mode => <option key={mode} value={mode}>{t(`agenda.mode.${mode}`)}</option>)}
+                    </select>
+                    <span className={`text-[10px] font-mono font-bold tabular-nums ${elapsed > item.timeboxSeconds ? 'text-red-800' : 'text-[#736d52]'}`}>
+                      {formatClock(elapsed)}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleAdd} className="flex-1 flex items-center justify-center gap-1 text-[10px] font-black py-1 rounded-lg border border-[#d6cdc1] text-[#5d473b] hover:bg-[#ebe6db]">
+              <Plus size={12} /> {t('agenda.add')}
+            </button>
+            <button
+              onClick={() => onEvent({ type: 'NEXT_TOPIC' })}
+              disabled={agenda.length === 0}
+              className="flex-1 flex items-center justify-center gap-1 text-[10px] font-black py-1 rounded-lg bg-[#4a635d] text-white hover:bg-[#2c3d38] disabled:opacity-50"
+            >
+              <SkipForward size={12} /> {agendaIndex === null ? t('agenda.begin') : agendaIndex === agenda.length - 1 ? t('agenda.finish') : t('agenda.next')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AgendaPanel;
@@ -1,72 +1,156 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { DiscussionState, EngineContext, DiscussionEvent } from './types';
-import { DiscussionEngine } from './DiscussionEngine';
-import { getModerationTip } from './geminiService';
+import { DiscussionState, EngineContext, DiscussionEvent, FacilitationPreset, SessionLanguage, Roster } from './types';
+import { DiscussionEngine, DEFAULT_ENGINE_CONFIG, pickEngineConfig } from './DiscussionEngine';
+import { getModerationTip, getLLMSettings, configureLLM, tipCacheKey, summarizeRound, RoundSummary } from './geminiService';
+import { LLMSettings } from './llmProviders';
+import { I18nContext, LANGUAGES, LANGUAGE_IDS, MessageKey, createI18n } from './i18n';
+import { VoiceActivityDetector } from './VoiceActivityDetector';
+import { SpeakerIdentifier } from './SpeakerIdentifier';
+import { Transcriber, TranscriptionSettings, loadTranscriptionSettings, saveTranscriptionSettings } from './Transcriber';
+import { SessionRecorder, EngineSnapshot, SessionLog, resumeRecording } from './SessionRecorder';
+import { StoredSession, saveSession, setActiveSessionId } from './sessionStore';
+import { SessionClock, CLOCK_SPEEDS, monotonicTime } from './sessionClock';
+import { profileForName } from './rosterStore';
+import { shortcutEvent } from './keyboardShortcuts';
+import { SessionSyncClient, SyncPresence, SyncStatus, createFacilitatorSecret, createSessionCode, isAllowedRemoteEvent, toSyncContext } from './sessionSync';
+import ReplayPanel from './ReplayPanel';
+import SettingsPanel from './SettingsPanel';
+import PresetPanel from './PresetPanel';
+import RosterPanel from './RosterPanel';
+import AgendaPanel from './AgendaPanel';
+import FlowPanel from './FlowPanel';
+import { useEngineSnapshot, useEngineNotification, useEngineTransitions } from './engineHooks';
+import { AudioCuePlayer, AudioCueSettings, loadAudioCueSettings, saveAudioCueSettings, planCues } from './audioCues';
+import { flowText } from './flowStore';
+import LLMSettingsPanel from './LLMSettingsPanel';
+import TranscriptPanel from './TranscriptPanel';
+import AudioCuePanel from './AudioCuePanel';
+import SessionReportView from './SessionReportView';
+import SyncPanel from './SyncPanel';
+import SessionHistoryView from './SessionHistoryView';
+import DiscussionStage, { STATE_THEMES, StageStyles, speakerColor, stageTheme } from './DiscussionStage';
 import { 
-  Play, 
-  ArrowRight, 
-  CheckCircle, 
-  PauseCircle, 
-  BarChart2, 
-  BrainCircuit, 
-  Clock, 
-  Star, 
   Trash2, 
   Users, 
   Mic2, 
-  Wind, 
   Zap, 
   Target, 
-  ChevronRight,
-  AlertTriangle,
-  Timer
+  Timer,
+  Mic,
+  MicOff,
+  AudioWaveform,
+  FileBarChart,
+  Hand,
+  Keyboard,
+  History,
+  Coffee,
+  Play
 } from 'lucide-react';
 
 const INITIAL_SPEAKERS: string[] = [];
 
-const SPEAKER_COLORS = [
-  { name: 'deep-forest', gradient: 'from-[#4a635d] to-[#2c3d38]', text: 'text-[#4a635d]' },
-  { name: 'burnt-sienna', gradient: 'from-[#a66e51] to-[#7d4f38]', text: 'text-[#a66e51]' },
-  { name: 'dark-moss', gradient: 'from-[#6b754d] to-[#4c5436]', text: 'text-[#6b754d]' },
-  { name: 'golden-bronze', gradient: 'from-[#b5925d] to-[#8a6e42]', text: 'text-[#b5925d]' },
-  { name: 'navy-steel', gradient: 'from-[#5c727d] to-[#3d4d54]', text: 'text-[#5c727d]' },
-  { name: 'dark-umber', gradient: 'from-[#8c6b5a] to-[#5d473b]', text: 'text-[#8c6b5a]' },
-  { name: 'pine', gradient: 'from-[#547366] to-[#3a4f46]', text: 'text-[#547366]' },
-  { name: 'deep-coral', gradient: 'from-[#b38576] to-[#8c6559]', text: 'text-[#b38576]' },
-  { name: 'antique-khaki', gradient: 'from-[#9e9672] to-[#736d52]', text: 'text-[#9e9672]' },
-  { name: 'charcoal', gradient: 'from-[#6e747a] to-[#454a4f]', text: 'text-[#6e747a]' },
-];
-
-const STATE_THEMES: Record<DiscussionState, { label: string, color: string, bg: string, icon: any, fullBg: string }> = {
-  [DiscussionState.MONITORING]: { label: "שיח פתוח", color: "text-[#4a635d]", bg: "from-[#f2ede4] to-[#ebe6db]", icon: Play, fullBg: "bg-[#f2ede4]" },
-  [DiscussionState.IMBALANCE]: { label: "זוהה חוסר איזון", color: "text-red-900", bg: "from-[#fecaca] to-[#fca5a5]", icon: AlertTriangle, fullBg: "bg-[#fee2e2]" },
-  [DiscussionState.NUDGE]: { label: "מאטים רגע", color: "text-[#7d4f38]", bg: "from-[#ebe4d8] to-[#dfd6c6]", icon: PauseCircle, fullBg: "bg-[#ebe4d8]" },
-  [DiscussionState.STRUCTURED]: { label: "סבב תורות", color: "text-[#4c5436]", bg: "from-[#e9eee6] to-[#dae2d4]", icon: ArrowRight, fullBg: "bg-[#e9eee6]" },
-  [DiscussionState.PAUSE]: { label: "שתיקה רפלקטיבית", color: "text-[#5d473b]", bg: "from-[#f2ede4] to-[#e8e2d8]", icon: Wind, fullBg: "bg-[#f2ede4]" },
-  [DiscussionState.CHECKIN]: { label: "בודקים אם אפשר להמשיך", color: "text-[#4a635d]", bg: "from-[#e6efea] to-[#d4e4db]", icon: CheckCircle, fullBg: "bg-[#e6efea]" },
-};
-
-const App: React.FC = () => {
-  const engine = useMemo(() => new DiscussionEngine(INITIAL_SPEAKERS), []);
-  const [snap, setSnap] = useState(engine.snapshot());
-  const [moderationTip, setModerationTip] = useState<string>("מחכים למשתתפים שיצטרפו לשיח...");
+const MAX_SPEAKERS = 20;
+
+const SAVE_INTERVAL_MS = 1500;
+
+/** How often the clock is polled for due TICKs; it is the clock, not this timer, that keeps time. */
+const CLOCK_POLL_MS = 250;
+
+interface AppProps {
+  sessionId: string;
+  /** Saved session to continue, or null to start a fresh one. */
+  session: StoredSession | null;
+  onSwitchSession: (id: string | null) => void;
+}
+
+const App: React.FC<AppProps> = ({ sessionId, session, onSwitchSession }) => {
+  // A saved session is rebuilt by replaying its log, so it continues exactly where it stopped.
+  const { engine, recorder, clock } = useMemo(() => {
+    const resumed = session ? resumeRecording(session.log) : null;
+    const engine = resumed?.engine ?? new DiscussionEngine(INITIAL_SPEAKERS);
+    const recorder = resumed?.recorder ?? new SessionRecorder(engine, INITIAL_SPEAKERS);
+    // The log is authoritative for how much time has passed and whether a break is on.
+    const { sessionSeconds, sessionPaused } = engine.snapshot().context;
+    const clock = new SessionClock(monotonicTime, { ...session?.clock, elapsedSeconds: sessionSeconds, paused: sessionPaused });
+    engine.setClock(clock);
+    return { engine, recorder, clock };
+  }, [session]);
+  const snap = useEngineSnapshot(engine);
+  const [replaySnap, setReplaySnap] = useState<EngineSnapshot | null>(null);
+  const [language, setLanguage] = useState<SessionLanguage>(session?.language ?? 'he');
+  const [sessionName, setSessionName] = useState(session?.name ?? '');
+  const [createdAt] = useState(() => session?.createdAt ?? new Date().toISOString());
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [reportLog, setReportLog] = useState<SessionLog | null>(null);
+  const [moderationTip, setModerationTip] = useState<string | null>(null);
   const [isLoadingTip, setIsLoadingTip] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(getLLMSettings);
   const [newSpeakerName, setNewSpeakerName] = useState("");
-  const [isAutoSimulating, setIsAutoSimulating] = useState(false);
-  const [isQuietViewActive, setIsQuietViewActive] = useState(false);
+  const [isAutoSimulating, setIsAutoSimulating] = useState(session?.running ?? false);
+  const [clockSpeed, setClockSpeed] = useState(clock.speed);
+  const [isQuietViewActive, setIsQuietViewActive] = useState(() => engine.snapshot().context.quietMode);
   const [previousState, setPreviousState] = useState<DiscussionState | null>(null);
-  const simInterval = useRef<number | null>(null);
+  const [isMicActive, setIsMicActive] = useState(false);
+  const [isVoiceDetected, setIsVoiceDetected] = useState(false);
   const lastFetchedState = useRef<string>("");
-
-  const update = useCallback(() => {
-    setSnap({ ...engine.snapshot() });
-  }, [engine]);
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  /** The pending microphone request, so repeated clicks wait for it instead of opening a second stream. */
+  const micStartRef = useRef<Promise<boolean> | null>(null);
+  const speakerIdRef = useRef(new SpeakerIdentifier());
+  const enrollTimeout = useRef<number | null>(null);
+  const [enrolledSpeakers, setEnrolledSpeakers] = useState<string[]>([]);
+  const [enrollingSpeaker, setEnrollingSpeaker] = useState<string | null>(null);
+  const [enrollProgress, setEnrollProgress] = useState(0);
+  const lastSpeakerRef = useRef<string | null>(null);
+  const transcriberRef = useRef<Transcriber | null>(null);
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcriptionError, setTranscriptionError] = useState<string | null>(null);
+  const [roundSummary, setRoundSummary] = useState<RoundSummary | null>(null);
+  const [audioCueSettings, setAudioCueSettings] = useState<AudioCueSettings>(loadAudioCueSettings);
+  const cuePlayer = useMemo(() => new AudioCuePlayer(), []);
+  const syncRef = useRef<SessionSyncClient | null>(null);
+  const [syncSession] = useState(createSessionCode);
+  const [facilitatorSecret] = useState(createFacilitatorSecret);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('closed');
+  const [presence, setPresence] = useState<SyncPresence>({ rooms: 0, participants: [] });
 
   const handleEvent = useCallback((event: DiscussionEvent) => {
-    engine.send(event);
-    update();
-  }, [engine, update]);
+    recorder.send(event);
+  }, [recorder]);
+
+  const handleApplyPreset = useCallback((preset: FacilitationPreset) => {
+    handleEvent({ type: 'APPLY_PRESET', config: preset.config, autoMode: preset.autoMode });
+    setLanguage(preset.language);
+  }, [handleEvent]);
+
+  const i18n = useMemo(() => createI18n(language), [language]);
+  const { t } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = i18n.dir;
+  }, [language, i18n]);
+
+  // A break stops the clock without stopping the simulation; the engine records it in the log.
+  const handleToggleBreak = useCallback(() => {
+    if (snap.context.sessionPaused) {
+      clock.resume();
+      handleEvent({ type: 'SET_SESSION_PAUSED', paused: false });
+    } else {
+      engine.dueTicks().forEach(handleEvent);
+      clock.pause();
+      handleEvent({ type: 'SET_SESSION_PAUSED', paused: true });
+    }
+  }, [snap.context.sessionPaused, clock, engine, handleEvent]);
+
+  const handleClockSpeed = useCallback((speed: number) => {
+    clock.setSpeed(speed);
+    setClockSpeed(speed);
+  }, [clock]);
 
   const handleToggleSilence = useCallback(() => {
     if (snap.state === DiscussionState.PAUSE) {
@@ -77,14 +161,38 @@ const App: React.FC = () => {
     }
   }, [snap.state, previousState, handleEvent]);
 
+  // Plain click hands the floor to a speaker; Shift+click toggles overlapping speech.
+  const handleSpeakerClick = useCallback((e: React.MouseEvent, name: string) => {
+    if (!e.shiftKey) {
+      handleEvent({ type: 'SPEAKER_SET', name });
+    } else if (snap.context.activeSpeakers.includes(name)) {
+      handleEvent({ type: 'SPEAKER_STOP', name });
+    } else {
+      handleEvent({ type: 'SPEAKER_START', name });
+    }
+  }, [handleEvent, snap.context.activeSpeakers]);
+
   const handleAddSpeaker = useCallback(() => {
     const trimmed = newSpeakerName.trim();
-    if (trimmed && snap.context.speakers.length < 10) {
-      handleEvent({ type: 'ADD_SPEAKER', name: trimmed });
+    if (trimmed && snap.context.speakers.length < MAX_SPEAKERS) {
+      handleEvent({ type: 'ADD_SPEAKER', name: trimmed, profile: profileForName(trimmed) });
       setNewSpeakerName("");
     }
   }, [newSpeakerName, handleEvent, snap.context.speakers.length]);
 
+  // Members already present keep their talk time and only take on the roster's identity.
+  const handleLoadRoster = useCallback((roster: Roster) => {
+    let count = engine.snapshot().context.speakers.length;
+    roster.members.forEach(({ name, ...profile }) => {
+      if (engine.snapshot().context.speakers.includes(name)) {
+        handleEvent({ type: 'SET_SPEAKER_PROFILE', name, profile });
+      } else if (count < MAX_SPEAKERS) {
+        handleEvent({ type: 'ADD_SPEAKER', name, profile });
+        count++;
+      }
+    });
+  }, [engine, handleEvent]);
+
   const toggleQuietMode = useCallback(() => {
     const nextVal = !isQuietViewActive;
     setIsQuietViewActive(nextVal);
@@ -92,26 +200,294 @@ const App: React.FC = () => {
   }, [isQuietViewActive, handleEvent]);
 
   useEffect(() => {
-    if (isAutoSimulating) {
-      simInterval.current = window.setInterval(() => {
-        handleEvent({ type: 'TICK', seconds: 1 });
-      }, 1000);
-    } else {
-      if (simInterval.current) clearInterval(simInterval.current);
+    if (snap.context.activeSpeaker) lastSpeakerRef.current = snap.context.activeSpeaker;
+  }, [snap.context.activeSpeaker]);
+
+  const finishEnrollment = useCallback(() => {
+    if (enrollTimeout.current) clearTimeout(enrollTimeout.current);
+    enrollTimeout.current = null;
+    const profile = speakerIdRef.current.finishEnrollment();
+    if (profile) setEnrolledSpeakers(prev => prev.includes(profile.name) ? prev : [...prev, profile.name]);
+    setEnrollingSpeaker(null);
+  }, []);
+
+  // Microphone-driven voice activity. With enrolled voice profiles, frames are attributed to a
+  // speaker; otherwise speech simply restores the last selected speaker.
+  const ensureMic = useCallback(async (): Promise<boolean> => {
+    if (vadRef.current?.isRunning) return true;
+    if (micStartRef.current) return micStartRef.current;
+
+    const speakerId = speakerIdRef.current;
+    const vad = vadRef.current ?? new VoiceActivityDetector({
+      onSpeechStart: () => {
+        setIsVoiceDetected(true);
+        if (speakerId.enrolling || speakerId.profileCount > 0) return;
+        const { context: ctx } = engine.snapshot();
+        const last = lastSpeakerRef.current;
+        if (!ctx.activeSpeaker && last && ctx.speakers.includes(last)) {
+          handleEvent({ type: 'SPEAKER_SET', name: last });
+        }
+      },
+      onSpeechEnd: () => {
+        setIsVoiceDetected(false);
+        speakerId.resetWindow();
+        if (!speakerId.enrolling && engine.snapshot().context.activeSpeaker) handleEvent({ type: 'SILENCE' });
+      },
+      onFrame: (samples, sampleRate, isSpeech) => {
+        if (!isSpeech) return;
+        if (speakerId.enrolling) {
+          speakerId.addEnrollmentFrame(samples, sampleRate);
+          setEnrollProgress(speakerId.enrollmentProgress);
+          if (speakerId.enrollmentProgress >= 1) finishEnrollment();
+          return;
+        }
+        const match = speakerId.pushFrame(samples, sampleRate);
+        if (!match) return;
+        const { context: ctx } = engine.snapshot();
+        if (match.name && match.name !== ctx.activeSpeaker && ctx.speakers.includes(match.name)) {
+          handleEvent({ type: 'SPEAKER_SET', name: match.name });
+        } else if (!match.name && ctx.activeSpeaker) {
+          // Below the confidence threshold: the segment stays unattributed.
+          handleEvent({ type: 'SILENCE' });
+        }
+      },
+    });
+    vadRef.current = vad;
+
+    micStartRef.current = vad.start().then(
+      () => {
+        setIsMicActive(true);
+        return true;
+      },
+      (e) => {
+        console.error("Microphone access failed", e);
+        setIsMicActive(false);
+        return false;
+      }
+    ).finally(() => {
+      micStartRef.current = null;
+    });
+    return micStartRef.current;
+  }, [engine, handleEvent, finishEnrollment]);
+
+  const toggleMic = useCallback(async () => {
+    // Still waiting for the permission prompt or the device.
+    if (micStartRef.current) return;
+    if (vadRef.current?.isRunning) {
+      speakerIdRef.current.cancelEnrollment();
+      setEnrollingSpeaker(null);
+      vadRef.current.stop();
+      setIsMicActive(false);
+      setIsVoiceDetected(false);
+      return;
+    }
+    await ensureMic();
+  }, [ensureMic]);
+
+  const handleEnroll = useCallback(async (name: string) => {
+    const speakerId = speakerIdRef.current;
+    if (speakerId.enrolling === name) {
+      speakerId.cancelEnrollment();
+      setEnrollingSpeaker(null);
+      return;
     }
-    return () => { if (simInterval.current) clearInterval(simInterval.current); };
-  }, [isAutoSimulating, handleEvent]);
+    if (!(await ensureMic())) return;
+    if (engine.snapshot().context.activeSpeaker) handleEvent({ type: 'SILENCE' });
+    speakerId.startEnrollment(name);
+    setEnrollingSpeaker(name);
+    setEnrollProgress(0);
+    if (enrollTimeout.current) clearTimeout(enrollTimeout.current);
+    enrollTimeout.current = window.setTimeout(finishEnrollment, 12000);
+  }, [engine, ensureMic, handleEvent, finishEnrollment]);
+
+  // Transcribed text is attributed to the floor holder, or to whoever spoke last if it arrives after they stopped.
+  const toggleTranscription = useCallback(async () => {
+    if (transcriberRef.current?.isRunning) {
+      transcriberRef.current.stop();
+      setIsTranscribing(false);
+      return;
+    }
+    const transcriber = new Transcriber(transcriptionSettings, language, {
+      onText: (text) => {
+        const { context: ctx } = engine.snapshot();
+        handleEvent({ type: 'TRANSCRIPT', text, speaker: ctx.activeSpeaker ?? lastSpeakerRef.current });
+      },
+      onError: (error) => {
+        console.error("Transcription error", error);
+        setTranscriptionError(String(error instanceof Error ? error.message : error));
+      },
+    });
+    transcriberRef.current = transcriber;
+    setTranscriptionError(null);
+    try {
+      await transcriber.start();
+      setIsTranscribing(true);
+    } catch (e) {
+      console.error("Transcription start failed", e);
+      setTranscriptionError(String(e instanceof Error ? e.message : e));
+      setIsTranscribing(false);
+    }
+  }, [engine, handleEvent, transcriptionSettings, language]);
+
+  useEffect(() => () => transcriberRef.current?.stop(), []);
 
+  const toggleSharing = useCallback(() => {
+    if (syncRef.current) {
+      syncRef.current.close();
+      syncRef.current = null;
+      setIsSharing(false);
+      setPresence({ rooms: 0, participants: [] });
+      return;
+    }
+    const client = new SessionSyncClient(syncSession, 'facilitator', {
+      onStatus: setSyncStatus,
+      onPresence: setPresence,
+      // Participant phones may only act on their own behalf; the engine stays authoritative here.
+      onEvent: (event, from) => {
+        if (isAllowedRemoteEvent(event, from, engine.snapshot().context)) handleEvent(event);
+      },
+      // Another console claimed this session code first; it keeps publishing, this one stops.
+      onRejected: () => {
+        syncRef.current = null;
+        setIsSharing(false);
+        setSyncError(t('sync.forbidden'));
+      },
+    }, { secret: facilitatorSecret });
+    syncRef.current = client;
+    client.connect();
+    setIsSharing(true);
+    setSyncError(null);
+  }, [syncSession, facilitatorSecret, engine, handleEvent, t]);
+
+  useEffect(() => () => syncRef.current?.close(), []);
+
+  // Facilitator shortcuts; typing into a field never triggers them.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable]')) return;
+      const { state, context } = engine.snapshot();
+      const event = shortcutEvent(e, state, context);
+      if (!event) return;
+      e.preventDefault();
+      handleEvent(event);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [engine, handleEvent]);
+
+  // Remote views always mirror the live session, never a replay.
+  useEffect(() => {
+    if (syncStatus !== 'open') return;
+    syncRef.current?.publish({
+      state: snap.state,
+      context: toSyncContext(snap.context),
+      quietView: isQuietViewActive,
+      tip: moderationTip,
+      roundSummary,
+      language,
+    });
+  }, [syncStatus, snap, isQuietViewActive, moderationTip, roundSummary, language]);
+
+  // Summarize the round that just ended once, when the reflection pause starts.
+  useEngineNotification(engine, 'stateEntered', ({ state, after }) => {
+    if (state !== DiscussionState.PAUSE || roundSummary?.round === after.context.roundNumber) return;
+    summarizeRound(after.context, language).then(summary => {
+      if (summary) setRoundSummary(summary);
+    });
+  });
+
+  // People in the room look at each other, not at the screen, so transitions are also heard.
+  useEngineTransitions(engine, notifications => {
+    cuePlayer.play(planCues(notifications, audioCueSettings, i18n), audioCueSettings, language);
+  });
+  useEffect(() => () => cuePlayer.dispose(), [cuePlayer]);
+
+  const handleRemoveSpeaker = useCallback((name: string) => {
+    speakerIdRef.current.removeProfile(name);
+    setEnrolledSpeakers(prev => prev.filter(s => s !== name));
+    if (enrollingSpeaker === name) setEnrollingSpeaker(null);
+    handleEvent({ type: 'REMOVE_SPEAKER', name });
+  }, [enrollingSpeaker, handleEvent]);
+
+  useEffect(() => () => {
+    vadRef.current?.stop();
+    if (enrollTimeout.current) clearTimeout(enrollTimeout.current);
+  }, []);
+
+  // Throttled or late timers only delay the catch-up: every second the clock measured is ticked.
+  useEffect(() => {
+    if (!isAutoSimulating) return;
+    clock.start();
+    const catchUp = () => engine.dueTicks().forEach(handleEvent);
+    const timer = window.setInterval(catchUp, CLOCK_POLL_MS);
+    document.addEventListener('visibilitychange', catchUp);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', catchUp);
+      clock.stop();
+    };
+  }, [isAutoSimulating, clock, engine, handleEvent]);
+
+  // Persist at most every SAVE_INTERVAL_MS while the session changes, and right away when the
+  // page is hidden or the console switches to another session.
+  const persist = () => {
+    if (recorder.length === 0) return;
+    const current = engine.snapshot();
+    setActiveSessionId(sessionId);
+    saveSession({
+      id: sessionId,
+      name: sessionName || new Date(createdAt).toLocaleString(language),
+      createdAt,
+      updatedAt: new Date().toISOString(),
+      language,
+      speakers: current.context.speakers,
+      config: { ...DEFAULT_ENGINE_CONFIG, ...pickEngineConfig(current.context) },
+      autoMode: current.context.autoMode,
+      running: isAutoSimulating,
+      clock: clock.state(),
+      snapshot: current,
+      log: recorder.log(),
+    }).catch(error => console.error("Session storage error:", error));
+  };
+  const persistRef = useRef(persist);
+  persistRef.current = persist;
+  const saveTimer = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (saveTimer.current !== null) return;
+    saveTimer.current = window.setTimeout(() => {
+      saveTimer.current = null;
+      persistRef.current();
+    }, SAVE_INTERVAL_MS);
+  }, [snap, language, sessionName, isAutoSimulating, clockSpeed]);
+
+  useEffect(() => {
+    const flush = () => persistRef.current();
+    const onVisibility = () => { if (document.visibilityState === 'hidden') flush(); };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', onVisibility);
+      if (saveTimer.current !== null) clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+      flush();
+    };
+  }, []);
+
+  // Refetch only when the situation the tip describes changes, not on every TICK.
+  const tipKey = `${tipCacheKey(snap.state, snap.context, language)}-${llmSettings.provider}-${llmSettings.model}`;
   useEffect(() => {
     if (snap.context.speakers.length === 0) return;
     
-    const stateKey = `${snap.state}-${snap.context.speakers.length}`;
+    const stateKey = tipKey;
     if (lastFetchedState.current === stateKey) return;
 
     const fetchTipDebounced = setTimeout(async () => {
       setIsLoadingTip(true);
       try {
-        const tip = await getModerationTip(snap.state, snap.context);
+        const tip = await getModerationTip(snap.state, snap.context, language);
         setModerationTip(tip);
         lastFetchedState.current = stateKey;
       } catch (e) {
@@ -122,88 +498,17 @@ const App: React.FC = () => {
     }, 600);
 
     return () => clearTimeout(fetchTipDebounced);
-  }, [snap.state, snap.context.speakers.length]);
-
-  const { state, context } = snap;
-  const theme = isQuietViewActive 
-    ? { label: "הקול השקט", color: "text-[#8a6e42]", bg: "from-[#f5f1ea] to-[#ebe4d8]", fullBg: "bg-[#f5f1ea]" } 
-    : STATE_THEMES[state];
+  }, [tipKey]);
 
-  const speakerColorMap = useMemo(() => {
-    const map: Record<string, typeof SPEAKER_COLORS[0]> = {};
-    context.speakers.forEach((s, i) => {
-      map[s] = SPEAKER_COLORS[i % SPEAKER_COLORS.length];
-    });
-    return map;
-  }, [context.speakers]);
-
-  const getSpeakerStyle = (s: string) => speakerColorMap[s] || SPEAKER_COLORS[0];
-  const totalTalk = (Object.values(context.talkTime) as number[]).reduce((a, b) => a + b, 0);
-  const avgTalk = totalTalk / (context.speakers.length || 1);
-
-  const isImbalanceMeasureActive = 
-    state !== DiscussionState.STRUCTURED && 
-    state !== DiscussionState.PAUSE && 
-    state !== DiscussionState.NUDGE && 
-    state !== DiscussionState.CHECKIN;
-
-  const roundProgressInfo = useMemo(() => {
-    if (state !== DiscussionState.STRUCTURED || context.turnOrder.length === 0) return null;
-    const speakerCount = context.turnOrder.length;
-    const totalRoundSeconds = speakerCount * context.turnHoldSeconds;
-    const turnElapsed = context.totalSeconds - context.turnSince;
-    const roundElapsed = (context.turnIndex * context.turnHoldSeconds) + Math.min(turnElapsed, context.turnHoldSeconds);
-    const progressPercent = (roundElapsed / totalRoundSeconds) * 100;
-    return { progressPercent, roundElapsed, totalRoundSeconds };
-  }, [state, context.turnOrder, context.turnIndex, context.turnSince, context.totalSeconds, context.turnHoldSeconds]);
-
-  // Unified countdown calculator for transient states
-  const transientCountdown = useMemo(() => {
-    const elapsedInState = context.totalSeconds - context.stateSince;
-    
-    if (state === DiscussionState.MONITORING && context.imbalanceFlag && context.imbalanceSince !== null) {
-      const elapsedMonitoring = context.totalSeconds - context.imbalanceSince;
-      return Math.max(0, context.imbalanceHoldSeconds - elapsedMonitoring);
-    }
-    
-    if (state === DiscussionState.IMBALANCE) return Math.max(0, 15 - elapsedInState);
-    if (state === DiscussionState.NUDGE) return Math.max(0, 15 - elapsedInState);
-    if (state === DiscussionState.PAUSE) return Math.max(0, 20 - elapsedInState);
-    if (state === DiscussionState.CHECKIN) return Math.max(0, 20 - elapsedInState);
-    
-    return null;
-  }, [state, context.imbalanceFlag, context.imbalanceSince, context.totalSeconds, context.imbalanceHoldSeconds, context.stateSince]);
+  // While a replay is open, the workspace renders the replayed moment instead of the live session.
+  const { state, context } = replaySnap ?? snap;
+  const theme = stageTheme(state, context, isQuietViewActive, i18n);
+  const getSpeakerStyle = (s: string) => speakerColor(context, s);
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div className={`h-screen w-screen flex flex-col md:flex-row gap-4 p-4 transition-all duration-1000 overflow-hidden ${theme.fullBg} ${state === DiscussionState.IMBALANCE ? 'imbalance-bg-active' : ''}`}>
-      <style>{`
-        @keyframes floating-slow { 
-          0%, 100% { transform: translate(0, 0) rotate(0deg); } 
-          25% { transform: translate(8px, -15px) rotate(1deg); }
-          50% { transform: translate(-5px, -8px) rotate(-1deg); }
-          75% { transform: translate(-10px, -12px) rotate(0.5deg); }
-        }
-        .animate-floating-slow { animation: floating-slow 10s ease-in-out infinite; }
-        
-        @keyframes breathing { 
-          0%, 100% { transform: scale(0.97); box-shadow: inset -12px -12px 30px rgba(58, 47, 40, 0.1), inset 8px 8px 15px rgba(255, 255, 255, 0.2); } 
-          50% { transform: scale(1.05); box-shadow: inset -18px -18px 40px rgba(58, 47, 40, 0.15), inset 12px 12px 25px rgba(255, 255, 255, 0.3); } 
-        }
-        .shush-sphere { animation: breathing 6s ease-in-out infinite; }
-        
-        @keyframes imbalance-pulse {
-          0%, 100% { background-color: rgba(254, 202, 202, 0.3); box-shadow: inset 0 0 100px rgba(185, 28, 28, 0.05); }
-          50% { background-color: rgba(254, 202, 202, 0.6); box-shadow: inset 0 0 150px rgba(185, 28, 28, 0.15); }
-        }
-        .imbalance-bg-active {
-          animation: imbalance-pulse 3s ease-in-out infinite;
-        }
-
-        .progress-circle { transition: stroke-dashoffset 0.8s ease-out; }
-        .round-bar-transition { transition: width 0.8s cubic-bezier(0.4, 0, 0.2, 1); }
-        .imbalance-glow { box-shadow: 0 0 35px 15px rgba(185, 28, 28, 0.4); }
-        .warning-glow { box-shadow: 0 0 20px 5px rgba(185, 28, 28, 0.2); border-color: rgba(185, 28, 28, 0.3); }
-      `}</style>
+      <StageStyles />
       <div className={`bg-waves opacity-20 transition-colors duration-1000 ${state === DiscussionState.PAUSE ? 'mix-blend-overlay' : ''}`}></div>
 
       {/* Control Panel (Sidebar) */}
@@ -212,11 +517,29 @@ const App: React.FC = () => {
           <div className="flex items-center justify-between pb-3 border-b border-[#d6cdc1] shrink-0">
             <div className="flex items-center gap-3">
               <Users className={`w-6 h-6 ${state === DiscussionState.IMBALANCE ? 'text-red-800' : 'text-[#5d473b]'}`} />
-              <h2 className="text-xl font-black text-[#3d2e25]">לוח בקרה</h2>
+              <h2 className="text-xl font-black text-[#3d2e25]">{t('app.controlPanel')}</h2>
             </div>
+            <button
+              onClick={() => setReportLog(recorder.log())}
+              disabled={recorder.length === 0}
+              title={t('report.title')}
+              className="p-1.5 rounded-lg text-[#5d473b] hover:bg-[#ebe6db] disabled:opacity-40 mr-auto ml-2"
+            >
+              <FileBarChart size={18} />
+            </button>
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              title={t('history.title')}
+              className="p-1.5 rounded-lg text-[#5d473b] hover:bg-[#ebe6db]"
+            >
+              <History size={18} />
+            </button>
+            <span title={`${t('shortcuts.title')}: ${t('shortcuts.help')}`} className="p-1.5 ml-2 text-[#736d52] cursor-help">
+              <Keyboard size={18} />
+            </span>
             <div className={`px-2 py-1 rounded-full border text-[10px] font-black flex items-center gap-1.5 ${context.autoMode ? 'bg-[#d4e4db] border-[#4a635d]/20 text-[#2c3d38]' : 'bg-white/50 border-[#d6cdc1] text-slate-600'}`}>
               <Zap size={10} fill={context.autoMode ? 'currentColor' : 'none'} />
-              {context.autoMode ? 'אוטו' : 'ידני'}
+              {context.autoMode ? t('app.auto') : t('app.manual')}
             </div>
           </div>
 
@@ -231,7 +554,7 @@ const App: React.FC = () => {
             >
               <div className="flex items-center gap-3">
                 <Zap size={18} className={context.autoMode ? 'text-white' : 'text-[#4a635d]'} />
-                <span className="text-lg font-black tracking-tight">ניהול אוטומטי</span>
+                <span className="text-lg font-black tracking-tight">{t('app.autoManage')}</span>
               </div>
               <div className={`w-10 h-5 rounded-full relative transition-colors ${context.autoMode ? 'bg-[#2c3d38]' : 'bg-slate-400'}`}>
                 <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full shadow-sm transition-all ${context.autoMode ? 'right-5.5' : 'right-0.5'}`}></div>
@@ -248,7 +571,7 @@ const App: React.FC = () => {
                   : 'bg-[#4a635d] text-white hover:bg-[#2c3d38] disabled:opacity-50'
                 }`}
               >
-                {isAutoSimulating ? 'עצור' : 'הפעל'}
+                {isAutoSimulating ? t('app.stop') : t('app.start')}
               </button>
               <button 
                 onClick={handleToggleSilence}
@@ -258,8 +581,44 @@ const App: React.FC = () => {
                   : 'bg-[#f5f1ea] text-[#5d473b] border-[#d6cdc1] hover:bg-[#ebe6db]'
                 }`}
               >
-                {state === DiscussionState.PAUSE ? 'בטל' : 'שקט'}
+                {state === DiscussionState.PAUSE ? t('app.cancel') : t('app.silence')}
               </button>
+              <button 
+                onClick={toggleMic}
+                title={isMicActive ? t('app.micOff') : t('app.micOn')}
+                className={`px-3 py-3 rounded-xl transition-all border shadow-sm active:scale-95 flex items-center justify-center ${
+                  isMicActive 
+                  ? (isVoiceDetected ? 'bg-[#4a635d] text-white border-[#2c3d38] animate-pulse' : 'bg-[#d4e4db] text-[#2c3d38] border-[#4a635d]/30')
+                  : 'bg-[#f5f1ea] text-[#5d473b] border-[#d6cdc1] hover:bg-[#ebe6db]'
+                }`}
+              >
+                {isMicActive ? <Mic size={20} /> : <MicOff size={20} />}
+              </button>
+            </div>
+
+            <div className="flex gap-2 shrink-0 items-center">
+              <button
+                onClick={handleToggleBreak}
+                className={`flex-1 py-2 rounded-xl font-black text-sm transition-all border shadow-sm active:scale-95 flex items-center justify-center gap-2 ${
+                  context.sessionPaused
+                  ? 'bg-[#a66e51] text-white border-[#a66e51]'
+                  : 'bg-[#f5f1ea] text-[#5d473b] border-[#d6cdc1] hover:bg-[#ebe6db]'
+                }`}
+              >
+                {context.sessionPaused ? <Play size={16} /> : <Coffee size={16} />}
+                {context.sessionPaused ? t('clock.resume') : t('clock.break')}
+              </button>
+              <div className="flex items-center gap-1 text-[10px] font-mono font-bold text-[#736d52]" title={t('clock.speed')}>
+                {CLOCK_SPEEDS.map(v => (
+                  <button
+                    key={v}
+                    onClick={() => handleClockSpeed(v)}
+                    className={`px-1.5 py-1 rounded ${clockSpeed === v ? 'bg-[#5d473b] text-white' : 'hover:bg-[#ebe6db]'}`}
+                  >
+                    {v}x
+                  </button>
+                ))}
+              </div>
             </div>
 
             <div className="flex gap-2 shrink-0">
@@ -267,13 +626,13 @@ const App: React.FC = () => {
                 type="text"
                 value={newSpeakerName}
                 onChange={(e) => setNewSpeakerName(e.target.value)}
-                placeholder="שמות המשתתפים"
+                placeholder={t('app.participantsPlaceholder')}
                 className="flex-1 bg-white/80 border border-[#d6cdc1] rounded-xl px-3 py-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-[#4a635d]/20"
                 onKeyDown={(e) => e.key === 'Enter' && handleAddSpeaker()}
               />
               <button 
                 onClick={handleAddSpeaker} 
-                disabled={context.speakers.length >= 10 || !newSpeakerName.trim()}
+                disabled={context.speakers.length >= MAX_SPEAKERS || !newSpeakerName.trim()}
                 className="bg-[#5d473b] text-white px-5 rounded-xl font-black text-xl hover:bg-[#3d2e25] disabled:opacity-50 shadow-sm active:scale-95"
               >
                 +
@@ -284,25 +643,40 @@ const App: React.FC = () => {
               <div className="grid grid-cols-2 gap-2 h-full content-start overflow-y-auto scrollbar-hide">
                 {context.speakers.map(s => {
                   const isActive = context.activeSpeaker === s;
+                  const isOverlapping = !isActive && context.activeSpeakers.includes(s);
                   const isQuiet = context.quietSpeaker === s;
+                  const isEnrolled = enrolledSpeakers.includes(s);
+                  const isEnrolling = enrollingSpeaker === s;
+                  const hasHandRaised = context.raisedHands.includes(s);
                   const style = getSpeakerStyle(s);
                   return (
                     <div 
                       key={s} 
                       className={`group relative p-2 rounded-xl border transition-all duration-300 flex items-center gap-2 ${
-                        isActive ? 'bg-white border-[#4a635d]/50 shadow-md scale-[1.02] z-10' : 'bg-[#e8e2d8]/50 border-transparent hover:bg-white hover:border-[#d6cdc1]'
+                        isActive ? 'bg-white border-[#4a635d]/50 shadow-md scale-[1.02] z-10' : isOverlapping ? 'bg-white border-[#a66e51]/50 shadow-sm' : 'bg-[#e8e2d8]/50 border-transparent hover:bg-white hover:border-[#d6cdc1]'
                       }`}
                     >
                       <button 
-                        onClick={() => handleEvent({ type: 'SPEAKER_SET', name: s })}
+                        onClick={(e) => handleSpeakerClick(e, s)}
+                        title={t('app.overlapHint')}
                         className={`w-8 h-8 rounded-lg bg-gradient-to-br ${style.gradient} flex items-center justify-center text-white font-black text-xs shrink-0 shadow-sm relative`}
                       >
                         {s[0]}
                         {isActive && <div className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-[#4a635d] border-2 border-white rounded-full animate-pulse shadow-sm"></div>}
+                        {isOverlapping && <div className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-[#a66e51] border-2 border-white rounded-full animate-pulse shadow-sm"></div>}
                       </button>
-                      <div className="flex-1 min-w-0 cursor-pointer" onClick={() => handleEvent({ type: 'SPEAKER_SET', name: s })}>
+                      <div className="flex-1 min-w-0 cursor-pointer" onClick={(e) => handleSpeakerClick(e, s)}>
                         <div className={`font-black text-[13px] truncate ${isActive ? 'text-[#1a1816]' : 'text-[#3d2e25]'}`}>{s}</div>
-                        <div className="text-[10px] font-mono font-bold text-[#736d52]">{context.talkTime[s] || 0}s</div>
+                        {context.speakerProfiles[s]?.role && <div className="text-[9px] font-bold text-[#736d52] truncate -mt-0.5">{context.speakerProfiles[s].role}</div>}
+                        <div className="text-[10px] font-mono font-bold text-[#736d52] flex items-center gap-1">
+                          {context.talkTime[s] || 0}s
+                          {(context.interruptionsMade[s] || 0) > 0 && (
+                            <span title={t('app.interruptions')} className="flex items-center text-[#a66e51]"><Zap size={9} />{context.interruptionsMade[s]}</span>
+                          )}
+                          {isEnrolled && !isEnrolling && <AudioWaveform size={10} className="text-[#4a635d]" />}
+                          {hasHandRaised && <span className="flex items-center text-[#5d473b]"><Hand size={10} />{context.raisedHands.indexOf(s) + 1}</span>}
+                          {isEnrolling && <span className="text-[#a66e51]">{Math.round(enrollProgress * 100)}%</span>}
+                        </div>
                       </div>
                       <div className="absolute top-1 left-1 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col gap-1 bg-white/95 rounded-md p-0.5 shadow-sm">
                         <button 
@@ -312,7 +686,21 @@ const App: React.FC = () => {
                           <Target size={12} />
                         </button>
                         <button 
-                          onClick={() => handleEvent({ type: 'REMOVE_SPEAKER', name: s })}
+                          onClick={() => handleEnroll(s)}
+                          title={isEnrolling ? t('app.enrollCancel') : t('app.enrollStart')}
+                          className={`p-0.5 rounded transition-colors ${isEnrolling ? 'text-[#a66e51] animate-pulse' : isEnrolled ? 'text-[#4a635d]' : 'text-slate-500 hover:text-[#4a635d]'}`}
+                        >
+                          <AudioWaveform size={12} />
+                        </button>
+                        <button
+                          onClick={() => handleEvent({ type: hasHandRaised ? 'LOWER_HAND' : 'RAISE_HAND', name: s })}
+                          title={hasHandRaised ? t('hand.lower') : t('hand.raise')}
+                          className={`p-0.5 rounded transition-colors ${hasHandRaised ? 'text-[#5d473b]' : 'text-slate-500 hover:text-[#5d473b]'}`}
+                        >
+                          <Hand size={12} />
+                        </button>
+                        <button 
+                          onClick={() => handleRemoveSpeaker(s)}
                           className="p-0.5 text-red-600/70 hover:text-red-900"
                         >
                           <Trash2 size={12} />
@@ -324,19 +712,59 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <label className="shrink-0 flex items-center gap-2 px-1">
+              <span className="text-[11px] font-black text-[#3d2e25] flex-1">{t('app.language')}</span>
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as SessionLanguage)}
+                className="bg-white/80 border border-[#d6cdc1] rounded-lg px-1.5 py-0.5 text-[11px] font-bold focus:outline-none"
+              >
+                {LANGUAGE_IDS.map(id => <option key={id} value={id}>{LANGUAGES[id].name}</option>)}
+              </select>
+            </label>
+            <PresetPanel context={snap.context} language={language} onApply={handleApplyPreset} />
+            <RosterPanel
+              context={snap.context}
+              onLoad={handleLoadRoster}
+              onProfileChange={(name, profile) => handleEvent({ type: 'SET_SPEAKER_PROFILE', name, profile })}
+            />
+            <AgendaPanel context={snap.context} onEvent={handleEvent} />
+            <FlowPanel context={snap.context} onEvent={handleEvent} />
+            <SettingsPanel context={snap.context} onChange={(config) => handleEvent({ type: 'SET_CONFIG', config })} />
+            <TranscriptPanel
+              settings={transcriptionSettings}
+              onSettingsChange={(next) => { saveTranscriptionSettings(next); setTranscriptionSettings(next); }}
+              isRunning={isTranscribing}
+              onToggle={toggleTranscription}
+              transcript={snap.context.transcript}
+              error={transcriptionError}
+            />
+            <AudioCuePanel
+              settings={audioCueSettings}
+              onSettingsChange={(next) => { saveAudioCueSettings(next); setAudioCueSettings(next); }}
+              flow={snap.context.flow}
+              onTest={() => cuePlayer.play([{ type: 'chime' }, { type: 'speak', text: t('cue.title') }], audioCueSettings, language)}
+            />
+            <LLMSettingsPanel settings={llmSettings} onChange={(next) => { configureLLM(next); setLlmSettings(next); }} />
+            <ReplayPanel recorder={recorder} onReplaySnapshot={setReplaySnap} />
+            <SyncPanel session={syncSession} isSharing={isSharing} status={syncStatus} presence={presence} error={syncError} onToggle={toggleSharing} />
+
             <div className="grid grid-cols-2 gap-2 pt-3 border-t border-[#d6cdc1] shrink-0">
-              {Object.entries(STATE_THEMES).map(([st, info]) => (
-                <button 
-                  key={st}
-                  onClick={() => handleEvent({ type: 'FORCE_STATE', state: st as DiscussionState })}
-                  className={`min-h-[50px] p-2 rounded-xl border font-black flex items-center gap-2 transition-all active:scale-95 shadow-sm ${
-                    state === st ? 'bg-[#5d473b] border-[#3d2e25] text-white shadow-md' : 'bg-white/80 border-[#d6cdc1] text-[#5d473b] hover:bg-[#f5f1ea]'
-                  }`}
-                >
-                  <info.icon size={16} strokeWidth={2.5} className="shrink-0" />
-                  <span className="text-[11px] leading-tight text-right flex-1">{info.label}</span>
-                </button>
-              ))}
+              {context.flow.states.map(def => {
+                const Icon = STATE_THEMES[def.behavior].icon;
+                return (
+                  <button 
+                    key={def.id}
+                    onClick={() => handleEvent({ type: 'ENTER_STATE', id: def.id })}
+                    className={`min-h-[50px] p-2 rounded-xl border font-black flex items-center gap-2 transition-all active:scale-95 shadow-sm ${
+                      context.flowState === def.id ? 'bg-[#5d473b] border-[#3d2e25] text-white shadow-md' : 'bg-white/80 border-[#d6cdc1] text-[#5d473b] hover:bg-[#f5f1ea]'
+                    }`}
+                  >
+                    <Icon size={16} strokeWidth={2.5} className="shrink-0" />
+                    <span className="text-[11px] leading-tight text-start flex-1">{flowText(def.label, language) ?? t(`state.${def.behavior}` as MessageKey)}</span>
+                  </button>
+                );
+              })}
               <button 
                 onClick={toggleQuietMode}
                 className={`col-span-2 text-base p-3 rounded-xl border font-black flex items-center justify-center gap-3 transition-all active:scale-95 shadow-md ${
@@ -344,7 +772,7 @@ const App: React.FC = () => {
                 }`}
               >
                 <Mic2 size={20} />
-                <span>{isQuietViewActive ? 'בטל "קול שקט"' : 'מצב "קול שקט"'}</span>
+                <span>{isQuietViewActive ? t('app.quietModeOff') : t('app.quietModeOn')}</span>
               </button>
             </div>
           </div>
@@ -352,197 +780,36 @@ const App: React.FC = () => {
       </section>
 
       {/* Main Discussion Workspace */}
-      <section className="flex-1 flex flex-col gap-4 z-10 relative h-full overflow-hidden">
-        <div className={`flex-1 bg-white/60 backdrop-blur-3xl border transition-all duration-1000 rounded-[3rem] p-6 flex flex-col relative overflow-hidden shadow-2xl ${state === DiscussionState.IMBALANCE ? 'border-red-400 shadow-red-200/40' : 'border-white/40'}`}>
-          <div className="flex justify-between items-start z-[60] mb-4 relative">
-            <div className="space-y-1">
-              <h1 className={`text-3xl lg:text-5xl font-black tracking-tighter ${theme.color} transition-all drop-shadow-sm`}>
-                {theme.label}
-              </h1>
-              <p className="text-[#736d52] font-black text-[10px] uppercase tracking-[0.4em] opacity-80">AI DISCUSSION ANALYTICS</p>
-            </div>
-            
-            <div className={`flex gap-4 lg:gap-6 bg-white/90 p-2.5 px-5 rounded-[2rem] border transition-all shadow-xl backdrop-blur-md ${state === DiscussionState.IMBALANCE ? 'border-red-200' : 'border-[#d6cdc1]/40'}`}>
-              <div className={`text-right transition-all duration-500 ${isImbalanceMeasureActive ? 'opacity-100' : 'opacity-30'}`}>
-                <div className={`text-[10px] lg:text-xs uppercase font-black flex items-center justify-end gap-1 mb-0.5 ${state === DiscussionState.IMBALANCE ? 'text-red-900' : 'text-[#3d2e25]'}`}>
-                  <BarChart2 size={12}/> מדד איזון
-                </div>
-                <div className="flex flex-col items-end">
-                   <div className={`text-2xl lg:text-4xl font-black tabular-nums leading-none tracking-tighter ${context.imbalanceFlag ? 'text-red-900 animate-pulse' : 'text-[#1a1816]'}`}>
-                     {(context.dominanceScore || 0).toFixed(2)}
-                   </div>
-                </div>
-              </div>
-              <div className="w-px h-10 bg-[#d6cdc1]/60 self-center mx-1"></div>
-              <div className="text-right">
-                <div className="text-[10px] lg:text-xs uppercase font-black text-[#1a1816] flex items-center justify-end gap-1 mb-0.5"><Clock size={12}/> זמן כולל</div>
-                <div className="text-2xl lg:text-4xl font-black text-[#1a1816] tabular-nums leading-none tracking-tighter">
-                  {context.totalSeconds}<span className="text-base ml-1 text-[#736d52] font-black">s</span>
-                </div>
-              </div>
-            </div>
-          </div>
-
-          <div className="flex-1 flex flex-col items-center justify-center relative min-h-0 py-2 z-20 overflow-hidden">
-            {context.speakers.length === 0 ? (
-              <div className="flex flex-col items-center gap-4 animate-in fade-in zoom-in duration-1000 text-[#d6cdc1]">
-                <Users size={80} strokeWidth={1} />
-                <p className="text-2xl font-black text-[#3d2e25]/20 text-center tracking-tight">הוסיפו משתתפים בלוח הבקרה כדי להתחיל...</p>
-              </div>
-            ) : isQuietViewActive ? (
-              <div className="w-full h-full flex flex-col items-center justify-center animate-in slide-in-from-bottom-8 duration-700">
-                <div className="relative">
-                  <div className="absolute inset-0 bg-[#8a6e42] blur-[100px] opacity-20 animate-pulse"></div>
-                  {!context.quietSpeaker ? (
-                    <div className="text-center space-y-4">
-                       <Mic2 size={80} className="mx-auto text-[#d6cdc1] mb-4 opacity-60" />
-                       <p className="text-2xl font-black text-[#3d2e25]/40 tracking-tight">נא לבחור "קול שקט" מלוח הבקרה</p>
-                    </div>
-                  ) : (
-                    <div className="flex flex-col items-center">
-                       <div className={`w-40 h-40 lg:w-56 lg:h-56 rounded-full bg-gradient-to-br ${getSpeakerStyle(context.quietSpeaker).gradient} shadow-2xl border-[8px] border-white flex items-center justify-center text-white font-black text-6xl lg:text-7xl relative z-10 animate-floating`}>
-                          {context.quietSpeaker[0]}
-                          <div className="absolute inset-[-12px] rounded-full border-4 border-[#8a6e42]/30 animate-ping"></div>
-                       </div>
-                       <h2 className="mt-8 text-4xl lg:text-5xl font-black text-[#1a1816] tracking-tighter drop-shadow-md">{context.quietSpeaker}</h2>
-                    </div>
-                  )}
-                </div>
-              </div>
-            ) : state === DiscussionState.PAUSE || state === DiscussionState.CHECKIN ? (
-              <div className="flex flex-col items-center gap-6 animate-in zoom-in duration-1000">
-                 <div className="shush-sphere w-48 h-48 lg:w-56 lg:h-56 rounded-full bg-[#ebe6db] border-[10px] border-[#d6cdc1]/50 flex items-center justify-center shadow-inner relative">
-                    {state === DiscussionState.PAUSE ? <Wind size={60} className="text-[#736d52]" /> : <CheckCircle size={60} className="text-[#4a635d]" />}
-                    {/* Visual Progress ring for Pause/Checkin */}
-                    <svg className="absolute inset-[-10px] -rotate-90 pointer-events-none" viewBox="0 0 100 100" style={{ width: 'calc(100% + 20px)', height: 'calc(100% + 20px)' }}>
-                       <circle 
-                         cx="50" cy="50" r="48" fill="none" 
-                         stroke={state === DiscussionState.PAUSE ? "#8a6e42" : "#4a635d"} strokeWidth="2" 
-                         strokeDasharray="301.6"
-                         strokeDashoffset={301.6 * (1 - (transientCountdown || 0) / 20)}
-                         className="progress-circle opacity-30"
-                       />
-                    </svg>
-                 </div>
-                 <div className="text-center">
-                   <div className={`text-6xl lg:text-7xl font-black tabular-nums tracking-tighter ${state === DiscussionState.PAUSE ? 'text-[#1a1816]' : 'text-[#2c3d38]'}`}>
-                     00:{String(Math.ceil(transientCountdown || 0)).padStart(2, '0')}
-                   </div>
-                   <p className="text-xl lg:text-2xl font-bold text-[#736d52] mt-4 tracking-tight">
-                     {state === DiscussionState.PAUSE ? "מרחב שקט להתבוננות והפנמה" : "בודקים אם אפשר להמשיך בשיח"}
-                   </p>
-                 </div>
-              </div>
-            ) : (
-              <div className={`w-full h-full flex flex-wrap items-center justify-center transition-all duration-1000 ${state === DiscussionState.NUDGE ? 'gap-0 max-w-[450px]' : 'gap-6 lg:gap-12'}`}>
-                {context.speakers.map((s, idx) => {
-                  const isActive = context.activeSpeaker === s;
-                  const isQuiet = context.quietSpeaker === s;
-                  const talkTime = context.talkTime[s] || 0;
-                  const growthFactor = totalTalk > 0 ? (talkTime / avgTalk) : 1;
-                  
-                  const isFlagged = (context.imbalanceFlag && (talkTime / avgTalk > 1.5)) && 
-                                   (state === DiscussionState.IMBALANCE || state === DiscussionState.MONITORING) && 
-                                   state !== DiscussionState.NUDGE && 
-                                   state !== DiscussionState.CHECKIN;
-                  
-                  let size = 95;
-                  if (state === DiscussionState.STRUCTURED) {
-                    size = isActive ? 150 : 75;
-                  } else if (state === DiscussionState.NUDGE) {
-                    size = 85; 
-                  } else if (state === DiscussionState.CHECKIN) {
-                    size = 90;
-                  } else {
-                    size = Math.min(150, Math.max(85, 95 * (0.8 + growthFactor * 0.4)));
-                  }
-                  
-                  const style = getSpeakerStyle(s);
-                  return (
-                    <div 
-                      key={s} 
-                      className={`flex flex-col items-center transition-all duration-1000 ease-in-out relative animate-floating-slow ${state === DiscussionState.NUDGE ? 'scale-95 -mx-3 -my-1 z-20' : ''}`}
-                      style={{ animationDelay: `${idx * 0.3}s` }}
-                    >
-                      <div 
-                        style={{ width: size, height: size }} 
-                        className={`rounded-full bg-gradient-to-br ${style.gradient} shadow-lg transition-all duration-1000 relative flex items-center justify-center border-[5px] border-white/60 ${isActive ? 'ring-[8px] ring-[#4a635d]/20 scale-110 z-30 shadow-xl' : 'opacity-90 z-10'} ${isFlagged ? (state === DiscussionState.IMBALANCE ? 'imbalance-glow' : 'warning-glow scale-105') : ''} ${state === DiscussionState.NUDGE ? 'shadow-inner ring-2 ring-white/30' : ''}`}
-                      >
-                         {isActive && (
-                           <svg className="absolute inset-0 -rotate-90 pointer-events-none overflow-visible" viewBox="0 0 100 100">
-                             <circle cx="50" cy="50" r="58" fill="none" stroke="currentColor" strokeWidth="4" className="text-[#4a635d]/10" />
-                             {state === DiscussionState.STRUCTURED && (
-                               <circle 
-                                 cx="50" cy="50" r="58" fill="none" 
-                                 stroke="currentColor" strokeWidth="4" 
-                                 strokeDasharray="364.4"
-                                 strokeDashoffset={364.4 * (1 - (context.totalSeconds - context.turnSince) / context.turnHoldSeconds)}
-                                 className="text-[#4a635d] progress-circle"
-                               />
-                             )}
-                           </svg>
-                         )}
-                         <span className="text-white font-black drop-shadow-md select-none transition-all duration-1000" style={{ fontSize: size * 0.35 }}>{s[0]}</span>
-                         {isQuiet && <Star className="absolute -top-2 -left-2 text-[#8a6e42] fill-[#8a6e42] drop-shadow-md" size={size * 0.3} />}
-                      </div>
-                      <div className={`mt-2.5 text-center transition-all duration-1000 ${isActive ? 'scale-110 font-bold' : 'opacity-70'}`}>
-                         <div className={`text-sm font-black truncate max-w-[100px] ${isActive ? 'text-[#1a1816]' : 'text-[#3d2e25]'}`}>{s}</div>
-                         <div className="text-[10px] font-bold text-[#736d52] tracking-widest uppercase mt-0.5">{talkTime}s</div>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            )}
-          </div>
-
-          {state === DiscussionState.STRUCTURED && roundProgressInfo && (
-            <div className="mt-auto pt-4 flex flex-col gap-3 animate-in slide-in-from-bottom-4 duration-500 z-50 relative group">
-              <div className="flex items-center justify-between px-2">
-                <div className="text-[10px] font-black text-[#1a1816] bg-white/60 px-3 py-1.5 rounded-full shadow-sm border border-[#d6cdc1]/60">
-                  דובר {context.turnIndex + 1} מתוך {context.turnOrder.length}
-                </div>
-              </div>
-              <div className="flex items-center gap-6">
-                <div className="flex-1 h-2.5 bg-[#d6cdc1]/40 rounded-full overflow-hidden shadow-inner border border-[#d6cdc1]/30 relative">
-                  <div className="absolute inset-0 flex">
-                    {context.turnOrder.map((_, i) => (
-                      <div key={i} className={`h-full border-r border-[#d6cdc1]/30 last:border-0`} style={{ width: `${100 / context.turnOrder.length}%` }}></div>
-                    ))}
-                  </div>
-                  <div className="h-full bg-gradient-to-r from-[#4a635d] to-[#2c3d38] round-bar-transition shadow-[0_0_10px_rgba(74,99,93,0.3)] relative" style={{ width: `${roundProgressInfo.progressPercent}%` }}></div>
-                </div>
-                <div className="flex flex-col items-center shrink-0">
-                  <button onClick={() => handleEvent({ type: 'NEXT_TURN' })} className="p-2.5 rounded-xl bg-white/80 border border-[#d6cdc1]/70 text-[#4a635d] hover:bg-[#e6efea] shadow-md active:scale-90 transition-all group">
-                    <ChevronRight size={28} className="group-hover:translate-x-0.5 transition-transform" />
-                  </button>
-                </div>
-              </div>
-            </div>
-          )}
-        </div>
-
-        {/* AI Notification Drawer */}
-        <div className={`transition-all duration-700 rounded-[2rem] p-5 lg:p-6 relative overflow-hidden shadow-xl flex items-center gap-5 border shrink-0 mb-4 mx-4 z-40 ${state === DiscussionState.IMBALANCE ? 'bg-red-950 border-red-800 text-white shadow-red-200/20' : 'bg-[#445e54] border-white/10 text-[#f5f1ea]'}`}>
-          <div className={`p-3 rounded-2xl border shrink-0 ${state === DiscussionState.IMBALANCE ? 'bg-white/10 border-white/20' : 'bg-white/10 border-white/10'}`}>
-             <BrainCircuit className="w-6 h-6 lg:w-7 lg:h-7" />
-          </div>
-          <div className="flex-1 min-w-0">
-            <div className="flex items-center gap-3 mb-1">
-              <span className={`text-[9px] lg:text-[10px] font-black uppercase tracking-[0.2em] px-3 py-0.5 rounded-full border shadow-inner ${state === DiscussionState.IMBALANCE ? 'bg-white/10 border-white/20 text-white' : 'bg-white/10 border-white/5 text-[#f5f1ea]'}`}>AI Moderator Insight</span>
-              {isLoadingTip && <div className="flex gap-1.5"><div className="w-1 h-1 bg-white/60 rounded-full animate-bounce"></div><div className="w-1 h-1 bg-white/60 rounded-full animate-bounce [animation-delay:0.2s]"></div></div>}
-            </div>
-            <p className={`text-sm lg:text-xl font-bold leading-tight drop-shadow-sm truncate-3-lines`}>
-              {isQuietViewActive 
-                ? "עכשיו זמן להקשיב למי שטרם השמיע את קולו" 
-                : (transientCountdown !== null && state !== DiscussionState.PAUSE && state !== DiscussionState.CHECKIN
-                    ? `נראה שיש חוסר איזון בשיח. המערכת תתערב בעוד ${Math.ceil(transientCountdown)} שניות.` 
-                    : moderationTip)}
-            </p>
-          </div>
-        </div>
-      </section>
+      <DiscussionStage
+        state={state}
+        context={context}
+        quietView={isQuietViewActive}
+        tip={moderationTip}
+        isLoadingTip={isLoadingTip}
+        roundSummary={roundSummary}
+        isReplay={replaySnap !== null}
+        onEvent={handleEvent}
+      />
+
+      {reportLog && (
+        <SessionReportView
+          log={reportLog}
+          threshold={snap.context.imbalanceScoreThreshold}
+          onClose={() => setReportLog(null)}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <SessionHistoryView
+          currentId={sessionId}
+          onOpen={(id) => { setIsHistoryOpen(false); onSwitchSession(id); }}
+          onNew={() => { setIsHistoryOpen(false); onSwitchSession(null); }}
+          onRenamed={(id, name) => { if (id === sessionId) setSessionName(name); }}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
     </div>
+    </I18nContext.Provider>
   );
 };
 
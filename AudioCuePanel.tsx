@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { DiscussionFlow } from './types';
+import { AudioCueSettings, CHIME_IDS, ChimeId, isSpeechSynthesisSupported } from './audioCues';
+import { flowText } from './flowStore';
+import { useI18n, MessageKey } from './i18n';
+import { Volume2, VolumeX, ChevronDown } from 'lucide-react';
+
+interface AudioCuePanelProps {
+  settings: AudioCueSettings;
+  onSettingsChange: (settings: AudioCueSettings) => void;
+  /** The running flow, whose states can be muted one by one. */
+  flow: DiscussionFlow;
+  onTest: () => void;
+}
+
+const AudioCuePanel: React.FC<AudioCuePanelProps> = ({ settings, onSettingsChange, flow, onTest }) => {
+  const { t, language } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const canSpeak = isSpeechSynthesisSupported();
+
+  const update = (patch: Partial<AudioCueSettings>) => onSettingsChange({ ...settings, ...patch });
+  const toggleState = (id: string) => update({
+    mutedStates: settings.mutedStates.includes(id) ? settings.mutedStates.filter(s => s !== id) : [...settings.mutedStates, id],
+  });
+
+  const checkbox = (key: 'speakMessages' | 'announceTurns' | 'pauseGong', label: string, disabled = false) => (
+    <label className={`flex items-center gap-2 ${disabled ? 'opacity-50' : ''}`}>
+      <input type="checkbox" checked={settings[key]} disabled={disabled} onChange={(e) => update({ [key]: e.target.checked })} className="accent-[#4a635d]" />
+      <span className="text-[10px] font-bold text-[#3d2e25]">{label}</span>
+    </label>
+  );
+
+  return (
+    <div className="shrink-0 rounded-xl border border-[#d6cdc1] bg-white/60">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 p-2">
+        {settings.enabled ? <Volume2 size={14} className="text-[#4a635d]" /> : <VolumeX size={14} className="text-[#5d473b]" />}
+        <span className="text-[11px] font-black text-[#3d2e25] flex-1 text-start">{t('cue.title')}</span>
+        <ChevronDown size={14} className={`text-[#5d473b] transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-2 pb-2 space-y-1.5">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} className="accent-[#4a635d]" />
+            <span className="text-[10px] font-black text-[#3d2e25]">{t('cue.enabled')}</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('cue.volume')}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.volume}
+              onChange={(e) => update({ volume: Number(e.target.value) })}
+              className="w-32 accent-[#4a635d]"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('cue.chime')}</span>
+            <select
+              value={settings.chime}
+              onChange={(e) => update({ chime: e.target.value as ChimeId })}
+              className="w-32 bg-white/80 border border-[#d6cdc1] rounded-lg px-1 py-0.5 text-[11px] font-bold focus:outline-none"
+            >
+              {CHIME_IDS.map(id => <option key={id} value={id}>{t(`cue.chime.${id}` as MessageKey)}</option>)}
+            </select>
+          </label>
+          {checkbox('speakMessages', t('cue.speakMessages'), !canSpeak)}
+          {checkbox('announceTurns', t('cue.announceTurns'), !canSpeak)}
+          {checkbox('pauseGong', t('cue.pauseGong'))}
+          {!canSpeak && <p className="text-[10px] font-bold text-[#736d52]">{t('cue.noSpeech')}</p>}
+          <div className="pt-1 border-t border-[#d6cdc1]/60">
+            <span className="text-[10px] font-black text-[#736d52]">{t('cue.states')}</span>
+            <div className="grid grid-cols-2 gap-x-2">
+              {flow.states.map(def => (
+                <label key={def.id} className="flex items-center gap-1.5 min-w-0">
+                  <input type="checkbox" checked={!settings.mutedStates.includes(def.id)} onChange={() => toggleState(def.id)} className="accent-[#4a635d]" />
+                  <span className="text-[10px] font-bold text-[#3d2e25] truncate">{flowText(def.label, language) ?? t(`state.${def.behavior}` as MessageKey)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={onTest}
+            disabled={!settings.enabled}
+            className="w-full text-[10px] font-black py-1 rounded-lg border text-[#5d473b] border-[#d6cdc1] hover:bg-[#ebe6db] disabled:opacity-50"
+          >
+            {t('cue.test')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioCuePanel;
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DiscussionEngine } from './DiscussionEngine';
+import { DiscussionState } from './types';
+
+const SPEAKERS = ['Ada', 'Ben', 'Cleo', 'Dan'];
+
+const talk = (engine: DiscussionEngine, seconds: number) => {
+  for (let i = 0; i < seconds; i++) engine.send({ type: 'TICK', seconds: 1 });
+};
+
+test('back-to-back turns handed over with SPEAKER_SET are not interruptions', () => {
+  const engine = new DiscussionEngine(SPEAKERS);
+  for (let round = 0; round < 7; round++) {
+    SPEAKERS.forEach(name => {
+      engine.send({ type: 'SPEAKER_SET', name });
+      talk(engine, 10);
+    });
+  }
+  const { state, context } = engine.snapshot();
+  assert.equal(context.interruptionCount, 0);
+  assert.deepEqual(context.interruptions, []);
+  assert.equal(context.metrics.interruptionRate, 0);
+  assert.equal(state, DiscussionState.MONITORING);
+});
+
+test('starting to speak over someone is an interruption', () => {
+  const engine = new DiscussionEngine(SPEAKERS);
+  engine.send({ type: 'SPEAKER_START', name: 'Ada' });
+  talk(engine, 5);
+  engine.send({ type: 'SPEAKER_START', name: 'Ben' });
+  engine.send({ type: 'SPEAKER_STOP', name: 'Ada' });
+  talk(engine, 5);
+  // Ben has finished before Cleo starts, so this is a handover.
+  engine.send({ type: 'SPEAKER_STOP', name: 'Ben' });
+  engine.send({ type: 'SPEAKER_START', name: 'Cleo' });
+  const { context } = engine.snapshot();
+  assert.equal(context.interruptionCount, 1);
+  assert.deepEqual(context.interruptions.map(({ by, of }) => ({ by, of })), [{ by: 'Ben', of: 'Ada' }]);
+});
+
+test('an explicit INTERRUPTION event is recorded', () => {
+  const engine = new DiscussionEngine(SPEAKERS);
+  engine.send({ type: 'INTERRUPTION', by: 'Dan', of: 'Cleo' });
+  assert.equal(engine.snapshot().context.interruptionsMade.Dan, 1);
+  assert.equal(engine.snapshot().context.interruptionsReceived.Cleo, 1);
+});
+
+test('joint starts and restored floors are not interruptions', () => {
+  const engine = new DiscussionEngine(SPEAKERS);
+  engine.send({ type: 'SPEAKER_START', name: 'Ada' });
+  engine.send({ type: 'SPEAKER_START', name: 'Ben', joint: true });
+  talk(engine, 20);
+  engine.send({ type: 'FORCE_STATE', state: DiscussionState.PAUSE });
+  engine.send({ type: 'FORCE_STATE', state: DiscussionState.MONITORING });
+  assert.deepEqual(engine.snapshot().context.activeSpeakers, []);
+  engine.send({ type: 'RESTORE_FLOOR', speakers: ['Ada', 'Ben'], monologueSeconds: 20 });
+  const { context } = engine.snapshot();
+  assert.equal(context.interruptionCount, 0);
+  assert.equal(context.activeSpeaker, 'Ada');
+  assert.deepEqual(context.activeSpeakers, ['Ada', 'Ben']);
+  assert.equal(context.currentMonologueSeconds, 20);
+});
@@ -1,45 +1,318 @@
 
-import { DiscussionState, EngineContext, DiscussionEvent } from './types';
+import { DiscussionState, EngineContext, DiscussionEvent, EngineConfig, FairnessMetrics, SpeechWindow, AgendaItem, AgendaMode, DiscussionFlow, FlowAction, FlowExit, FlowMetric, FlowSeconds, FlowStateDefinition, EngineSnapshot, EngineChange, EngineNotification, EngineNotificationType } from './types';
+import { calculateDominance, computeFairnessMetrics, combineMetrics, METRIC_IDS } from './fairnessMetrics';
+import { orderTurns, adaptiveTurnDurations, TURN_ORDER_IDS } from './turnOrdering';
+import { SessionClock } from './sessionClock';
+
+export { calculateDominance };
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  imbalanceScoreThreshold: 0.35,
+  imbalanceMetric: 'dominance',
+  metricWeights: { dominance: 1, gini: 1, entropy: 1, turnShare: 0.5, interruptionRate: 0.5 },
+  imbalanceHoldSeconds: 15,   // 15s warning in Monitoring
+  imbalanceStateSeconds: 15,  // 15s in Imbalance before Nudge
+  nudgeHoldSeconds: 15,       // 15s in Nudge mode
+  turnHoldSeconds: 60,
+  turnOrderStrategy: 'roster',
+  adaptiveTurnBoost: 0,
+  pauseSeconds: 20,
+  checkinSeconds: 20,
+  checkinObjectionQuorum: 1,
+  monologueLimitSeconds: 15,
+  gracePeriodSeconds: 15,
+  imbalanceWindowSeconds: 0,
+  windowBucketSeconds: 10,
+  windowDecayHalfLifeSeconds: 0,
+  interrupterThreshold: 5,
+  agendaWarningSeconds: 60,
+};
+
+/**
+ * The built-in escalation path as a flow: a held imbalance is nudged, answered with a
+ * structured round, reflected on and checked in on.
+ */
+export const DEFAULT_FLOW: DiscussionFlow = {
+  id: 'default',
+  name: 'Default',
+  builtIn: true,
+  initial: DiscussionState.MONITORING,
+  states: [
+    { id: DiscussionState.MONITORING, behavior: DiscussionState.MONITORING, exits: [{ when: 'imbalance', to: DiscussionState.IMBALANCE }] },
+    { id: DiscussionState.IMBALANCE, behavior: DiscussionState.IMBALANCE, exits: [{ when: 'elapsed', seconds: 'imbalanceStateSeconds', to: DiscussionState.NUDGE }] },
+    { id: DiscussionState.NUDGE, behavior: DiscussionState.NUDGE, exits: [{ when: 'elapsed', seconds: 'nudgeHoldSeconds', to: DiscussionState.STRUCTURED }] },
+    { id: DiscussionState.STRUCTURED, behavior: DiscussionState.STRUCTURED, exits: [{ when: 'roundComplete', to: DiscussionState.PAUSE }] },
+    { id: DiscussionState.PAUSE, behavior: DiscussionState.PAUSE, exits: [{ when: 'elapsed', seconds: 'pauseSeconds', to: DiscussionState.CHECKIN }] },
+    { id: DiscussionState.CHECKIN, behavior: DiscussionState.CHECKIN, exits: [{ when: 'checkin', continue: DiscussionState.MONITORING, another: DiscussionState.STRUCTURED }] },
+  ],
+};
+
+const AGENDA_MODE_STATES: Record<AgendaMode, DiscussionState> = {
+  open: DiscussionState.MONITORING,
+  structured: DiscussionState.STRUCTURED,
+  reflection: DiscussionState.PAUSE,
+};
+
+/** One slice of the speech history used for rolling-window imbalance detection. */
+interface SpeechBucket {
+  start: number;
+  talkTime: Record<string, number>;
+  turns: Record<string, number>;
+  /** Interruptions in this slice, keyed by interrupter. */
+  interruptions: Record<string, number>;
+}
+
+const CONFIG_KEYS = Object.keys(DEFAULT_ENGINE_CONFIG) as (keyof EngineConfig)[];
+
+const emptyMetrics = (): FairnessMetrics =>
+  Object.fromEntries(METRIC_IDS.map(id => [id, 0])) as FairnessMetrics;
+
+/** Picks the EngineConfig fields out of a wider object (e.g. a Partial<EngineContext>). */
+export function pickEngineConfig(source: Partial<EngineContext>): Partial<EngineConfig> {
+  const config: Partial<EngineConfig> = {};
+  const copy = <K extends keyof EngineConfig>(key: K) => {
+    const value = source[key];
+    if (value !== undefined) config[key] = value;
+  };
+  CONFIG_KEYS.forEach(copy);
+  return config;
+}
+
+/** Resolves a flow duration against the current settings. */
+export function flowSeconds(value: FlowSeconds, config: EngineConfig): number {
+  return typeof value === 'number' ? value : config[value] as number;
+}
+
+/** The definition of the active flow state, or of another state of the same flow. */
+export function activeFlowState(context: Pick<EngineContext, 'flow' | 'flowState'>, id = context.flowState): FlowStateDefinition | null {
+  return context.flow?.states.find(s => s.id === id) ?? null;
+}
+
+/** Every state a flow exit can lead to. */
+export function exitTargets(exit: FlowExit): string[] {
+  return exit.when === 'checkin' ? [exit.continue, exit.another] : [exit.to];
+}
+
+const FLOW_METRICS: FlowMetric[] = [...METRIC_IDS, 'imbalanceScore', 'silenceSeconds', 'currentMonologueSeconds'];
+const FLOW_EXITS: FlowExit['when'][] = ['imbalance', 'elapsed', 'metric', 'roundComplete', 'checkin', 'manual'];
+const FLOW_ACTIONS: FlowAction['type'][] = ['clearFloor', 'lowerHands', 'setQuietMode', 'setConfig'];
+const HEX_COLOR = /^#[0-9a-fA-F]{3,8}$/;
+
+/**
+ * Returns a list of human-readable problems with the given flow; empty when valid. Besides
+ * malformed states and exits, it reports states that cannot be reached from the initial
+ * state and dead ends that can never be left.
+ */
+export function validateFlow(flow: DiscussionFlow): string[] {
+  if (!flow || typeof flow !== 'object' || !Array.isArray(flow.states)) return ["Flow must have a list of states"];
+  const errors: string[] = [];
+  const ids = flow.states.map(s => s?.id);
+  const behaviors = Object.values(DiscussionState) as string[];
+  const checkSeconds = (where: string, value: unknown) => {
+    if (value === undefined) return;
+    const valid = typeof value === 'number'
+      ? Number.isFinite(value) && value >= 0
+      : CONFIG_KEYS.includes(value as keyof EngineConfig) && typeof DEFAULT_ENGINE_CONFIG[value as keyof EngineConfig] === 'number';
+    if (!valid) errors.push(`${where} needs a non-negative number of seconds or a numeric setting name`);
+  };
+
+  if (!ids.includes(flow.initial)) errors.push(`Initial state "${flow.initial}" is not defined`);
+  flow.states.forEach((state, i) => {
+    if (typeof state?.id !== 'string' || !state.id) {
+      errors.push(`State ${i + 1} needs an id`);
+      return;
+    }
+    const name = `State "${state.id}"`;
+    if (ids.indexOf(state.id) !== i) errors.push(`${name} is defined more than once`);
+    if (!behaviors.includes(state.behavior)) errors.push(`${name} has unknown behavior "${state.behavior}"`);
+    if (state.turnOrder !== undefined && !TURN_ORDER_IDS.includes(state.turnOrder)) errors.push(`${name} has unknown turn order "${state.turnOrder}"`);
+    if (state.theme && [state.theme.text, state.theme.background].some(c => c !== undefined && !HEX_COLOR.test(c))) errors.push(`${name} theme colors must be hex colors`);
+    (state.onEnter ?? []).forEach(action => {
+      if (!FLOW_ACTIONS.includes(action?.type)) errors.push(`${name} has unknown entry action "${action?.type}"`);
+      else if (action.type === 'setConfig') validateEngineConfig(pickEngineConfig(action.config ?? {})).forEach(e => errors.push(`${name}: ${e}`));
+    });
+
+    const exits = Array.isArray(state.exits) ? state.exits : [];
+    exits.forEach(exit => {
+      if (!FLOW_EXITS.includes(exit?.when)) {
+        errors.push(`${name} has unknown exit "${exit?.when}"`);
+        return;
+      }
+      exitTargets(exit).filter(to => !ids.includes(to)).forEach(to => errors.push(`${name} exits to undefined state "${to}"`));
+      if (exit.when === 'roundComplete' && state.behavior !== DiscussionState.STRUCTURED) errors.push(`${name} has a roundComplete exit but no round`);
+      if (exit.when === 'checkin' && state.behavior !== DiscussionState.CHECKIN) errors.push(`${name} has a checkin exit but no check-in`);
+      if (exit.when === 'elapsed') checkSeconds(`${name} elapsed exit`, exit.seconds ?? -1);
+      if (exit.when === 'imbalance' || exit.when === 'metric') checkSeconds(`${name} ${exit.when} exit`, exit.holdSeconds);
+      if (exit.when === 'checkin') checkSeconds(`${name} checkin exit`, exit.seconds);
+      if (exit.when === 'metric') {
+        if (!FLOW_METRICS.includes(exit.metric)) errors.push(`${name} watches unknown metric "${exit.metric}"`);
+        if (typeof exit.above !== 'number' && typeof exit.below !== 'number') errors.push(`${name} metric exit needs "above" or "below"`);
+      }
+    });
+    if (state.behavior === DiscussionState.STRUCTURED && !exits.some(e => e?.when === 'roundComplete')) errors.push(`${name} runs a round but has no roundComplete exit`);
+    if (state.behavior === DiscussionState.CHECKIN && !exits.some(e => e?.when === 'checkin')) errors.push(`${name} holds a check-in but has no checkin exit`);
+    if (exits.every(e => FLOW_EXITS.includes(e?.when) && exitTargets(e).every(to => to === state.id))) errors.push(`${name} is a dead end: no exit leads anywhere else`);
+  });
+
+  // Reachability over every kind of exit, manual ones included.
+  const reached = new Set<string>(ids.includes(flow.initial) ? [flow.initial] : []);
+  const queue = [...reached];
+  while (queue.length > 0) {
+    const id = queue.shift();
+    const state = flow.states.find(s => s?.id === id);
+    (Array.isArray(state?.exits) ? state!.exits : [])
+      .filter(exit => FLOW_EXITS.includes(exit?.when))
+      .flatMap(exitTargets)
+      .filter(to => ids.includes(to) && !reached.has(to))
+      .forEach(to => { reached.add(to); queue.push(to); });
+  }
+  if (reached.size > 0) {
+    ids.filter(id => typeof id === 'string' && id && !reached.has(id))
+      .forEach(id => errors.push(`State "${id}" is unreachable from "${flow.initial}"`));
+  }
+  return errors;
+}
+
+/**
+ * The notifications a transition from `before` to `after` produces, in the order a listener
+ * would expect them: speakers first, then the flow state, the turn and the imbalance flag.
+ */
+export function describeTransition(event: DiscussionEvent, before: EngineSnapshot, after: EngineSnapshot): EngineNotification[] {
+  const changes: EngineChange[] = [];
+  const prev = before.context;
+  const next = after.context;
+
+  prev.speakers.filter(s => !next.speakers.includes(s)).forEach(name => changes.push({ type: 'speakerRemoved', name }));
+  next.speakers.filter(s => !prev.speakers.includes(s)).forEach(name => changes.push({ type: 'speakerAdded', name }));
+
+  const stateChanged = before.state !== after.state || prev.flowState !== next.flowState;
+  if (stateChanged) {
+    changes.push({ type: 'stateExited', state: before.state, flowState: prev.flowState });
+    changes.push({ type: 'stateEntered', state: after.state, flowState: next.flowState });
+  }
+
+  if (after.state === DiscussionState.STRUCTURED && next.turnOrder.length > 0
+      && (stateChanged || prev.roundNumber !== next.roundNumber || prev.turnIndex !== next.turnIndex)) {
+    changes.push({ type: 'turnAdvanced', speaker: next.turnOrder[next.turnIndex] ?? null, turnIndex: next.turnIndex, round: next.roundNumber });
+  }
+
+  if (!prev.imbalanceFlag && next.imbalanceFlag) changes.push({ type: 'imbalanceRaised' });
+  if (prev.imbalanceFlag && !next.imbalanceFlag) changes.push({ type: 'imbalanceCleared' });
+  if (!prev.sessionPaused && next.sessionPaused) changes.push({ type: 'sessionPaused' });
+  if (prev.sessionPaused && !next.sessionPaused) changes.push({ type: 'sessionResumed' });
+
+  return changes.map(change => ({ ...change, event, before, after }) as EngineNotification);
+}
+
+/** Called after every event with the notifications it produced, which may be none. */
+export type EngineListener = (notifications: EngineNotification[]) => void;
 
 /**
- * Calculates Dominance Score based on the formula:
- * Dominance Score = (MaxTalkTime - MeanTalkTime) / (TotalTalkTime + 10^-6)
+ * Returns a list of human-readable problems with the given config; empty when valid.
  */
-export function calculateDominance(talkTime: Record<string, number>, speakers: string[], totalTalkTime: number): number {
-  if (speakers.length === 0 || totalTalkTime <= 0) return 0;
-  
-  const times = speakers.map(s => talkTime[s] || 0);
-  const max = Math.max(...times);
-  const mean = totalTalkTime / speakers.length;
-  
-  return (max - mean) / (totalTalkTime + 1e-6);
+export function validateEngineConfig(config: Partial<EngineConfig>): string[] {
+  const errors: string[] = [];
+  CONFIG_KEYS.forEach(key => {
+    const value = config[key];
+    if (value === undefined) return;
+    if (key === 'imbalanceMetric') {
+      if (value !== 'weighted' && !(METRIC_IDS as readonly unknown[]).includes(value)) errors.push(`${key} must be one of ${[...METRIC_IDS, 'weighted'].join(', ')}`);
+    } else if (key === 'turnOrderStrategy') {
+      if (!(TURN_ORDER_IDS as readonly unknown[]).includes(value)) errors.push(`${key} must be one of ${TURN_ORDER_IDS.join(', ')}`);
+    } else if (key === 'metricWeights') {
+      const weights = value as Record<string, unknown>;
+      if (!weights || typeof weights !== 'object') {
+        errors.push(`${key} must be an object`);
+      } else if (METRIC_IDS.some(id => typeof weights[id] !== 'number' || !Number.isFinite(weights[id] as number) || (weights[id] as number) < 0)) {
+        errors.push(`${key} must have a non-negative number for each of ${METRIC_IDS.join(', ')}`);
+      }
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${key} must be a finite number`);
+    } else if (key === 'imbalanceScoreThreshold') {
+      if (value <= 0 || value > 1) errors.push(`${key} must be in (0, 1]`);
+    } else if (key === 'turnHoldSeconds' || key === 'windowBucketSeconds') {
+      if (value < 1) errors.push(`${key} must be at least 1 second`);
+    } else if (key === 'checkinObjectionQuorum') {
+      if (value < 1) errors.push(`${key} must be at least 1`);
+    } else if (key === 'adaptiveTurnBoost') {
+      if (value < 0 || value > 1) errors.push(`${key} must be in [0, 1]`);
+    } else if (value < 0) {
+      errors.push(`${key} must not be negative`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Problems that would make the engine throw on this event; empty when it can be applied.
+ * Checked before an event is recorded, since a logged event that throws breaks every replay.
+ */
+export function validateEvent(event: DiscussionEvent): string[] {
+  switch (event.type) {
+    case 'SET_FLOW':
+      return validateFlow(event.flow).map(e => `Invalid flow: ${e}`);
+    case 'SET_CONFIG':
+      return validateEngineConfig(pickEngineConfig(event.config)).map(e => `Invalid engine config: ${e}`);
+    case 'APPLY_PRESET':
+      return validateEngineConfig(pickEngineConfig({ ...DEFAULT_ENGINE_CONFIG, ...event.config })).map(e => `Invalid engine config: ${e}`);
+    default:
+      return [];
+  }
 }
 
 export class DiscussionEngine {
   private ctx: EngineContext;
   private state: DiscussionState = DiscussionState.MONITORING;
+  /** Speakers credited on the previous TICK, used to detect the start of a new turn. */
+  private lastTickSpeakers: string[] = [];
+  private listeners = new Set<EngineListener>();
+  /** Cached for `getSnapshot`, so subscribers see the same object until the next event. */
+  private current: EngineSnapshot | null = null;
+  /** Since when each metric exit of the current flow state has held, keyed by exit index. */
+  private exitSince: Record<number, number> = {};
+  /** Time-bucketed speech history, oldest first, pruned to the rolling window. */
+  private history: SpeechBucket[] = [];
+  private clock: SessionClock | null;
 
-  constructor(speakers: string[], thresholds: Partial<EngineContext> = {}) {
+  /** `clock`, when given, decides how many TICKs are due (see `dueTicks`); a virtual one suits tests. */
+  constructor(speakers: string[], thresholds: Partial<EngineContext> = {}, clock: SessionClock | null = null) {
+    this.clock = clock;
     const talkTime: Record<string, number> = {};
     speakers.forEach(s => talkTime[s] = 0);
+    const turnCounts: Record<string, number> = {};
+    speakers.forEach(s => turnCounts[s] = 0);
+    const zeroCounts = () => ({ ...turnCounts });
+
+    const config = pickEngineConfig(thresholds);
+    const errors = validateEngineConfig(config);
+    if (errors.length > 0) throw new Error(`Invalid engine config: ${errors.join('; ')}`);
 
     this.ctx = {
       speakers: [...speakers],
+      speakerProfiles: {},
       activeSpeaker: null,
+      activeSpeakers: [],
       quietSpeaker: null,
       talkTime,
       totalSeconds: 0,
+      sessionSeconds: 0,
+      sessionPaused: false,
       silenceSeconds: 0,
       totalTalkTime: 0,
       currentMonologueSeconds: 0,
+      turnCounts,
+      interruptionCount: 0,
+      interruptions: [],
+      interruptionsMade: zeroCounts(),
+      interruptionsReceived: zeroCounts(),
+      overlapSeconds: 0,
+      transcript: [],
+      recentActivity: { talkTime: zeroCounts(), totalTalkTime: 0, turnCounts: zeroCounts(), interruptionCount: 0, interruptionsBy: zeroCounts() },
 
       autoMode: thresholds.autoMode ?? true,
       quietMode: false,
-      imbalanceScoreThreshold: thresholds.imbalanceScoreThreshold ?? 0.35,
-      imbalanceHoldSeconds: 15, // 15s warning in Monitoring
-      nudgeHoldSeconds: 15,     // 15s in Nudge mode
-
-      turnHoldSeconds: 60,
+      ...DEFAULT_ENGINE_CONFIG,
+      ...config,
 
       imbalanceSince: null,
       nudgeSince: null,
@@ -48,15 +321,31 @@ export class DiscussionEngine {
 
       turnOrder: [],
       turnIndex: 0,
+      turnDurations: [],
+      passedTurns: [],
+      roundNumber: 0,
+      raisedHands: [],
+      checkinVotes: {},
+
+      agenda: [],
+      agendaIndex: null,
+      agendaProgress: {},
+      agendaWarning: null,
+
+      flow: DEFAULT_FLOW,
+      flowState: DEFAULT_FLOW.initial,
 
       dominanceScore: 0,
+      metrics: emptyMetrics(),
+      imbalanceScore: 0,
       imbalanceFlag: false,
     };
   }
 
-  private setState(next: DiscussionState) {
+  /** Runs a behavior's entry effects; `reenter` repeats them when a new flow state shares the behavior. */
+  private setState(next: DiscussionState, reenter = false) {
     const prevState = this.state;
-    if (prevState === next) return;
+    if (prevState === next && !reenter) return;
     this.state = next;
 
     if (this.state === DiscussionState.MONITORING) {
@@ -68,100 +357,306 @@ export class DiscussionEngine {
         this.ctx.imbalanceSince = null;
         this.ctx.imbalanceFlag = false;
         this.ctx.dominanceScore = 0;
+        this.ctx.interruptionCount = 0;
+        this.ctx.interruptions = [];
+        this.ctx.overlapSeconds = 0;
+        this.ctx.transcript = [];
         
         const resetTalkTime: Record<string, number> = {};
         this.ctx.speakers.forEach(s => resetTalkTime[s] = 0);
         this.ctx.talkTime = resetTalkTime;
+        this.ctx.turnCounts = { ...resetTalkTime };
+        this.ctx.interruptionsMade = { ...resetTalkTime };
+        this.ctx.interruptionsReceived = { ...resetTalkTime };
+        this.history = [];
       }
-      this.ctx.activeSpeaker = null;
+      this.setFloor(null);
     } else if (this.state === DiscussionState.STRUCTURED) {
-      const order = [...this.ctx.speakers];
+      this.ctx.roundNumber += 1;
+      const order = orderTurns(this.flowStateDef()?.turnOrder ?? this.ctx.turnOrderStrategy, this.ctx);
       this.ctx.turnOrder = order;
+      this.ctx.turnDurations = adaptiveTurnDurations(order, this.ctx, this.ctx.adaptiveTurnBoost);
       this.ctx.turnIndex = 0;
-      this.ctx.activeSpeaker = order[0] || null;
-      this.ctx.turnSince = this.ctx.totalSeconds;
-      this.ctx.currentMonologueSeconds = 0;
+      this.ctx.passedTurns = [];
+      this.queueRaisedHands(0);
+      this.startTurn();
     } else if (this.state === DiscussionState.PAUSE) {
-      this.ctx.activeSpeaker = null;
+      this.setFloor(null);
       this.ctx.silenceSeconds = 0;
       this.ctx.currentMonologueSeconds = 0;
     } else if (this.state === DiscussionState.CHECKIN) {
-      this.ctx.activeSpeaker = null;
+      this.setFloor(null);
       this.ctx.currentMonologueSeconds = 0;
+      this.ctx.checkinVotes = {};
     }
 
     this.ctx.stateSince = this.ctx.totalSeconds;
     this.updateMetrics();
   }
 
-  private autoAdvanceIfNeeded() {
-    if (!this.ctx.autoMode) return;
-    const now = this.ctx.totalSeconds;
+  private flowStateDef(id = this.ctx.flowState): FlowStateDefinition | null {
+    return activeFlowState(this.ctx, id);
+  }
 
-    switch (this.state) {
-      case DiscussionState.MONITORING: {
-        if (this.ctx.quietMode) {
-          this.ctx.imbalanceSince = null;
-          break;
-        }
+  /** Enters a flow state: its behavior's entry effects, then its own entry actions. */
+  private enterState(id: string) {
+    const def = this.flowStateDef(id);
+    if (!def || (def.id === this.ctx.flowState && def.behavior === this.state)) return;
+    const isNew = def.id !== this.ctx.flowState;
+    this.ctx.flowState = def.id;
+    this.exitSince = {};
+    this.setState(def.behavior, isNew);
+    def.onEnter?.forEach(action => this.runAction(action));
+  }
 
-        // Only process imbalance if the flag is active (handles Grace Period and restored balance)
-        if (this.ctx.imbalanceFlag) {
-          if (this.ctx.imbalanceSince === null) this.ctx.imbalanceSince = now;
-          if (now - this.ctx.imbalanceSince >= this.ctx.imbalanceHoldSeconds) {
-            this.ctx.imbalanceSince = null;
-            this.setState(DiscussionState.IMBALANCE);
-          }
-        } else {
-          // Reset the timer if balance is restored or speaker changed
-          this.ctx.imbalanceSince = null;
-        }
+  /** Built-in states are reached through the flow state of that id, or the first one with that behavior. */
+  private enterBehavior(state: DiscussionState) {
+    const def = this.flowStateDef(state) ?? this.ctx.flow.states.find(s => s.behavior === state);
+    if (def) this.enterState(def.id);
+  }
+
+  private runAction(action: FlowAction) {
+    switch (action.type) {
+      case 'clearFloor':
+        this.setFloor(null);
+        this.ctx.currentMonologueSeconds = 0;
         break;
-      }
-      case DiscussionState.IMBALANCE: {
-        if (now - this.ctx.stateSince >= 15) this.setState(DiscussionState.NUDGE);
+      case 'lowerHands':
+        this.ctx.raisedHands = [];
         break;
-      }
-      case DiscussionState.NUDGE: {
-        if (now - this.ctx.stateSince >= this.ctx.nudgeHoldSeconds) this.setState(DiscussionState.STRUCTURED);
+      case 'setQuietMode':
+        this.ctx.quietMode = action.enabled;
         break;
-      }
-      case DiscussionState.STRUCTURED: {
-        const turnElapsed = now - this.ctx.turnSince;
-        if (this.ctx.turnOrder.length > 0 && turnElapsed >= this.ctx.turnHoldSeconds) {
-          this.nextTurn();
-        }
+      case 'setConfig':
+        this.applyConfig(action.config);
         break;
+    }
+  }
+
+  private exitDue(exit: FlowExit, index: number, now: number): boolean {
+    switch (exit.when) {
+      case 'imbalance': {
+        // The flag only counts while it stays up (it is held back by the grace period and clears when balance returns).
+        if (this.ctx.quietMode || !this.ctx.imbalanceFlag) {
+          this.ctx.imbalanceSince = null;
+          return false;
+        }
+        if (this.ctx.imbalanceSince === null) this.ctx.imbalanceSince = now;
+        if (now - this.ctx.imbalanceSince < flowSeconds(exit.holdSeconds ?? 'imbalanceHoldSeconds', this.ctx)) return false;
+        this.ctx.imbalanceSince = null;
+        return true;
       }
-      case DiscussionState.PAUSE: {
-        if (now - this.ctx.stateSince >= 20) this.setState(DiscussionState.CHECKIN);
-        break;
+      case 'elapsed':
+        return now - this.ctx.stateSince >= flowSeconds(exit.seconds, this.ctx);
+      case 'metric': {
+        const value = exit.metric in this.ctx.metrics ? this.ctx.metrics[exit.metric as keyof FairnessMetrics] : this.ctx[exit.metric as 'imbalanceScore' | 'silenceSeconds' | 'currentMonologueSeconds'];
+        const holds = (exit.above === undefined || value > exit.above) && (exit.below === undefined || value < exit.below);
+        if (!holds) {
+          delete this.exitSince[index];
+          return false;
+        }
+        this.exitSince[index] ??= now;
+        return now - this.exitSince[index] >= flowSeconds(exit.holdSeconds ?? 0, this.ctx);
       }
-      case DiscussionState.CHECKIN: {
-        if (now - this.ctx.stateSince >= 20) this.setState(DiscussionState.MONITORING);
-        break;
+      case 'checkin':
+        return now - this.ctx.stateSince >= flowSeconds(exit.seconds ?? 'checkinSeconds', this.ctx);
+      default:
+        return false;
+    }
+  }
+
+  /** Automatic progress in auto mode: the running round, then the current flow state's exits in order. */
+  private autoAdvanceIfNeeded() {
+    if (!this.ctx.autoMode) return;
+    const now = this.ctx.totalSeconds;
+
+    if (this.state === DiscussionState.STRUCTURED) {
+      const turnElapsed = now - this.ctx.turnSince;
+      if (this.ctx.turnOrder.length > 0 && turnElapsed >= this.currentTurnSeconds()) {
+        const before = this.ctx.flowState;
+        this.nextTurn();
+        if (this.ctx.flowState !== before) return;
       }
     }
+
+    const def = this.flowStateDef();
+    const due = def?.exits.find((exit, i) => this.exitDue(exit, i, now));
+    if (!due) return;
+    if (due.when === 'checkin') this.resolveCheckin();
+    else if (due.when !== 'roundComplete') this.enterState(due.to);
   }
 
   private nextTurn() {
     if (this.state !== DiscussionState.STRUCTURED) return;
     this.ctx.turnIndex += 1;
     if (this.ctx.turnIndex >= this.ctx.turnOrder.length) {
-      this.setState(DiscussionState.PAUSE);
+      const exit = this.flowStateDef()?.exits.find(e => e.when === 'roundComplete');
+      this.enterState(exit && exit.when === 'roundComplete' ? exit.to : this.ctx.flow.initial);
     } else {
-      this.ctx.activeSpeaker = this.ctx.turnOrder[this.ctx.turnIndex];
-      this.ctx.turnSince = this.ctx.totalSeconds;
-      this.ctx.currentMonologueSeconds = 0;
+      this.startTurn();
     }
   }
 
+  /** Hands the floor to the holder of `turnIndex`, whose raised hand is now answered. */
+  private startTurn() {
+    const holder = this.ctx.turnOrder[this.ctx.turnIndex] ?? null;
+    this.setFloor(holder);
+    this.ctx.raisedHands = this.ctx.raisedHands.filter(s => s !== holder);
+    this.ctx.turnSince = this.ctx.totalSeconds;
+    this.ctx.currentMonologueSeconds = 0;
+  }
+
+  /**
+   * Moves raised hands to position `from` of the round, in the order they were raised.
+   * Someone whose turn already went by gets an extra turn of the default length.
+   */
+  private queueRaisedHands(from: number) {
+    if (this.ctx.raisedHands.length === 0) return;
+    const order = [...this.ctx.turnOrder];
+    const durations = [...this.ctx.turnDurations];
+    const queued: { name: string, seconds: number }[] = [];
+    this.ctx.raisedHands.forEach(name => {
+      const i = order.indexOf(name, from);
+      if (i >= 0) {
+        queued.push({ name, seconds: durations[i] ?? this.ctx.turnHoldSeconds });
+        order.splice(i, 1);
+        durations.splice(i, 1);
+      } else {
+        queued.push({ name, seconds: this.ctx.turnHoldSeconds });
+      }
+    });
+    order.splice(from, 0, ...queued.map(q => q.name));
+    durations.splice(from, 0, ...queued.map(q => q.seconds));
+    this.ctx.turnOrder = order;
+    this.ctx.turnDurations = durations;
+  }
+
+  /** Enough substantial objections open another round; otherwise the discussion resumes. */
+  private resolveCheckin() {
+    const objections = Object.values(this.ctx.checkinVotes).filter(v => v === 'object').length;
+    this.takeCheckinExit(objections < this.ctx.checkinObjectionQuorum);
+  }
+
+  private takeCheckinExit(canContinue: boolean) {
+    const exit = this.flowStateDef()?.exits.find(e => e.when === 'checkin');
+    if (exit && exit.when === 'checkin') this.enterState(canContinue ? exit.continue : exit.another);
+  }
+
+  private currentTopic(): AgendaItem | null {
+    return this.ctx.agendaIndex === null ? null : this.ctx.agenda[this.ctx.agendaIndex] ?? null;
+  }
+
+  private startTopic(index: number) {
+    const item = this.ctx.agenda[index];
+    if (!item) {
+      this.ctx.agendaIndex = null;
+      this.ctx.agendaWarning = null;
+      return;
+    }
+    this.ctx.agendaIndex = index;
+    if (!this.ctx.agendaProgress[item.id]) {
+      this.ctx.agendaProgress = { ...this.ctx.agendaProgress, [item.id]: { elapsedSeconds: 0, talkTime: {}, turnCounts: {} } };
+    }
+    this.updateAgendaWarning();
+    this.enterBehavior(AGENDA_MODE_STATES[item.mode]);
+  }
+
+  /**
+   * Credits a tick to the current topic: its clock, and talk by everyone speaking. Speech that
+   * carries over from the previous topic opens a new turn on this one.
+   */
+  private trackTopic(dt: number, talking: string[]) {
+    const item = this.currentTopic();
+    if (!item) return;
+    const progress = this.ctx.agendaProgress[item.id];
+    const talkTime = { ...progress.talkTime };
+    const turnCounts = { ...progress.turnCounts };
+    talking.forEach(s => talkTime[s] = (talkTime[s] || 0) + dt);
+    talking.forEach(s => {
+      if (!this.lastTickSpeakers.includes(s) || !(s in turnCounts)) turnCounts[s] = (turnCounts[s] || 0) + 1;
+    });
+    this.ctx.agendaProgress = { ...this.ctx.agendaProgress, [item.id]: { elapsedSeconds: progress.elapsedSeconds + dt, talkTime, turnCounts } };
+    this.updateAgendaWarning();
+  }
+
+  private updateAgendaWarning() {
+    const item = this.currentTopic();
+    if (!item) {
+      this.ctx.agendaWarning = null;
+      return;
+    }
+    const remaining = item.timeboxSeconds - this.ctx.agendaProgress[item.id].elapsedSeconds;
+    this.ctx.agendaWarning = remaining <= 0 ? 'over' : remaining <= this.ctx.agendaWarningSeconds ? 'nearEnd' : null;
+  }
+
+  /** Length of the current STRUCTURED turn (adaptive when enabled). */
+  private currentTurnSeconds() {
+    return this.ctx.turnDurations[this.ctx.turnIndex] ?? this.ctx.turnHoldSeconds;
+  }
+
+  /** Returns the history bucket covering the current time, creating it if needed. */
+  private currentBucket(): SpeechBucket {
+    const size = this.ctx.windowBucketSeconds;
+    const start = Math.floor(this.ctx.totalSeconds / size) * size;
+    const last = this.history[this.history.length - 1];
+    if (last && last.start === start) return last;
+    const bucket: SpeechBucket = { start, talkTime: {}, turns: {}, interruptions: {} };
+    this.history.push(bucket);
+    return bucket;
+  }
+
+  /**
+   * Aggregates the speech history over the rolling window (optionally with exponential decay).
+   * With the window disabled, the cumulative totals are used as-is.
+   */
+  private computeRecentActivity(): SpeechWindow {
+    const { imbalanceWindowSeconds: windowSeconds, windowBucketSeconds: size, windowDecayHalfLifeSeconds: halfLife } = this.ctx;
+    const now = this.ctx.totalSeconds;
+
+    // History is only pruned while a window is set, so enabling one mid-session has data immediately.
+    if (windowSeconds > 0) this.history = this.history.filter(b => b.start + size > now - windowSeconds);
+
+    if (windowSeconds <= 0) {
+      return {
+        talkTime: this.ctx.talkTime,
+        totalTalkTime: this.ctx.totalTalkTime,
+        turnCounts: this.ctx.turnCounts,
+        interruptionCount: this.ctx.interruptionCount,
+        interruptionsBy: this.ctx.interruptionsMade,
+      };
+    }
+
+    const talkTime: Record<string, number> = {};
+    const turnCounts: Record<string, number> = {};
+    const interruptionsBy: Record<string, number> = {};
+    this.ctx.speakers.forEach(s => { talkTime[s] = 0; turnCounts[s] = 0; interruptionsBy[s] = 0; });
+    let interruptionCount = 0;
+
+    this.history.forEach(b => {
+      const age = Math.max(0, now - (b.start + size / 2));
+      const weight = halfLife > 0 ? Math.pow(0.5, age / halfLife) : 1;
+      Object.entries(b.talkTime).forEach(([s, t]) => { if (s in talkTime) talkTime[s] += t * weight; });
+      Object.entries(b.turns).forEach(([s, n]) => { if (s in turnCounts) turnCounts[s] += n * weight; });
+      Object.entries(b.interruptions).forEach(([s, n]) => {
+        interruptionCount += n * weight;
+        if (s in interruptionsBy) interruptionsBy[s] += n * weight;
+      });
+    });
+
+    const totalTalkTime = Object.values(talkTime).reduce((a, b) => a + b, 0);
+    return { talkTime, totalTalkTime, turnCounts, interruptionCount, interruptionsBy };
+  }
+
   private updateMetrics() {
+    this.ctx.recentActivity = this.computeRecentActivity();
+
     // Basic metrics calculation
-    this.ctx.dominanceScore = calculateDominance(this.ctx.talkTime, this.ctx.speakers, this.ctx.totalTalkTime);
+    this.ctx.metrics = computeFairnessMetrics({ speakers: this.ctx.speakers, ...this.ctx.recentActivity });
+    this.ctx.dominanceScore = this.ctx.metrics.dominance;
+    this.ctx.imbalanceScore = combineMetrics(this.ctx.metrics, this.ctx.imbalanceMetric, this.ctx.metricWeights);
     
-    // Requested: Grace Period of 15 seconds at the start of the discussion.
-    const isGracePeriod = this.ctx.totalSeconds < 15;
+    // Requested: Grace Period at the start of the discussion.
+    const isGracePeriod = this.ctx.totalSeconds < this.ctx.gracePeriodSeconds;
 
     if (this.state === DiscussionState.STRUCTURED || 
         this.state === DiscussionState.PAUSE || 
@@ -171,29 +666,135 @@ export class DiscussionEngine {
         isGracePeriod) { // Added isGracePeriod check
       this.ctx.imbalanceFlag = false;
     } else {
-      const isScoreImbalanced = this.ctx.dominanceScore >= this.ctx.imbalanceScoreThreshold;
-      const isMonologueImbalanced = this.ctx.currentMonologueSeconds >= 15;
-      this.ctx.imbalanceFlag = isScoreImbalanced || isMonologueImbalanced;
+      const isScoreImbalanced = this.ctx.imbalanceScore >= this.ctx.imbalanceScoreThreshold;
+      const isMonologueImbalanced = this.ctx.currentMonologueSeconds >= this.ctx.monologueLimitSeconds;
+      const topInterrupter = Math.max(0, ...Object.values(this.ctx.recentActivity.interruptionsBy));
+      const isInterruptionImbalanced = this.ctx.interrupterThreshold > 0 && topInterrupter >= this.ctx.interrupterThreshold;
+      this.ctx.imbalanceFlag = isScoreImbalanced || isMonologueImbalanced || isInterruptionImbalanced;
     }
   }
 
+  /** Gives the floor exclusively to `name` (or nobody), ending any overlapping speech. */
+  private setFloor(name: string | null) {
+    this.ctx.activeSpeaker = name;
+    this.ctx.activeSpeakers = name ? [name] : [];
+  }
+
+  private recordInterruption(by: string, of: string) {
+    if (by === of || !this.ctx.speakers.includes(by) || !this.ctx.speakers.includes(of)) return;
+    this.ctx.interruptionCount += 1;
+    this.ctx.interruptions = [...this.ctx.interruptions, { at: this.ctx.totalSeconds, by, of }];
+    this.ctx.interruptionsMade = { ...this.ctx.interruptionsMade, [by]: (this.ctx.interruptionsMade[by] || 0) + 1 };
+    this.ctx.interruptionsReceived = { ...this.ctx.interruptionsReceived, [of]: (this.ctx.interruptionsReceived[of] || 0) + 1 };
+    const bucket = this.currentBucket();
+    bucket.interruptions[by] = (bucket.interruptions[by] || 0) + 1;
+  }
+
+  /** True when `name` starting to speak now would overlap someone still talking (not in facilitated rounds). */
+  private wouldInterrupt(name: string) {
+    return this.ctx.activeSpeakers.some(s => s !== name) && this.state !== DiscussionState.STRUCTURED;
+  }
+
+  private applyConfig(partial: Partial<EngineConfig>) {
+    const config = pickEngineConfig(partial);
+    const errors = validateEngineConfig(config);
+    if (errors.length > 0) throw new Error(`Invalid engine config: ${errors.join('; ')}`);
+    Object.assign(this.ctx, config);
+    this.updateAgendaWarning();
+    this.updateMetrics();
+  }
+
+  /**
+   * Listens to the engine; the listener runs after every event, with the transitions the
+   * event caused. Returns the function that unsubscribes it.
+   */
+  public subscribe(listener: EngineListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Listens to one kind of transition, e.g. `on('stateEntered', n => ...)`. */
+  public on<T extends EngineNotificationType>(type: T, listener: (notification: EngineNotification<T>) => void): () => void {
+    return this.subscribe(notifications => notifications
+      .filter((n): n is EngineNotification<T> => n.type === type)
+      .forEach(listener));
+  }
+
+  public setClock(clock: SessionClock | null) {
+    this.clock = clock;
+  }
+
+  /**
+   * The one-second TICKs that bring the engine up to its clock, or none without a clock. They
+   * are returned rather than applied so the caller can record them; after a throttled stretch
+   * (a background tab) several come at once, and each still advances the flow on its own.
+   */
+  public dueTicks(): DiscussionEvent[] {
+    if (!this.clock || this.ctx.sessionPaused) return [];
+    const due = Math.floor(this.clock.elapsedSeconds() - this.ctx.sessionSeconds);
+    return Array.from({ length: Math.max(0, due) }, () => ({ type: 'TICK', seconds: 1 }));
+  }
+
   public send(event: DiscussionEvent) {
+    if (this.listeners.size === 0) {
+      this.apply(event);
+      this.current = null;
+      return;
+    }
+    const before = this.getSnapshot();
+    this.apply(event);
+    this.current = null;
+    const notifications = describeTransition(event, before, this.getSnapshot());
+    // A failing listener must not keep the others from hearing about the transition.
+    [...this.listeners].forEach(listener => {
+      try {
+        listener(notifications);
+      } catch (error) {
+        console.error("Engine listener error:", error);
+      }
+    });
+  }
+
+  private apply(event: DiscussionEvent) {
     switch (event.type) {
       case 'SPEAKER_SET':
-        if (this.ctx.activeSpeaker !== event.name) {
-          this.ctx.currentMonologueSeconds = 0;
-        }
+        // A handover, not an interruption: SPEAKER_SET ends the previous speaker's turn.
+        if (this.ctx.activeSpeaker !== event.name) this.ctx.currentMonologueSeconds = 0;
         if (this.state === DiscussionState.STRUCTURED) {
           const idx = this.ctx.turnOrder.indexOf(event.name);
           if (idx !== -1) {
             this.ctx.turnIndex = idx;
-            this.ctx.activeSpeaker = event.name;
+            this.setFloor(event.name);
             this.ctx.turnSince = this.ctx.totalSeconds;
           }
         } else {
+          this.setFloor(event.name);
+        }
+        break;
+      case 'SPEAKER_START':
+        if (this.ctx.activeSpeakers.includes(event.name) || !this.ctx.speakers.includes(event.name)) break;
+        if (this.ctx.activeSpeaker && !event.joint && this.wouldInterrupt(event.name)) {
+          this.recordInterruption(event.name, this.ctx.activeSpeaker);
+        }
+        this.ctx.activeSpeakers = [...this.ctx.activeSpeakers, event.name];
+        if (this.ctx.activeSpeaker === null) {
           this.ctx.activeSpeaker = event.name;
+          this.ctx.currentMonologueSeconds = 0;
         }
         break;
+      case 'SPEAKER_STOP':
+        if (!this.ctx.activeSpeakers.includes(event.name)) break;
+        this.ctx.activeSpeakers = this.ctx.activeSpeakers.filter(s => s !== event.name);
+        if (this.ctx.activeSpeaker === event.name) {
+          // The floor passes to whoever has been talking over them the longest.
+          this.ctx.activeSpeaker = this.ctx.activeSpeakers[0] ?? null;
+          this.ctx.currentMonologueSeconds = 0;
+        }
+        break;
+      case 'INTERRUPTION':
+        this.recordInterruption(event.by, event.of);
+        this.updateMetrics();
+        break;
       case 'SET_QUIET_SPEAKER':
         this.ctx.quietSpeaker = event.name;
         break;
@@ -204,22 +805,58 @@ export class DiscussionEngine {
         this.ctx.quietMode = event.enabled;
         this.updateMetrics();
         break;
+      case 'SET_SESSION_PAUSED':
+        this.ctx.sessionPaused = event.paused;
+        break;
+      case 'TRANSCRIPT': {
+        const text = event.text.trim();
+        if (!text) break;
+        const speaker = event.speaker !== undefined ? event.speaker : this.ctx.activeSpeaker;
+        this.ctx.transcript = [...this.ctx.transcript, {
+          at: this.ctx.totalSeconds,
+          speaker: speaker && this.ctx.speakers.includes(speaker) ? speaker : null,
+          text,
+          round: this.state === DiscussionState.STRUCTURED ? this.ctx.roundNumber : null,
+        }];
+        break;
+      }
       case 'SILENCE':
-        this.ctx.activeSpeaker = null;
+        this.setFloor(null);
         this.ctx.currentMonologueSeconds = 0;
         break;
       case 'TICK': {
+        if (this.ctx.sessionPaused) break;
         const dt = event.seconds;
+        const bucket = this.currentBucket();
         this.ctx.totalSeconds += dt;
-        if (this.ctx.activeSpeaker && this.ctx.talkTime[this.ctx.activeSpeaker] !== undefined) {
-          this.ctx.talkTime = {
-            ...this.ctx.talkTime,
-            [this.ctx.activeSpeaker]: (this.ctx.talkTime[this.ctx.activeSpeaker] || 0) + dt
-          };
-          this.ctx.totalTalkTime += dt;
-          this.ctx.currentMonologueSeconds += dt;
+        this.ctx.sessionSeconds += dt;
+        // Everyone speaking is credited, so overlapping speech counts for each participant.
+        const talking = this.ctx.activeSpeakers.filter(s => this.ctx.talkTime[s] !== undefined);
+        this.trackTopic(dt, talking);
+        if (talking.length > 0) {
+          const talkTime = { ...this.ctx.talkTime };
+          const turnCounts = { ...this.ctx.turnCounts };
+          talking.forEach(speaker => {
+            if (!this.lastTickSpeakers.includes(speaker)) {
+              turnCounts[speaker] = (turnCounts[speaker] || 0) + 1;
+              bucket.turns[speaker] = (bucket.turns[speaker] || 0) + 1;
+            }
+            bucket.talkTime[speaker] = (bucket.talkTime[speaker] || 0) + dt;
+            talkTime[speaker] = (talkTime[speaker] || 0) + dt;
+          });
+          this.ctx.talkTime = talkTime;
+          this.ctx.turnCounts = turnCounts;
+          this.ctx.totalTalkTime += dt * talking.length;
+          if (talking.length > 1) this.ctx.overlapSeconds += dt;
+          this.lastTickSpeakers = talking;
+          if (this.ctx.activeSpeaker && talking.includes(this.ctx.activeSpeaker)) {
+            this.ctx.currentMonologueSeconds += dt;
+          } else {
+            this.ctx.currentMonologueSeconds = 0;
+          }
           this.ctx.silenceSeconds = 0;
         } else {
+          this.lastTickSpeakers = [];
           this.ctx.silenceSeconds += dt;
           this.ctx.currentMonologueSeconds = 0;
         }
@@ -227,12 +864,39 @@ export class DiscussionEngine {
         this.autoAdvanceIfNeeded();
         break;
       }
+      case 'SET_AGENDA': {
+        const current = this.currentTopic();
+        this.ctx.agenda = event.items.filter(item => item.id && Number.isFinite(item.timeboxSeconds) && item.timeboxSeconds > 0);
+        const ids = new Set(this.ctx.agenda.map(item => item.id));
+        this.ctx.agendaProgress = Object.fromEntries(Object.entries(this.ctx.agendaProgress).filter(([id]) => ids.has(id)));
+        const index = current ? this.ctx.agenda.findIndex(item => item.id === current.id) : -1;
+        this.ctx.agendaIndex = index >= 0 ? index : null;
+        this.updateAgendaWarning();
+        break;
+      }
+      case 'START_TOPIC': {
+        const index = this.ctx.agenda.findIndex(item => item.id === event.id);
+        if (index >= 0) this.startTopic(index);
+        break;
+      }
+      case 'NEXT_TOPIC':
+        this.startTopic(this.ctx.agendaIndex === null ? 0 : this.ctx.agendaIndex + 1);
+        break;
       case 'ADD_SPEAKER':
         if (!this.ctx.speakers.includes(event.name)) {
           this.ctx.speakers = [...this.ctx.speakers, event.name];
           this.ctx.talkTime = { ...this.ctx.talkTime, [event.name]: 0 };
+          this.ctx.turnCounts = { ...this.ctx.turnCounts, [event.name]: 0 };
+          this.ctx.interruptionsMade = { ...this.ctx.interruptionsMade, [event.name]: 0 };
+          this.ctx.interruptionsReceived = { ...this.ctx.interruptionsReceived, [event.name]: 0 };
           this.updateMetrics();
         }
+        if (event.profile) this.ctx.speakerProfiles = { ...this.ctx.speakerProfiles, [event.name]: event.profile };
+        break;
+      case 'SET_SPEAKER_PROFILE':
+        if (this.ctx.speakers.includes(event.name)) {
+          this.ctx.speakerProfiles = { ...this.ctx.speakerProfiles, [event.name]: event.profile };
+        }
         break;
       case 'REMOVE_SPEAKER':
         this.ctx.speakers = this.ctx.speakers.filter(s => s !== event.name);
@@ -240,19 +904,40 @@ export class DiscussionEngine {
         const removedTime = newTalkTime[event.name] || 0;
         delete newTalkTime[event.name];
         this.ctx.talkTime = newTalkTime;
+        const newTurnCounts = { ...this.ctx.turnCounts };
+        delete newTurnCounts[event.name];
+        this.ctx.turnCounts = newTurnCounts;
+        const { [event.name]: _made, ...interruptionsMade } = this.ctx.interruptionsMade;
+        const { [event.name]: _received, ...interruptionsReceived } = this.ctx.interruptionsReceived;
+        this.ctx.interruptionsMade = interruptionsMade;
+        this.ctx.interruptionsReceived = interruptionsReceived;
+        this.history.forEach(b => {
+          delete b.talkTime[event.name];
+          delete b.turns[event.name];
+          delete b.interruptions[event.name];
+        });
         this.ctx.totalTalkTime = Math.max(0, this.ctx.totalTalkTime - removedTime);
         
+        this.ctx.activeSpeakers = this.ctx.activeSpeakers.filter(s => s !== event.name);
         if (this.ctx.activeSpeaker === event.name) {
-          this.ctx.activeSpeaker = null;
+          this.ctx.activeSpeaker = this.ctx.activeSpeakers[0] ?? null;
           this.ctx.currentMonologueSeconds = 0;
         }
         if (this.ctx.quietSpeaker === event.name) this.ctx.quietSpeaker = null;
+        this.ctx.raisedHands = this.ctx.raisedHands.filter(s => s !== event.name);
+        const { [event.name]: _vote, ...checkinVotes } = this.ctx.checkinVotes;
+        this.ctx.checkinVotes = checkinVotes;
+        const { [event.name]: _profile, ...speakerProfiles } = this.ctx.speakerProfiles;
+        this.ctx.speakerProfiles = speakerProfiles;
         this.updateMetrics();
         break;
       case 'SET_TALK_TIME':
         if (this.ctx.talkTime[event.name] !== undefined) {
           const oldVal = this.ctx.talkTime[event.name];
           this.ctx.talkTime = { ...this.ctx.talkTime, [event.name]: Math.max(0, event.seconds) };
+          // Manual corrections land in the current bucket so the rolling window reflects them too.
+          const bucket = this.currentBucket();
+          bucket.talkTime[event.name] = Math.max(0, (bucket.talkTime[event.name] || 0) + Math.max(0, event.seconds) - oldVal);
           this.ctx.totalTalkTime = this.ctx.totalTalkTime - oldVal + Math.max(0, event.seconds);
           this.updateMetrics();
         }
@@ -261,19 +946,86 @@ export class DiscussionEngine {
         this.ctx.silenceSeconds = Math.max(0, event.seconds);
         this.updateMetrics();
         break;
+      case 'RESTORE_FLOOR': {
+        const speakers = event.speakers.filter((s, i, all) => this.ctx.speakers.includes(s) && all.indexOf(s) === i);
+        this.ctx.activeSpeaker = speakers[0] ?? null;
+        this.ctx.activeSpeakers = speakers;
+        if (speakers.length === 0) this.ctx.currentMonologueSeconds = 0;
+        else if (event.monologueSeconds !== undefined) this.ctx.currentMonologueSeconds = Math.max(0, event.monologueSeconds);
+        break;
+      }
       case 'FORCE_STATE':
-        this.setState(event.state);
+        this.enterBehavior(event.state);
+        break;
+      case 'ENTER_STATE':
+        this.enterState(event.id);
+        break;
+      case 'SET_FLOW': {
+        const errors = validateFlow(event.flow);
+        if (errors.length > 0) throw new Error(`Invalid flow: ${errors.join('; ')}`);
+        this.ctx.flow = event.flow;
+        const def = this.flowStateDef();
+        if (!def || def.behavior !== this.state) this.enterState(def?.id ?? event.flow.initial);
         break;
+      }
       case 'NEXT_TURN':
         this.nextTurn();
         break;
+      case 'PASS_TURN': {
+        if (this.state !== DiscussionState.STRUCTURED) break;
+        const holder = this.ctx.turnOrder[this.ctx.turnIndex];
+        if (holder && !this.ctx.passedTurns.includes(holder)) this.ctx.passedTurns = [...this.ctx.passedTurns, holder];
+        this.nextTurn();
+        break;
+      }
+      case 'RAISE_HAND': {
+        const isHolder = this.state === DiscussionState.STRUCTURED && this.ctx.activeSpeaker === event.name;
+        if (!this.ctx.speakers.includes(event.name) || isHolder || this.ctx.raisedHands.includes(event.name)) break;
+        this.ctx.raisedHands = [...this.ctx.raisedHands, event.name];
+        if (this.state === DiscussionState.STRUCTURED) this.queueRaisedHands(this.ctx.turnIndex + 1);
+        break;
+      }
+      case 'LOWER_HAND': {
+        if (!this.ctx.raisedHands.includes(event.name)) break;
+        this.ctx.raisedHands = this.ctx.raisedHands.filter(s => s !== event.name);
+        if (this.state !== DiscussionState.STRUCTURED) break;
+        // Drop the extra turn a raised hand added; a regular turn that was moved up stays where it is.
+        const upcoming = this.ctx.turnOrder.indexOf(event.name, this.ctx.turnIndex + 1);
+        if (upcoming >= 0 && this.ctx.turnOrder.slice(0, upcoming).includes(event.name)) {
+          this.ctx.turnOrder = this.ctx.turnOrder.filter((_, i) => i !== upcoming);
+          this.ctx.turnDurations = this.ctx.turnDurations.filter((_, i) => i !== upcoming);
+        }
+        break;
+      }
+      case 'CHECKIN_VOTE':
+        if (this.state !== DiscussionState.CHECKIN || !this.ctx.speakers.includes(event.name)) break;
+        this.ctx.checkinVotes = { ...this.ctx.checkinVotes, [event.name]: event.vote };
+        if (this.ctx.speakers.every(s => s in this.ctx.checkinVotes)) this.resolveCheckin();
+        break;
+      case 'CHECKIN':
+        if (this.state === DiscussionState.CHECKIN) this.takeCheckinExit(event.canContinue);
+        break;
+      case 'SET_CONFIG':
+        this.applyConfig(event.config);
+        break;
+      case 'APPLY_PRESET':
+        // Settings switch in place: accumulated talk time and the current state are kept.
+        this.applyConfig({ ...DEFAULT_ENGINE_CONFIG, ...event.config });
+        this.ctx.autoMode = event.autoMode;
+        break;
     }
   }
 
-  public snapshot() {
+  public snapshot(): EngineSnapshot {
     return {
       state: this.state,
       context: { ...this.ctx }
     };
   }
+
+  /** Like `snapshot()`, but the same object until the next event (for `useSyncExternalStore`). */
+  public getSnapshot = (): EngineSnapshot => {
+    this.current ??= this.snapshot();
+    return this.current;
+  };
 }
@@ -0,0 +1,462 @@
+import React, { useMemo } from 'react';
+import { DiscussionState, EngineContext, DiscussionEvent } from './types';
+import { activeFlowState, flowSeconds } from './DiscussionEngine';
+import { flowText } from './flowStore';
+import { METRIC_IDS } from './fairnessMetrics';
+import { RoundSummary } from './geminiService';
+import { SyncContext } from './sessionSync';
+import { useI18n, MessageKey, I18n } from './i18n';
+import {
+  Play,
+  ArrowRight,
+  CheckCircle,
+  PauseCircle,
+  BarChart2,
+  BrainCircuit,
+  Clock,
+  Star,
+  Users,
+  Mic2,
+  Wind,
+  ChevronRight,
+  AlertTriangle,
+  Hand,
+  ListChecks
+} from 'lucide-react';
+
+export const SPEAKER_COLORS = [
+  { name: 'deep-forest', gradient: 'from-[#4a635d] to-[#2c3d38]', text: 'text-[#4a635d]' },
+  { name: 'burnt-sienna', gradient: 'from-[#a66e51] to-[#7d4f38]', text: 'text-[#a66e51]' },
+  { name: 'dark-moss', gradient: 'from-[#6b754d] to-[#4c5436]', text: 'text-[#6b754d]' },
+  { name: 'golden-bronze', gradient: 'from-[#b5925d] to-[#8a6e42]', text: 'text-[#b5925d]' },
+  { name: 'navy-steel', gradient: 'from-[#5c727d] to-[#3d4d54]', text: 'text-[#5c727d]' },
+  { name: 'dark-umber', gradient: 'from-[#8c6b5a] to-[#5d473b]', text: 'text-[#8c6b5a]' },
+  { name: 'pine', gradient: 'from-[#547366] to-[#3a4f46]', text: 'text-[#547366]' },
+  { name: 'deep-coral', gradient: 'from-[#b38576] to-[#8c6559]', text: 'text-[#b38576]' },
+  { name: 'antique-khaki', gradient: 'from-[#9e9672] to-[#736d52]', text: 'text-[#9e9672]' },
+  { name: 'charcoal', gradient: 'from-[#6e747a] to-[#454a4f]', text: 'text-[#6e747a]' },
+];
+
+export const STATE_THEMES: Record<DiscussionState, { color: string, bg: string, icon: any, fullBg: string }> = {
+  [DiscussionState.MONITORING]: { color: "text-[#4a635d]", bg: "from-[#f2ede4] to-[#ebe6db]", icon: Play, fullBg: "bg-[#f2ede4]" },
+  [DiscussionState.IMBALANCE]: { color: "text-red-900", bg: "from-[#fecaca] to-[#fca5a5]", icon: AlertTriangle, fullBg: "bg-[#fee2e2]" },
+  [DiscussionState.NUDGE]: { color: "text-[#7d4f38]", bg: "from-[#ebe4d8] to-[#dfd6c6]", icon: PauseCircle, fullBg: "bg-[#ebe4d8]" },
+  [DiscussionState.STRUCTURED]: { color: "text-[#4c5436]", bg: "from-[#e9eee6] to-[#dae2d4]", icon: ArrowRight, fullBg: "bg-[#e9eee6]" },
+  [DiscussionState.PAUSE]: { color: "text-[#5d473b]", bg: "from-[#f2ede4] to-[#e8e2d8]", icon: Wind, fullBg: "bg-[#f2ede4]" },
+  [DiscussionState.CHECKIN]: { color: "text-[#4a635d]", bg: "from-[#e6efea] to-[#d4e4db]", icon: CheckCircle, fullBg: "bg-[#e6efea]" },
+};
+
+/**
+ * A speaker's saved color wins; otherwise colors follow roster position. Both travel with
+ * the context, so every view of the session paints a speaker the same way.
+ */
+export function speakerColor(context: Pick<EngineContext, 'speakers' | 'speakerProfiles'>, name: string) {
+  const saved = SPEAKER_COLORS.find(c => c.name === context.speakerProfiles[name]?.color);
+  return saved ?? SPEAKER_COLORS[Math.max(0, context.speakers.indexOf(name)) % SPEAKER_COLORS.length];
+}
+
+/** Seconds as mm:ss. */
+export function formatClock(seconds: number) {
+  const total = Math.max(0, Math.ceil(seconds));
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Colors and heading for the stage. The active flow state can override the label and colors
+ * of the behavior it runs with, and adds its own instruction as `message`.
+ */
+export function stageTheme(state: DiscussionState, context: SyncContext, quietView: boolean, { t, language }: Pick<I18n, 't' | 'language'>) {
+  if (quietView) return { label: t('app.quietVoice'), color: "text-[#8a6e42]", bg: "from-[#f5f1ea] to-[#ebe4d8]", fullBg: "bg-[#f5f1ea]", message: undefined };
+  const def = activeFlowState(context);
+  const text = def?.theme?.text;
+  const background = def?.theme?.background;
+  return {
+    ...STATE_THEMES[state],
+    ...(text ? { color: `text-[${text}]` } : {}),
+    ...(background ? { bg: `from-[${background}] to-[${background}]`, fullBg: `bg-[${background}]` } : {}),
+    label: flowText(def?.label, language) ?? t(`state.${state}` as MessageKey),
+    message: context.sessionPaused ? t('clock.paused') : flowText(def?.message, language),
+  };
+}
+
+/** Keyframes and effects the stage relies on; rendered once at the root of each view. */
+export const StageStyles: React.FC = () => (
+  <style>{`
+    @keyframes floating-slow { 
+      0%, 100% { transform: translate(0, 0) rotate(0deg); } 
+      25% { transform: translate(8px, -15px) rotate(1deg); }
+      50% { transform: translate(-5px, -8px) rotate(-1deg); }
+      75% { transform: translate(-10px, -12px) rotate(0.5deg); }
+    }
+    .animate-floating-slow { animation: floating-slow 10s ease-in-out infinite; }
+    
+    @keyframes breathing { 
+      0%, 100% { transform: scale(0.97); box-shadow: inset -12px -12px 30px rgba(58, 47, 40, 0.1), inset 8px 8px 15px rgba(255, 255, 255, 0.2); } 
+      50% { transform: scale(1.05); box-shadow: inset -18px -18px 40px rgba(58, 47, 40, 0.15), inset 12px 12px 25px rgba(255, 255, 255, 0.3); } 
+    }
+    .shush-sphere { animation: breathing 6s ease-in-out infinite; }
+    
+    @keyframes imbalance-pulse {
+      0%, 100% { background-color: rgba(254, 202, 202, 0.3); box-shadow: inset 0 0 100px rgba(185, 28, 28, 0.05); }
+      50% { background-color: rgba(254, 202, 202, 0.6); box-shadow: inset 0 0 150px rgba(185, 28, 28, 0.15); }
+    }
+    .imbalance-bg-active {
+      animation: imbalance-pulse 3s ease-in-out infinite;
+    }
+
+    .progress-circle { transition: stroke-dashoffset 0.8s ease-out; }
+    .round-bar-transition { transition: width 0.8s cubic-bezier(0.4, 0, 0.2, 1); }
+    .imbalance-glow { box-shadow: 0 0 35px 15px rgba(185, 28, 28, 0.4); }
+    .warning-glow { box-shadow: 0 0 20px 5px rgba(185, 28, 28, 0.2); border-color: rgba(185, 28, 28, 0.3); }
+  `}</style>
+);
+
+interface DiscussionStageProps {
+  state: DiscussionState;
+  /** Remote views receive the trimmed sync context, so the stage needs no more than that. */
+  context: SyncContext;
+  quietView: boolean;
+  tip: string | null;
+  isLoadingTip?: boolean;
+  roundSummary: RoundSummary | null;
+  isReplay?: boolean;
+  /** Facilitator controls (turn passing/advancing); read-only views leave this out. */
+  onEvent?: (event: DiscussionEvent) => void;
+}
+
+/**
+ * The shared visualization of a discussion: state header, speaker bubbles, round
+ * progress and the moderator tip. Rendered by the facilitator console and the room display.
+ */
+const DiscussionStage: React.FC<DiscussionStageProps> = ({ state, context, quietView, tip, isLoadingTip = false, roundSummary, isReplay = false, onEvent }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const theme = stageTheme(state, context, quietView, i18n);
+  const flowState = activeFlowState(context);
+  const manualExits = flowState?.exits.flatMap(exit => exit.when === 'manual' ? [exit] : []) ?? [];
+
+  const totalTalk = (Object.values(context.talkTime) as number[]).reduce((a, b) => a + b, 0);
+  const avgTalk = totalTalk / (context.speakers.length || 1);
+
+  const isImbalanceMeasureActive = 
+    state !== DiscussionState.STRUCTURED && 
+    state !== DiscussionState.PAUSE && 
+    state !== DiscussionState.NUDGE && 
+    state !== DiscussionState.CHECKIN;
+
+  const roundProgressInfo = useMemo(() => {
+    if (state !== DiscussionState.STRUCTURED || context.turnOrder.length === 0) return null;
+    const durations = context.turnOrder.map((_, i) => context.turnDurations[i] ?? context.turnHoldSeconds);
+    const totalRoundSeconds = durations.reduce((a, b) => a + b, 0);
+    const turnSeconds = durations[context.turnIndex] ?? context.turnHoldSeconds;
+    const turnElapsed = context.totalSeconds - context.turnSince;
+    const roundElapsed = durations.slice(0, context.turnIndex).reduce((a, b) => a + b, 0) + Math.min(turnElapsed, turnSeconds);
+    const progressPercent = (roundElapsed / totalRoundSeconds) * 100;
+    return { progressPercent, roundElapsed, totalRoundSeconds, turnSeconds, durations };
+  }, [state, context.turnOrder, context.turnDurations, context.turnIndex, context.turnSince, context.totalSeconds, context.turnHoldSeconds]);
+
+  // The timed exit of the current flow state drives the countdown of transient states.
+  const timedExit = flowState?.exits.find(e => e.when === 'elapsed' || e.when === 'checkin');
+  const transientDuration = timedExit?.when === 'elapsed' ? flowSeconds(timedExit.seconds, context)
+    : timedExit?.when === 'checkin' ? flowSeconds(timedExit.seconds ?? 'checkinSeconds', context)
+    : null;
+
+  const transientCountdown = useMemo(() => {
+    const elapsedInState = context.totalSeconds - context.stateSince;
+    
+    if (state === DiscussionState.MONITORING && context.imbalanceFlag && context.imbalanceSince !== null) {
+      const imbalanceExit = flowState?.exits.find(e => e.when === 'imbalance');
+      if (!imbalanceExit || imbalanceExit.when !== 'imbalance') return null;
+      const elapsedMonitoring = context.totalSeconds - context.imbalanceSince;
+      return Math.max(0, flowSeconds(imbalanceExit.holdSeconds ?? 'imbalanceHoldSeconds', context) - elapsedMonitoring);
+    }
+    
+    if (state === DiscussionState.STRUCTURED || transientDuration === null) return null;
+    return Math.max(0, transientDuration - elapsedInState);
+  }, [state, flowState, context, transientDuration]);
+
+  const topic = context.agendaIndex === null ? null : context.agenda[context.agendaIndex] ?? null;
+  const topicRemaining = topic ? topic.timeboxSeconds - (context.agendaProgress[topic.id]?.elapsedSeconds ?? 0) : 0;
+
+  return (
+    <section className="flex-1 flex flex-col gap-4 z-10 relative h-full overflow-hidden">
+      <div className={`flex-1 bg-white/60 backdrop-blur-3xl border transition-all duration-1000 rounded-[3rem] p-6 flex flex-col relative overflow-hidden shadow-2xl ${state === DiscussionState.IMBALANCE ? 'border-red-400 shadow-red-200/40' : 'border-white/40'}`}>
+        <div className="flex justify-between items-start z-[60] mb-4 relative">
+          <div className="space-y-1">
+            <h1 className={`text-3xl lg:text-5xl font-black tracking-tighter ${theme.color} transition-all drop-shadow-sm`}>
+              {theme.label}
+            </h1>
+            <p className="text-[#736d52] font-black text-[10px] uppercase tracking-[0.4em] opacity-80">{isReplay ? 'SESSION REPLAY' : 'AI DISCUSSION ANALYTICS'}</p>
+            {theme.message && (
+              <p className={`text-sm lg:text-base font-black pt-1 max-w-xl ${theme.color}`}>{theme.message}</p>
+            )}
+            {onEvent && manualExits.length > 0 && (
+              <div className="flex flex-wrap gap-2 pt-1">
+                {manualExits.map(exit => {
+                  const target = activeFlowState(context, exit.to);
+                  const label = flowText(exit.label, i18n.language)
+                    ?? flowText(target?.label, i18n.language)
+                    ?? t(`state.${target?.behavior ?? exit.to}` as MessageKey);
+                  return (
+                    <button
+                      key={exit.to}
+                      onClick={() => onEvent({ type: 'ENTER_STATE', id: exit.to })}
+                      className="flex items-center gap-1 px-3 py-1 rounded-xl bg-white/80 border border-[#d6cdc1] text-[#5d473b] text-[11px] font-black shadow-sm hover:bg-[#ebe6db] active:scale-95 transition-all"
+                    >
+                      <ChevronRight size={12} className="rtl:rotate-180" /> {label}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {topic && (
+              <p className={`text-xs font-black flex items-center gap-1.5 pt-1 ${context.agendaWarning === 'over' ? 'text-red-800 animate-pulse' : context.agendaWarning === 'nearEnd' ? 'text-[#a66e51]' : 'text-[#4a635d]'}`}>
+                <ListChecks size={14} />
+                {topicRemaining > 0
+                  ? t('agenda.current', { title: topic.title, remaining: formatClock(topicRemaining) })
+                  : t('agenda.overtime', { title: topic.title, over: formatClock(-topicRemaining) })}
+              </p>
+            )}
+            {context.raisedHands.length > 0 && (
+              <p className="text-xs font-black text-[#5d473b] flex items-center gap-1.5 pt-1">
+                <Hand size={14} /> {t('hand.queue', { names: context.raisedHands.join(', ') })}
+              </p>
+            )}
+          </div>
+          
+          <div className={`flex gap-4 lg:gap-6 bg-white/90 p-2.5 px-5 rounded-[2rem] border transition-all shadow-xl backdrop-blur-md ${state === DiscussionState.IMBALANCE ? 'border-red-200' : 'border-[#d6cdc1]/40'}`}>
+            <div className={`text-end transition-all duration-500 ${isImbalanceMeasureActive ? 'opacity-100' : 'opacity-30'}`}>
+              <div className={`text-[10px] lg:text-xs uppercase font-black flex items-center justify-end gap-1 mb-0.5 ${state === DiscussionState.IMBALANCE ? 'text-red-900' : 'text-[#3d2e25]'}`}>
+                <BarChart2 size={12}/> {t('app.balanceIndex')}
+              </div>
+              <div className="flex flex-col items-end">
+                 <div className={`text-2xl lg:text-4xl font-black tabular-nums leading-none tracking-tighter ${context.imbalanceFlag ? 'text-red-900 animate-pulse' : 'text-[#1a1816]'}`}>
+                   {(context.imbalanceScore || 0).toFixed(2)}
+                 </div>
+                 <div className="flex gap-2 mt-1">
+                   {METRIC_IDS.map(id => (
+                     <div key={id} className={`text-[9px] font-bold tabular-nums ${context.imbalanceMetric === id ? 'text-[#1a1816]' : 'text-[#736d52]'}`}>
+                       {t(`metric.${id}`)} {(context.metrics[id] || 0).toFixed(2)}
+                     </div>
+                   ))}
+                 </div>
+              </div>
+            </div>
+            <div className="w-px h-10 bg-[#d6cdc1]/60 self-center mx-1"></div>
+            <div className="text-end">
+              <div className="text-[10px] lg:text-xs uppercase font-black text-[#1a1816] flex items-center justify-end gap-1 mb-0.5"><Clock size={12}/> {t('app.totalTime')}</div>
+              <div className="text-2xl lg:text-4xl font-black text-[#1a1816] tabular-nums leading-none tracking-tighter">
+                {context.totalSeconds}<span className="text-base ml-1 text-[#736d52] font-black">s</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 flex flex-col items-center justify-center relative min-h-0 py-2 z-20 overflow-hidden">
+          {context.speakers.length === 0 ? (
+            <div className="flex flex-col items-center gap-4 animate-in fade-in zoom-in duration-1000 text-[#d6cdc1]">
+              <Users size={80} strokeWidth={1} />
+              <p className="text-2xl font-black text-[#3d2e25]/20 text-center tracking-tight">{t('app.addParticipants')}</p>
+            </div>
+          ) : quietView ? (
+            <div className="w-full h-full flex flex-col items-center justify-center animate-in slide-in-from-bottom-8 duration-700">
+              <div className="relative">
+                <div className="absolute inset-0 bg-[#8a6e42] blur-[100px] opacity-20 animate-pulse"></div>
+                {!context.quietSpeaker ? (
+                  <div className="text-center space-y-4">
+                     <Mic2 size={80} className="mx-auto text-[#d6cdc1] mb-4 opacity-60" />
+                     <p className="text-2xl font-black text-[#3d2e25]/40 tracking-tight">{t('app.chooseQuiet')}</p>
+                  </div>
+                ) : (
+                  <div className="flex flex-col items-center">
+                     <div className={`w-40 h-40 lg:w-56 lg:h-56 rounded-full bg-gradient-to-br ${speakerColor(context, context.quietSpeaker).gradient} shadow-2xl border-[8px] border-white flex items-center justify-center text-white font-black text-6xl lg:text-7xl relative z-10 animate-floating`}>
+                        {context.quietSpeaker[0]}
+                        <div className="absolute inset-[-12px] rounded-full border-4 border-[#8a6e42]/30 animate-ping"></div>
+                     </div>
+                     <h2 className="mt-8 text-4xl lg:text-5xl font-black text-[#1a1816] tracking-tighter drop-shadow-md">{context.quietSpeaker}</h2>
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : state === DiscussionState.PAUSE || state === DiscussionState.CHECKIN ? (
+            <div className="flex flex-col items-center gap-6 animate-in zoom-in duration-1000">
+               <div className="shush-sphere w-48 h-48 lg:w-56 lg:h-56 rounded-full bg-[#ebe6db] border-[10px] border-[#d6cdc1]/50 flex items-center justify-center shadow-inner relative">
+                  {state === DiscussionState.PAUSE ? <Wind size={60} className="text-[#736d52]" /> : <CheckCircle size={60} className="text-[#4a635d]" />}
+                  {/* Visual Progress ring for Pause/Checkin */}
+                  <svg className="absolute inset-[-10px] -rotate-90 pointer-events-none" viewBox="0 0 100 100" style={{ width: 'calc(100% + 20px)', height: 'calc(100% + 20px)' }}>
+                     <circle 
+                       cx="50" cy="50" r="48" fill="none" 
+                       stroke={state === DiscussionState.PAUSE ? "#8a6e42" : "#4a635d"} strokeWidth="2" 
+                       strokeDasharray="301.6"
+                       strokeDashoffset={301.6 * (1 - (transientCountdown || 0) / (transientDuration || 1))}
+                       className="progress-circle opacity-30"
+                     />
+                  </svg>
+               </div>
+               <div className="text-center">
+                 <div className={`text-6xl lg:text-7xl font-black tabular-nums tracking-tighter ${state === DiscussionState.PAUSE ? 'text-[#1a1816]' : 'text-[#2c3d38]'}`}>
+                   {String(Math.floor(Math.ceil(transientCountdown || 0) / 60)).padStart(2, '0')}:{String(Math.ceil(transientCountdown || 0) % 60).padStart(2, '0')}
+                 </div>
+                 <p className="text-xl lg:text-2xl font-bold text-[#736d52] mt-4 tracking-tight">
+                   {state === DiscussionState.PAUSE ? t('app.pauseCaption') : t('app.checkinCaption')}
+                 </p>
+               </div>
+               {state === DiscussionState.CHECKIN && (
+                 <div className="flex flex-col items-center gap-3">
+                   <p className="text-sm font-black text-[#3d2e25] tabular-nums">
+                     {t('vote.tally', {
+                       continue: Object.values(context.checkinVotes).filter(v => v === 'continue').length,
+                       object: Object.values(context.checkinVotes).filter(v => v === 'object').length,
+                       pending: context.speakers.filter(s => !(s in context.checkinVotes)).length,
+                     })}
+                   </p>
+                   {onEvent && (
+                     <div className="flex gap-2">
+                       <button onClick={() => onEvent({ type: 'CHECKIN', canContinue: true })} className="px-4 py-2 rounded-xl bg-[#4a635d] border border-[#2c3d38] text-white text-xs font-black shadow-md active:scale-95 transition-all">
+                         {t('vote.continue')}
+                       </button>
+                       <button onClick={() => onEvent({ type: 'CHECKIN', canContinue: false })} className="px-4 py-2 rounded-xl bg-white/80 border border-[#d6cdc1] text-[#5d473b] text-xs font-black shadow-sm hover:bg-[#ebe6db] active:scale-95 transition-all">
+                         {t('vote.anotherRound')}
+                       </button>
+                     </div>
+                   )}
+                 </div>
+               )}
+               {roundSummary && roundSummary.round === context.roundNumber && (
+                 <div className="w-full max-w-xl bg-white/60 border border-[#d6cdc1]/70 rounded-2xl px-5 py-4 shadow-sm space-y-1.5">
+                   <div className="text-[10px] font-black text-[#736d52] tracking-widest">{t('app.roundSummary')}</div>
+                   {roundSummary.lines.map(line => (
+                     <p key={line.speaker} className="text-sm leading-snug text-[#1a1816]">
+                       <span className="font-black">{line.speaker}:</span> {line.text}
+                     </p>
+                   ))}
+                 </div>
+               )}
+            </div>
+          ) : (
+            <div className={`w-full h-full flex flex-wrap items-center justify-center transition-all duration-1000 ${state === DiscussionState.NUDGE ? 'gap-0 max-w-[450px]' : 'gap-6 lg:gap-12'}`}>
+              {context.speakers.map((s, idx) => {
+                const isActive = context.activeSpeakers.includes(s);
+                const isQuiet = context.quietSpeaker === s;
+                const handPosition = context.raisedHands.indexOf(s);
+                const talkTime = context.talkTime[s] || 0;
+                const growthFactor = totalTalk > 0 ? (talkTime / avgTalk) : 1;
+                
+                const isFlagged = (context.imbalanceFlag && (talkTime / avgTalk > 1.5)) && 
+                                 (state === DiscussionState.IMBALANCE || state === DiscussionState.MONITORING) && 
+                                 state !== DiscussionState.NUDGE && 
+                                 state !== DiscussionState.CHECKIN;
+                
+                let size = 95;
+                if (state === DiscussionState.STRUCTURED) {
+                  size = isActive ? 150 : 75;
+                } else if (state === DiscussionState.NUDGE) {
+                  size = 85; 
+                } else if (state === DiscussionState.CHECKIN) {
+                  size = 90;
+                } else {
+                  size = Math.min(150, Math.max(85, 95 * (0.8 + growthFactor * 0.4)));
+                }
+                
+                const style = speakerColor(context, s);
+                return (
+                  <div 
+                    key={s} 
+                    className={`flex flex-col items-center transition-all duration-1000 ease-in-out relative animate-floating-slow ${state === DiscussionState.NUDGE ? 'scale-95 -mx-3 -my-1 z-20' : ''}`}
+                    style={{ animationDelay: `${idx * 0.3}s` }}
+                  >
+                    <div 
+                      style={{ width: size, height: size }} 
+                      className={`rounded-full bg-gradient-to-br ${style.gradient} shadow-lg transition-all duration-1000 relative flex items-center justify-center border-[5px] border-white/60 ${isActive ? 'ring-[8px] ring-[#4a635d]/20 scale-110 z-30 shadow-xl' : 'opacity-90 z-10'} ${isFlagged ? (state === DiscussionState.IMBALANCE ? 'imbalance-glow' : 'warning-glow scale-105') : ''} ${state === DiscussionState.NUDGE ? 'shadow-inner ring-2 ring-white/30' : ''}`}
+                    >
+                       {isActive && (
+                         <svg className="absolute inset-0 -rotate-90 pointer-events-none overflow-visible" viewBox="0 0 100 100">
+                           <circle cx="50" cy="50" r="58" fill="none" stroke="currentColor" strokeWidth="4" className="text-[#4a635d]/10" />
+                           {state === DiscussionState.STRUCTURED && (
+                             <circle 
+                               cx="50" cy="50" r="58" fill="none" 
+                               stroke="currentColor" strokeWidth="4" 
+                               strokeDasharray="364.4"
+                               strokeDashoffset={364.4 * (1 - (context.totalSeconds - context.turnSince) / (roundProgressInfo?.turnSeconds ?? context.turnHoldSeconds))}
+                               className="text-[#4a635d] progress-circle"
+                             />
+                           )}
+                         </svg>
+                       )}
+                       <span className="text-white font-black drop-shadow-md select-none transition-all duration-1000" style={{ fontSize: size * 0.35 }}>{s[0]}</span>
+                       {isQuiet && <Star className="absolute -top-2 -left-2 text-[#8a6e42] fill-[#8a6e42] drop-shadow-md" size={size * 0.3} />}
+                       {handPosition >= 0 && (
+                         <span className="absolute -top-2 -right-2 bg-white text-[#5d473b] rounded-full shadow-md px-1.5 py-0.5 flex items-center gap-0.5 text-[10px] font-black">
+                           <Hand size={12} />{handPosition + 1}
+                         </span>
+                       )}
+                    </div>
+                    <div className={`mt-2.5 text-center transition-all duration-1000 ${isActive ? 'scale-110 font-bold' : 'opacity-70'}`}>
+                       <div className={`text-sm font-black truncate max-w-[100px] ${isActive ? 'text-[#1a1816]' : 'text-[#3d2e25]'}`}>{s}</div>
+                       <div className="text-[10px] font-bold text-[#736d52] tracking-widest uppercase mt-0.5">{talkTime}s</div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {state === DiscussionState.STRUCTURED && roundProgressInfo && (
+          <div className="mt-auto pt-4 flex flex-col gap-3 animate-in slide-in-from-bottom-4 duration-500 z-50 relative group">
+            <div className="flex items-center justify-between px-2">
+              <div className="text-[10px] font-black text-[#1a1816] bg-white/60 px-3 py-1.5 rounded-full shadow-sm border border-[#d6cdc1]/60">
+                {t('app.speakerOf', { index: context.turnIndex + 1, total: context.turnOrder.length })}
+              </div>
+              {context.passedTurns.length > 0 && (
+                <div className="text-[10px] font-bold text-[#736d52]">{t('app.passedList', { names: context.passedTurns.join(', ') })}</div>
+              )}
+            </div>
+            <div className="flex items-center gap-6">
+              <div className="flex-1 h-2.5 bg-[#d6cdc1]/40 rounded-full overflow-hidden shadow-inner border border-[#d6cdc1]/30 relative">
+                <div className="absolute inset-0 flex">
+                  {roundProgressInfo.durations.map((d, i) => (
+                    <div key={i} className={`h-full border-r border-[#d6cdc1]/30 last:border-0`} style={{ width: `${(d / roundProgressInfo.totalRoundSeconds) * 100}%` }}></div>
+                  ))}
+                </div>
+                <div className="h-full bg-gradient-to-r from-[#4a635d] to-[#2c3d38] round-bar-transition shadow-[0_0_10px_rgba(74,99,93,0.3)] relative" style={{ width: `${roundProgressInfo.progressPercent}%` }}></div>
+              </div>
+              {onEvent && (
+              <div className="flex items-center gap-2 shrink-0">
+                <button onClick={() => onEvent({ type: 'PASS_TURN' })} title={t('app.passTitle')} className="px-3 py-2.5 rounded-xl bg-white/60 border border-[#d6cdc1]/70 text-[#5d473b] text-[11px] font-black hover:bg-[#ebe6db] shadow-sm active:scale-90 transition-all">
+                  {t('app.pass')}
+                </button>
+                <button onClick={() => onEvent({ type: 'NEXT_TURN' })} className="p-2.5 rounded-xl bg-white/80 border border-[#d6cdc1]/70 text-[#4a635d] hover:bg-[#e6efea] shadow-md active:scale-90 transition-all group">
+                  <ChevronRight size={28} className="group-hover:translate-x-0.5 transition-transform" />
+                </button>
+              </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* AI Notification Drawer */}
+      <div className={`transition-all duration-700 rounded-[2rem] p-5 lg:p-6 relative overflow-hidden shadow-xl flex items-center gap-5 border shrink-0 mb-4 mx-4 z-40 ${state === DiscussionState.IMBALANCE ? 'bg-red-950 border-red-800 text-white shadow-red-200/20' : 'bg-[#445e54] border-white/10 text-[#f5f1ea]'}`}>
+        <div className={`p-3 rounded-2xl border shrink-0 ${state === DiscussionState.IMBALANCE ? 'bg-white/10 border-white/20' : 'bg-white/10 border-white/10'}`}>
+           <BrainCircuit className="w-6 h-6 lg:w-7 lg:h-7" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-3 mb-1">
+            <span className={`text-[9px] lg:text-[10px] font-black uppercase tracking-[0.2em] px-3 py-0.5 rounded-full border shadow-inner ${state === DiscussionState.IMBALANCE ? 'bg-white/10 border-white/20 text-white' : 'bg-white/10 border-white/5 text-[#f5f1ea]'}`}>AI Moderator Insight</span>
+            {isLoadingTip && <div className="flex gap-1.5"><div className="w-1 h-1 bg-white/60 rounded-full animate-bounce"></div><div className="w-1 h-1 bg-white/60 rounded-full animate-bounce [animation-delay:0.2s]"></div></div>}
+          </div>
+          <p className={`text-sm lg:text-xl font-bold leading-tight drop-shadow-sm truncate-3-lines`}>
+            {quietView 
+              ? t('app.quietViewTip') 
+              : (transientCountdown !== null && state !== DiscussionState.PAUSE && state !== DiscussionState.CHECKIN
+                  ? t('app.interventionCountdown', { seconds: Math.ceil(transientCountdown) }) 
+                  : tip ?? t('tip.waiting'))}
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default DiscussionStage;
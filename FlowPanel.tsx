@@ -0,0 +1,87 @@
+import React, { useState, useRef } from 'react';
+import { DiscussionFlow, DiscussionEvent, EngineContext } from './types';
+import { loadFlows, saveFlow, deleteFlow, exportFlow, importFlow } from './flowStore';
+import { validateFlow } from './DiscussionEngine';
+import { downloadText } from './fileUtils';
+import { useI18n, MessageKey } from './i18n';
+import { Workflow, Trash2, Download, Upload } from 'lucide-react';
+
+interface FlowPanelProps {
+  context: EngineContext;
+  onEvent: (event: DiscussionEvent) => void;
+}
+
+/** Picks the discussion flow (states and transition rules) the engine runs, with JSON import and export. */
+const FlowPanel: React.FC<FlowPanelProps> = ({ context, onEvent }) => {
+  const { t } = useI18n();
+  const [flows, setFlows] = useState<DiscussionFlow[]>(() => loadFlows());
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const current = context.flow;
+  // A resumed session may run a flow that has since been deleted; it stays selectable.
+  const options = flows.some(f => f.id === current.id) ? flows : [...flows, current];
+  const flowName = (flow: DiscussionFlow) => flow.builtIn ? t(`flow.${flow.id}` as MessageKey) : flow.name;
+
+  // Checked before sending, so the problems can be shown rather than thrown by the recorder.
+  const apply = (flow: DiscussionFlow) => {
+    const errors = validateFlow(flow);
+    if (errors.length > 0) {
+      setError(errors.join('; '));
+      return;
+    }
+    onEvent({ type: 'SET_FLOW', flow });
+    setError(null);
+  };
+
+  const handleDelete = () => {
+    if (current.builtIn) return;
+    setFlows(deleteFlow(current.id));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const flow = importFlow(await file.text());
+      setFlows(saveFlow(flow));
+      apply(flow);
+    } catch (err: any) {
+      setError(err?.message || t('common.invalidFile'));
+    }
+  };
+
+  return (
+    <div className="shrink-0 rounded-xl border border-[#d6cdc1] bg-white/60 p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <Workflow size={14} className="text-[#5d473b]" />
+        <select
+          value={current.id}
+          onChange={(e) => { const flow = options.find(f => f.id === e.target.value); if (flow) apply(flow); }}
+          title={t('flow.title')}
+          className="flex-1 min-w-0 bg-white/80 border border-[#d6cdc1] rounded-lg px-1.5 py-0.5 text-[11px] font-black text-[#3d2e25] focus:outline-none"
+        >
+          {options.map(f => <option key={f.id} value={f.id}>{flowName(f)}</option>)}
+        </select>
+        <button
+          onClick={() => downloadText(`${current.name.replace(/\s+/g, '-')}.flow.json`, exportFlow(current), 'application/json')}
+          title={t('flow.export')}
+          className="p-1 rounded text-[#5d473b] hover:text-[#2c3d38]"
+        >
+          <Download size={14} />
+        </button>
+        <button onClick={() => fileInput.current?.click()} title={t('flow.import')} className="p-1 rounded text-[#5d473b] hover:text-[#2c3d38]">
+          <Upload size={14} />
+        </button>
+        <button onClick={handleDelete} disabled={current.builtIn || !flows.some(f => f.id === current.id)} title={t('flow.delete')} className="p-1 rounded text-red-600/70 hover:text-red-900 disabled:opacity-40">
+          <Trash2 size={14} />
+        </button>
+        <input ref={fileInput} type="file" accept=".json" className="hidden" onChange={handleFile} />
+      </div>
+      {error && <div className="text-[10px] font-bold text-red-800">{error}</div>}
+    </div>
+  );
+};
+
+export default FlowPanel;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { LLMSettings, LLMProviderId, LLM_PROVIDERS } from './llmProviders';
+import { useI18n, MessageKey } from './i18n';
+import { BrainCircuit, ChevronDown } from 'lucide-react';
+
+interface LLMSettingsPanelProps {
+  settings: LLMSettings;
+  onChange: (settings: LLMSettings) => void;
+}
+
+const inputClass = "w-32 bg-white/80 border border-[#d6cdc1] rounded-lg px-1.5 py-0.5 text-[11px] font-mono font-bold text-left focus:outline-none";
+
+const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+
+  const changeProvider = (provider: LLMProviderId) => {
+    const next = { ...draft, provider, model: LLM_PROVIDERS[provider].defaultModel };
+    setDraft(next);
+    onChange(next);
+  };
+
+  // Text fields are applied on blur so typing a URL does not rebuild the provider per keystroke.
+  const commit = () => {
+    if (JSON.stringify(draft) !== JSON.stringify(settings)) onChange(draft);
+  };
+
+  return (
+    <div className="shrink-0 rounded-xl border border-[#d6cdc1] bg-white/60">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 p-2">
+        <BrainCircuit size={14} className="text-[#5d473b]" />
+        <span className="text-[11px] font-black text-[#3d2e25] flex-1 text-start">{t('llm.title')}</span>
+        <span className="text-[10px] font-bold text-[#736d52]">{t(`llmProvider.${settings.provider}` as MessageKey)}</span>
+        <ChevronDown size={14} className={`text-[#5d473b] transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-2 pb-2 space-y-1.5">
+          <label className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('llm.provider')}</span>
+            <select
+              value={draft.provider}
+              onChange={(e) => changeProvider(e.target.value as LLMProviderId)}
+              className="w-32 bg-white/80 border border-[#d6cdc1] rounded-lg px-1 py-0.5 text-[11px] font-bold focus:outline-none"
+            >
+              {(Object.keys(LLM_PROVIDERS) as LLMProviderId[]).map(id => <option key={id} value={id}>{t(`llmProvider.${id}`)}</option>)}
+            </select>
+          </label>
+          {draft.provider !== 'rules' && (
+            <label className="flex items-center gap-2">
+              <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('common.model')}</span>
+              <input value={draft.model} onChange={(e) => setDraft({ ...draft, model: e.target.value })} onBlur={commit} className={inputClass} />
+            </label>
+          )}
+          {draft.provider === 'openai' && (
+            <label className="flex items-center gap-2">
+              <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('common.serverUrl')}</span>
+              <input value={draft.baseUrl} onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })} onBlur={commit} className={inputClass} />
+            </label>
+          )}
+          {draft.provider !== 'rules' && (
+            <label className="flex items-center gap-2">
+              <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('llm.apiKey')}</span>
+              <input type="password" value={draft.apiKey} placeholder={draft.provider === 'gemini' ? t('llm.keyFromEnv') : t('llm.noKey')} onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })} onBlur={commit} className={inputClass} />
+            </label>
+          )}
+          <p className="text-[9px] font-bold text-[#736d52] leading-snug">{t('llm.offlineNote')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LLMSettingsPanel;
@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DiscussionEvent, DiscussionState } from './types';
+import { SessionSyncClient, SyncSnapshot, SyncStatus } from './sessionSync';
+import { I18nContext, createI18n } from './i18n';
+import { StageStyles, speakerColor, stageTheme } from './DiscussionStage';
+import { Smartphone, Hand } from 'lucide-react';
+
+interface ParticipantViewProps {
+  session: string;
+  initialName: string | null;
+}
+
+/** Phone view for one participant: whose turn it is, their own share, raising a hand, passing and voting. */
+const ParticipantView: React.FC<ParticipantViewProps> = ({ session, initialName }) => {
+  const [name, setName] = useState<string | null>(initialName);
+  const [snapshot, setSnapshot] = useState<SyncSnapshot | null>(null);
+  const [status, setStatus] = useState<SyncStatus>('connecting');
+  /** A name the server refused because someone is already connected under it. */
+  const [takenName, setTakenName] = useState<string | null>(null);
+  const clientRef = useRef<SessionSyncClient | null>(null);
+
+  // Reconnect under the chosen name so the facilitator sees who joined.
+  useEffect(() => {
+    const client = new SessionSyncClient(session, 'participant', {
+      onSnapshot: setSnapshot,
+      onStatus: setStatus,
+      onRejected: () => {
+        setTakenName(name);
+        setName(null);
+      },
+    }, { name: name ?? undefined });
+    clientRef.current = client;
+    client.connect();
+    return () => client.close();
+  }, [session, name]);
+
+  // Keep the name in the URL so a refresh lands on the same participant.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (name) params.set('name', name);
+    else params.delete('name');
+    window.history.replaceState(null, '', `${window.location.pathname}?${params}`);
+  }, [name]);
+
+  const language = snapshot?.language ?? 'he';
+  const i18n = useMemo(() => createI18n(language), [language]);
+  const { t } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = i18n.dir;
+  }, [language, i18n]);
+
+  if (!snapshot) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <div className="min-h-screen flex flex-col items-center justify-center gap-3 p-6 bg-[#f2ede4] text-[#d6cdc1]">
+          <Smartphone size={56} strokeWidth={1} />
+          <p className="text-lg font-black text-[#3d2e25]/50 text-center">{t('sync.waiting')}</p>
+          <p className="text-xs font-bold text-[#736d52]">{session} · {t(`sync.status.${status}`)}</p>
+        </div>
+      </I18nContext.Provider>
+    );
+  }
+
+  const { state, context } = snapshot;
+  const theme = stageTheme(state, context, snapshot.quietView, i18n);
+  const me = name && context.speakers.includes(name) ? name : null;
+
+  if (!me) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <div className="min-h-screen p-6 bg-[#f2ede4] space-y-4">
+          <h1 className="text-2xl font-black text-[#3d2e25]">{t('sync.chooseName')}</h1>
+          {takenName && <p className="text-sm font-bold text-red-800">{t('sync.nameTaken', { name: takenName })}</p>}
+          <div className="grid grid-cols-2 gap-3">
+            {context.speakers.map(s => (
+              <button
+                key={s}
+                onClick={() => { setTakenName(null); setName(s); }}
+                className="p-3 rounded-2xl border border-[#d6cdc1] bg-white/80 flex items-center gap-2 font-black text-[#3d2e25] active:scale-95 transition-all"
+              >
+                <span className={`w-8 h-8 rounded-full bg-gradient-to-br ${speakerColor(context, s).gradient} flex items-center justify-center text-white text-sm`}>{s[0]}</span>
+                <span className="truncate">{s}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </I18nContext.Provider>
+    );
+  }
+
+  const holder = state === DiscussionState.STRUCTURED ? context.turnOrder[context.turnIndex] ?? null : null;
+  const next = state === DiscussionState.STRUCTURED ? context.turnOrder[context.turnIndex + 1] ?? null : null;
+  const totalTalk = (Object.values(context.talkTime) as number[]).reduce((a, b) => a + b, 0);
+  const myTalk = context.talkTime[me] || 0;
+  const share = totalTalk > 0 ? Math.round((myTalk / totalTalk) * 100) : 0;
+  const style = speakerColor(context, me);
+  const handPosition = context.raisedHands.indexOf(me);
+  const myVote = context.checkinVotes[me];
+  const send = (event: DiscussionEvent) => clientRef.current?.sendEvent(event);
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      <div className={`min-h-screen p-5 flex flex-col gap-4 transition-colors duration-1000 ${theme.fullBg}`}>
+        <StageStyles />
+        <div className="flex items-center gap-3">
+          <div className={`w-12 h-12 rounded-full bg-gradient-to-br ${style.gradient} border-4 border-white/60 shadow-md flex items-center justify-center text-white font-black text-xl`}>{me[0]}</div>
+          <div className="flex-1 min-w-0">
+            <div className="text-lg font-black text-[#1a1816] truncate">{me}</div>
+            <button onClick={() => setName(null)} className="text-[10px] font-bold text-[#736d52] underline">{t('sync.changeName')}</button>
+          </div>
+        </div>
+
+        <div className="rounded-[2rem] bg-white/70 border border-white/40 shadow-xl p-6 text-center space-y-3">
+          <h1 className={`text-3xl font-black tracking-tighter ${theme.color}`}>{theme.label}</h1>
+          {holder && (
+            <p className={`text-xl font-black ${holder === me ? 'text-[#4a635d]' : 'text-[#3d2e25]'}`}>
+              {holder === me ? t('sync.yourTurn') : t('sync.turnOf', { name: holder })}
+            </p>
+          )}
+          {next && <p className="text-sm font-bold text-[#736d52]">{t('sync.nextUp', { name: next })}</p>}
+          {holder === me && (
+            <button
+              onClick={() => send({ type: 'PASS_TURN' })}
+              title={t('app.passTitle')}
+              className="w-full py-3 rounded-2xl bg-white border border-[#d6cdc1] text-[#5d473b] font-black active:scale-95 transition-all shadow-sm"
+            >
+              {t('app.pass')}
+            </button>
+          )}
+          {state === DiscussionState.CHECKIN ? (
+            <div className="space-y-2 pt-2">
+              <p className="text-sm font-black text-[#3d2e25]">{t('vote.question')}</p>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => send({ type: 'CHECKIN_VOTE', name: me, vote: 'continue' })}
+                  className={`py-3 rounded-2xl border font-black text-sm active:scale-95 transition-all ${myVote === 'continue' ? 'bg-[#4a635d] border-[#2c3d38] text-white shadow-md' : 'bg-white border-[#d6cdc1] text-[#4a635d]'}`}
+                >
+                  {t('vote.continue')}
+                </button>
+                <button
+                  onClick={() => send({ type: 'CHECKIN_VOTE', name: me, vote: 'object' })}
+                  className={`py-3 rounded-2xl border font-black text-sm active:scale-95 transition-all ${myVote === 'object' ? 'bg-[#7d4f38] border-[#5d473b] text-white shadow-md' : 'bg-white border-[#d6cdc1] text-[#7d4f38]'}`}
+                >
+                  {t('vote.object')}
+                </button>
+              </div>
+            </div>
+          ) : holder !== me && (
+            <div className="space-y-1 pt-2">
+              <button
+                onClick={() => send({ type: handPosition >= 0 ? 'LOWER_HAND' : 'RAISE_HAND', name: me })}
+                className={`w-full py-3 rounded-2xl border font-black flex items-center justify-center gap-2 active:scale-95 transition-all ${handPosition >= 0 ? 'bg-[#5d473b] border-[#3d2e25] text-white shadow-md' : 'bg-white border-[#d6cdc1] text-[#5d473b]'}`}
+              >
+                <Hand size={18} /> {handPosition >= 0 ? t('hand.lower') : t('hand.raise')}
+              </button>
+              {handPosition >= 0 && <p className="text-xs font-bold text-[#736d52]">{t('hand.position', { position: handPosition + 1 })}</p>}
+            </div>
+          )}
+        </div>
+
+        <div className="rounded-[2rem] bg-white/70 border border-white/40 shadow-md p-5 flex items-center justify-between">
+          <span className="text-xs font-black text-[#3d2e25]">{t('sync.yourTalk')}</span>
+          <div className="text-end">
+            <div className="text-3xl font-black tabular-nums text-[#1a1816]">{myTalk}<span className="text-base ms-1 text-[#736d52]">s</span></div>
+            <div className="text-[10px] font-bold text-[#736d52]">{t('sync.share', { percent: share })}</div>
+          </div>
+        </div>
+
+        {snapshot.tip && (
+          <div className="rounded-[2rem] bg-[#445e54] text-[#f5f1ea] p-5 text-sm font-bold leading-snug shadow-md">{snapshot.tip}</div>
+        )}
+      </div>
+    </I18nContext.Provider>
+  );
+};
+
+export default ParticipantView;
@@ -0,0 +1,117 @@
+import React, { useState, useRef } from 'react';
+import { FacilitationPreset, EngineContext, SessionLanguage } from './types';
+import { pickEngineConfig, DEFAULT_ENGINE_CONFIG } from './DiscussionEngine';
+import { loadPresets, savePreset, deletePreset, exportPreset, importPreset, normalizePreset } from './presetStore';
+import { downloadText } from './fileUtils';
+import { useI18n, MessageKey } from './i18n';
+import { Bookmark, Save, Trash2, Download, Upload } from 'lucide-react';
+
+interface PresetPanelProps {
+  context: EngineContext;
+  language: SessionLanguage;
+  onApply: (preset: FacilitationPreset) => void;
+}
+
+const PresetPanel: React.FC<PresetPanelProps> = ({ context, language, onApply }) => {
+  const { t } = useI18n();
+  const [presets, setPresets] = useState<FacilitationPreset[]>(() => loadPresets());
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const selected = presets.find(p => p.id === selectedId) || null;
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) onApply(preset);
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      const preset = normalizePreset({
+        name,
+        config: { ...DEFAULT_ENGINE_CONFIG, ...pickEngineConfig(context) },
+        autoMode: context.autoMode,
+        language,
+      });
+      setPresets(savePreset(preset));
+      setSelectedId(preset.id);
+      setNewName("");
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || t('preset.saveFailed'));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    setPresets(deletePreset(selected.id));
+    setSelectedId("");
+  };
+
+  const handleExport = () => {
+    if (!selected) return;
+    downloadText(`${selected.name.replace(/\s+/g, '-')}.preset.json`, exportPreset(selected), 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = importPreset(await file.text());
+      setPresets(savePreset(preset));
+      setSelectedId(preset.id);
+      onApply(preset);
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || t('common.invalidFile'));
+    }
+  };
+
+  return (
+    <div className="shrink-0 rounded-xl border border-[#d6cdc1] bg-white/60 p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <Bookmark size={14} className="text-[#5d473b]" />
+        <select
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 min-w-0 bg-white/80 border border-[#d6cdc1] rounded-lg px-1.5 py-0.5 text-[11px] font-black text-[#3d2e25] focus:outline-none"
+        >
+          <option value="">{t('preset.placeholder')}</option>
+          {presets.map(p => <option key={p.id} value={p.id}>{p.builtIn ? t(`preset.${p.id}` as MessageKey) : p.name}</option>)}
+        </select>
+        <button onClick={handleExport} disabled={!selected} title={t('preset.export')} className="p-1 rounded text-[#5d473b] hover:text-[#2c3d38] disabled:opacity-40">
+          <Download size={14} />
+        </button>
+        <button onClick={() => fileInput.current?.click()} title={t('preset.import')} className="p-1 rounded text-[#5d473b] hover:text-[#2c3d38]">
+          <Upload size={14} />
+        </button>
+        <button onClick={handleDelete} disabled={!selected || selected.builtIn} title={t('preset.delete')} className="p-1 rounded text-red-600/70 hover:text-red-900 disabled:opacity-40">
+          <Trash2 size={14} />
+        </button>
+        <input ref={fileInput} type="file" accept=".json" className="hidden" onChange={handleFile} />
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder={t('preset.saveAs')}
+          className="flex-1 min-w-0 bg-white/80 border border-[#d6cdc1] rounded-lg px-2 py-1 text-[11px] font-bold focus:outline-none"
+        />
+        <button onClick={handleSave} disabled={!newName.trim()} className="p-1.5 rounded-lg bg-[#5d473b] text-white disabled:opacity-50 active:scale-95">
+          <Save size={12} />
+        </button>
+      </div>
+      {error && <div className="text-[10px] font-bold text-red-800">{error}</div>}
+    </div>
+  );
+};
+
+export default PresetPanel;
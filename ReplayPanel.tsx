@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { SessionRecorder, ReplayPlayer, SessionLog, EngineSnapshot, parseSessionLog } from './SessionRecorder';
+import { downloadText } from './fileUtils';
+import { useI18n } from './i18n';
+import { Play, Pause, Download, Upload, History, X } from 'lucide-react';
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+const formatMs = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+interface ReplayPanelProps {
+  recorder: SessionRecorder;
+  /** Receives the replayed snapshot while replaying, or null when back to live. */
+  onReplaySnapshot: (snapshot: EngineSnapshot | null) => void;
+}
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({ recorder, onReplaySnapshot }) => {
+  const { t } = useI18n();
+  const [player, setPlayer] = useState<ReplayPlayer | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const openLog = useCallback((log: SessionLog) => {
+    player?.dispose();
+    const next = new ReplayPlayer(log, (snapshot, positionMs, playing) => {
+      onReplaySnapshot(snapshot);
+      setPosition(positionMs);
+      setIsPlaying(playing);
+    });
+    next.setSpeed(speed);
+    setPlayer(next);
+    setIsPlaying(false);
+    setError(null);
+  }, [player, speed, onReplaySnapshot]);
+
+  const closeReplay = useCallback(() => {
+    player?.dispose();
+    setPlayer(null);
+    setIsPlaying(false);
+    onReplaySnapshot(null);
+  }, [player, onReplaySnapshot]);
+
+  useEffect(() => () => player?.dispose(), [player]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      openLog(parseSessionLog(await file.text()));
+    } catch (err: any) {
+      setError(err?.message || t('common.invalidFile'));
+    }
+  };
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadText(`session-${stamp}.jsonl`, recorder.toJSONL(), 'application/x-ndjson');
+  };
+
+  const togglePlay = () => {
+    if (!player) return;
+    if (player.isPlaying) player.pause();
+    else player.play();
+  };
+
+  const changeSpeed = (value: number) => {
+    setSpeed(value);
+    player?.setSpeed(value);
+  };
+
+  return (
+    <div className="shrink-0 rounded-xl border border-[#d6cdc1] bg-white/60 p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <History size={14} className="text-[#5d473b]" />
+        <span className="text-[11px] font-black text-[#3d2e25] flex-1">{t('replay.title')}</span>
+        <button onClick={handleExport} disabled={recorder.length === 0} title={t('replay.export')} className="p-1 rounded text-[#5d473b] hover:text-[#2c3d38] disabled:opacity-40">
+          <Download size={14} />
+        </button>
+        <button onClick={() => fileInput.current?.click()} title={t('replay.load')} className="p-1 rounded text-[#5d473b] hover:text-[#2c3d38]">
+          <Upload size={14} />
+        </button>
+        <button onClick={() => openLog(recorder.log())} disabled={recorder.length === 0} className="text-[10px] font-black px-2 py-0.5 rounded-full border border-[#d6cdc1] text-[#5d473b] hover:bg-[#ebe6db] disabled:opacity-40">
+          {t('replay.replay')}
+        </button>
+        <input ref={fileInput} type="file" accept=".jsonl,.ndjson,.json" className="hidden" onChange={handleFile} />
+      </div>
+
+      {error && <div className="text-[10px] font-bold text-red-800">{error}</div>}
+
+      {player && (
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-2">
+            <button onClick={togglePlay} className="p-1.5 rounded-lg bg-[#4a635d] text-white active:scale-95">
+              {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={player.duration}
+              step={100}
+              value={position}
+              onChange={(e) => player.seek(Number(e.target.value))}
+              className="flex-1 accent-[#4a635d]"
+            />
+            <button onClick={closeReplay} title={t('replay.backToLive')} className="p-1 rounded text-red-700/70 hover:text-red-900">
+              <X size={14} />
+            </button>
+          </div>
+          <div className="flex items-center justify-between text-[10px] font-mono font-bold text-[#736d52]">
+            <span>{formatMs(position)} / {formatMs(player.duration)}</span>
+            <div className="flex gap-1">
+              {SPEEDS.map(v => (
+                <button
+                  key={v}
+                  onClick={() => changeSpeed(v)}
+                  className={`px-1.5 rounded ${speed === v ? 'bg-[#5d473b] text-white' : 'hover:bg-[#ebe6db]'}`}
+                >
+                  {v}x
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -0,0 +1,63 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DiscussionState } from './types';
+import { SessionSyncClient, SyncSnapshot, SyncStatus } from './sessionSync';
+import { I18nContext, createI18n } from './i18n';
+import DiscussionStage, { StageStyles, stageTheme } from './DiscussionStage';
+import { Projector } from 'lucide-react';
+
+interface RoomDisplayProps {
+  session: string;
+}
+
+/** Read-only projector view: mirrors the facilitator's stage without any controls. */
+const RoomDisplay: React.FC<RoomDisplayProps> = ({ session }) => {
+  const [snapshot, setSnapshot] = useState<SyncSnapshot | null>(null);
+  const [status, setStatus] = useState<SyncStatus>('connecting');
+
+  useEffect(() => {
+    const client = new SessionSyncClient(session, 'room', { onSnapshot: setSnapshot, onStatus: setStatus });
+    client.connect();
+    return () => client.close();
+  }, [session]);
+
+  const language = snapshot?.language ?? 'he';
+  const i18n = useMemo(() => createI18n(language), [language]);
+  const { t } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = i18n.dir;
+  }, [language, i18n]);
+
+  if (!snapshot) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <div className="h-screen w-screen flex flex-col items-center justify-center gap-4 bg-[#f2ede4] text-[#d6cdc1]">
+          <Projector size={80} strokeWidth={1} />
+          <p className="text-2xl font-black text-[#3d2e25]/40 tracking-tight">{t('sync.waiting')}</p>
+          <p className="text-xs font-bold text-[#736d52]">{session} · {t(`sync.status.${status}`)}</p>
+        </div>
+      </I18nContext.Provider>
+    );
+  }
+
+  const { state, context } = snapshot;
+  const theme = stageTheme(state, context, snapshot.quietView, i18n);
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      <div className={`h-screen w-screen flex gap-4 p-4 transition-all duration-1000 overflow-hidden ${theme.fullBg} ${state === DiscussionState.IMBALANCE ? 'imbalance-bg-active' : ''}`}>
+        <StageStyles />
+        <DiscussionStage
+          state={state}
+          context={context}
+          quietView={snapshot.quietView}
+          tip={snapshot.tip}
+          roundSummary={snapshot.roundSummary}
+        />
+      </div>
+    </I18nContext.Provider>
+  );
+};
+
+export default RoomDisplay;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { EngineContext, Roster, SpeakerProfile } from './types';
+import { loadRosters, saveRoster, deleteRoster, createMemberId } from './rosterStore';
+import { SPEAKER_COLORS, speakerColor } from './DiscussionStage';
+import { useI18n } from './i18n';
+import { UsersRound, ChevronDown, Save, Trash2, Download } from 'lucide-react';
+
+interface RosterPanelProps {
+  context: EngineContext;
+  onLoad: (roster: Roster) => void;
+  onProfileChange: (name: string, profile: SpeakerProfile) => void;
+}
+
+/** Saved groups: load a recurring roster, edit roles and colors, or save the current participants. */
+const RosterPanel: React.FC<RosterPanelProps> = ({ context, onLoad, onProfileChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [rosters, setRosters] = useState<Roster[]>(() => loadRosters());
+  const [selectedId, setSelectedId] = useState("");
+  const [newName, setNewName] = useState("");
+
+  const selected = rosters.find(r => r.id === selectedId) || null;
+  const profileOf = (name: string): SpeakerProfile => context.speakerProfiles[name] ?? { id: createMemberId() };
+
+  const cycleColor = (name: string) => {
+    const current = SPEAKER_COLORS.indexOf(speakerColor(context, name));
+    onProfileChange(name, { ...profileOf(name), color: SPEAKER_COLORS[(current + 1) % SPEAKER_COLORS.length].name });
+  };
+
+  const handleRole = (name: string, role: string) => {
+    const profile = profileOf(name);
+    const trimmed = role.trim() || undefined;
+    if (trimmed !== profile.role) onProfileChange(name, { ...profile, role: trimmed });
+  };
+
+  // Saving under an existing name updates that roster; speakers without an identity get one now.
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const members = context.speakers.map(speaker => {
+      const profile = context.speakerProfiles[speaker];
+      if (profile) return { ...profile, name: speaker };
+      const created = { id: createMemberId() };
+      onProfileChange(speaker, created);
+      return { ...created, name: speaker };
+    });
+    const existing = rosters.find(r => r.name === name);
+    const id = existing?.id ?? `roster-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    setRosters(saveRoster({ id, name, members }));
+    setSelectedId(id);
+    setNewName("");
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    setRosters(deleteRoster(selected.id));
+    setSelectedId("");
+  };
+
+  return (
+    <div className="shrink-0 rounded-xl border border-[#d6cdc1] bg-white/60">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 p-2">
+        <UsersRound size={14} className="text-[#5d473b]" />
+        <span className="text-[11px] font-black text-[#3d2e25] flex-1 text-start">{t('roster.title')}</span>
+        <ChevronDown size={14} className={`text-[#5d473b] transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-2 pb-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="flex-1 min-w-0 bg-white/80 border border-[#d6cdc1] rounded-lg px-1.5 py-0.5 text-[11px] font-black text-[#3d2e25] focus:outline-none"
+            >
+              <option value="">{t('roster.placeholder')}</option>
+              {rosters.map(r => <option key={r.id} value={r.id}>{t('roster.option', { name: r.name, count: r.members.length })}</option>)}
+            </select>
+            <button onClick={() => selected && onLoad(selected)} disabled={!selected} title={t('roster.load')} className="p-1 rounded text-[#5d473b] hover:text-[#2c3d38] disabled:opacity-40">
+              <Download size={14} />
+            </button>
+            <button onClick={handleDelete} disabled={!selected} title={t('roster.delete')} className="p-1 rounded text-red-600/70 hover:text-red-900 disabled:opacity-40">
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          {context.speakers.length > 0 && (
+            <div className="space-y-1 max-h-40 overflow-y-auto scrollbar-hide">
+              {context.speakers.map(s => (
+                <div key={s} className="flex items-center gap-2">
+                  <button
+                    onClick={() => cycleColor(s)}
+                    title={t('roster.colorHint')}
+                    className={`w-5 h-5 rounded-full bg-gradient-to-br ${speakerColor(context, s).gradient} shrink-0 shadow-sm`}
+                  />
+                  <span className="text-[11px] font-black text-[#3d2e25] w-16 truncate">{s}</span>
+                  <input
+                    key={context.speakerProfiles[s]?.role ?? ''}
+                    defaultValue={context.speakerProfiles[s]?.role ?? ''}
+                    onBlur={(e) => handleRole(s, e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    placeholder={t('roster.role')}
+                    className="flex-1 min-w-0 bg-white/80 border border-[#d6cdc1] rounded-lg px-2 py-0.5 text-[10px] font-bold focus:outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder={t('roster.saveAs')}
+              className="flex-1 min-w-0 bg-white/80 border border-[#d6cdc1] rounded-lg px-2 py-1 text-[11px] font-bold focus:outline-none"
+            />
+            <button onClick={handleSave} disabled={!newName.trim() || context.speakers.length === 0} className="p-1.5 rounded-lg bg-[#5d473b] text-white disabled:opacity-50 active:scale-95">
+              <Save size={12} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RosterPanel;
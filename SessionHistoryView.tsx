@@ -0,0 +1,293 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { DiscussionState } from './types';
+import { StoredSession, deleteSession, listSessions, renameSession } from './sessionStore';
+import { buildSessionReport, SessionReport } from './sessionReport';
+import { computeFairnessMetrics, METRIC_IDS } from './fairnessMetrics';
+import { buildParticipationTrends, TrendPoint } from './participationTrends';
+import { loadRosters } from './rosterStore';
+import { useI18n, MessageKey } from './i18n';
+import { X, History, FolderOpen, Trash2, Plus, TrendingUp } from 'lucide-react';
+
+interface SessionHistoryViewProps {
+  currentId: string;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRenamed: (id: string, name: string) => void;
+  onClose: () => void;
+}
+
+const MAX_COMPARE = 4;
+
+/** Side-by-side figures for one session in the comparison table. */
+function compareColumn(session: StoredSession, report: SessionReport) {
+  const talkTime = Object.fromEntries(report.speakers.map(s => [s.speaker, s.talkSeconds]));
+  const turnCounts = Object.fromEntries(report.speakers.map(s => [s.speaker, s.turns]));
+  const metrics = computeFairnessMetrics({
+    speakers: report.speakers.map(s => s.speaker),
+    talkTime,
+    totalTalkTime: report.speakers.reduce((acc, s) => acc + s.talkSeconds, 0),
+    turnCounts,
+    interruptionCount: session.snapshot.context.interruptionCount,
+  });
+  const top = report.speakers.reduce((best, s) => (s.share > (best?.share ?? -1) ? s : best), report.speakers[0] ?? null);
+  return {
+    id: session.id,
+    name: session.name,
+    duration: report.durationSeconds,
+    participants: session.speakers.length,
+    turns: report.turns.length,
+    rounds: report.stateEntries[DiscussionState.STRUCTURED],
+    top: top ? `${top.speaker} · ${Math.round(top.share * 100)}%` : '—',
+    metrics,
+  };
+}
+
+/** Talk share per session as a small line; quiet sessions are marked with a dot. */
+const ShareSparkline: React.FC<{ points: TrendPoint[] }> = ({ points }) => {
+  const w = 120, h = 28;
+  const max = Math.max(0.01, ...points.map(p => p.share));
+  const x = (i: number) => points.length > 1 ? (i / (points.length - 1)) * (w - 6) + 3 : w / 2;
+  const y = (share: number) => h - 3 - (share / max) * (h - 6);
+  return (
+    <svg width={w} height={h} className="overflow-visible">
+      <polyline points={points.map((p, i) => `${x(i)},${y(p.share)}`).join(' ')} fill="none" stroke="#4a635d" strokeWidth="2" />
+      {points.map((p, i) => <circle key={p.sessionId} cx={x(i)} cy={y(p.share)} r={p.quiet ? 3 : 1.5} fill={p.quiet ? '#a66e51' : '#4a635d'} />)}
+    </svg>
+  );
+};
+
+/** Past sessions stored in this browser: reopen, rename, delete, or compare a few side by side. */
+const SessionHistoryView: React.FC<SessionHistoryViewProps> = ({ currentId, onOpen, onNew, onRenamed, onClose }) => {
+  const { t, language } = useI18n();
+  const [sessions, setSessions] = useState<StoredSession[] | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [tab, setTab] = useState<'sessions' | 'trends'>('sessions');
+  const [rosters] = useState(loadRosters);
+  const [rosterFilter, setRosterFilter] = useState("");
+
+  const refresh = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => {
+        console.error("Session storage error:", error);
+        setSessions([]);
+      });
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const handleRename = (session: StoredSession, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === session.name) return;
+    renameSession(session.id, trimmed)
+      .then(() => { onRenamed(session.id, trimmed); refresh(); })
+      .catch(error => console.error("Session storage error:", error));
+  };
+
+  const handleDelete = (session: StoredSession) => {
+    if (!window.confirm(t('history.confirmDelete', { name: session.name }))) return;
+    setCompareIds(prev => prev.filter(id => id !== session.id));
+    deleteSession(session.id)
+      .then(refresh)
+      .catch(error => console.error("Session storage error:", error));
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : prev.length < MAX_COMPARE ? [...prev, id] : prev);
+  };
+
+  // Replaying a log is the costly part, so each session is reported once per list load.
+  const reports = useMemo(
+    () => new Map((sessions ?? []).map(s => [s.id, buildSessionReport(s.log)])),
+    [sessions]
+  );
+  const allTrends = useMemo(() => buildParticipationTrends(sessions ?? [], reports), [sessions, reports]);
+  const trends = useMemo(() => {
+    const roster = rosters.find(r => r.id === rosterFilter);
+    return roster ? allTrends.filter(tr => roster.members.some(m => m.id === tr.id)) : allTrends;
+  }, [allTrends, rosters, rosterFilter]);
+  const columns = useMemo(
+    () => (sessions ?? []).filter(s => compareIds.includes(s.id)).map(s => compareColumn(s, reports.get(s.id)!)),
+    [sessions, reports, compareIds]
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#1a1816]/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-[#f5f1ea] rounded-[2rem] shadow-2xl border border-[#d6cdc1] w-full max-w-4xl max-h-full overflow-y-auto p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <History className="w-7 h-7 text-[#5d473b]" />
+            <h2 className="text-3xl font-black text-[#3d2e25] tracking-tight">{t('history.title')}</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={onNew} className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-[#4a635d] text-xs font-black text-white hover:bg-[#2c3d38]">
+              <Plus size={14} /> {t('history.new')}
+            </button>
+            <button onClick={onClose} className="p-2 rounded-xl text-[#5d473b] hover:bg-[#ebe6db]">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {(['sessions', 'trends'] as const).map(id => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-black border ${tab === id ? 'bg-[#5d473b] border-[#3d2e25] text-white' : 'bg-white/60 border-[#d6cdc1] text-[#5d473b] hover:bg-white'}`}
+            >
+              {id === 'trends' ? <TrendingUp size={14} /> : <History size={14} />} {t(`history.tab.${id}`)}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'trends' && sessions && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <p className="text-[11px] font-bold text-[#736d52] flex-1">{t('trends.hint')}</p>
+              <select
+                value={rosterFilter}
+                onChange={(e) => setRosterFilter(e.target.value)}
+                className="bg-white/80 border border-[#d6cdc1] rounded-lg px-1.5 py-0.5 text-[11px] font-black text-[#3d2e25] focus:outline-none"
+              >
+                <option value="">{t('trends.allPeople')}</option>
+                {rosters.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+              </select>
+            </div>
+            {trends.length === 0 ? (
+              <p className="text-lg font-black text-[#3d2e25]/40 text-center py-10">{t('history.empty')}</p>
+            ) : (
+              <table className="w-full text-sm bg-white/70 rounded-xl overflow-hidden">
+                <thead className="bg-[#ebe6db] text-[#3d2e25]">
+                  <tr>
+                    <th className="p-2 text-start">{t('report.participant')}</th>
+                    <th className="p-2 text-start">{t('trends.sessions')}</th>
+                    <th className="p-2 text-start">{t('trends.averageShare')}</th>
+                    <th className="p-2 text-start">{t('trends.quietRate')}</th>
+                    <th className="p-2 text-start">{t('trends.shareOverTime')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trends.map(tr => (
+                    <tr key={tr.id} className="border-t border-[#ebe6db]">
+                      <td className="p-2 font-black text-[#3d2e25]">
+                        {tr.name}
+                        {tr.role && <span className="ms-1 text-[10px] font-bold text-[#736d52]">{tr.role}</span>}
+                      </td>
+                      <td className="p-2 tabular-nums">{tr.points.length}</td>
+                      <td className="p-2 tabular-nums">{Math.round(tr.averageShare * 100)}%</td>
+                      <td className="p-2 tabular-nums">{Math.round(tr.quietRate * 100)}%</td>
+                      <td className="p-2"><ShareSparkline points={tr.points} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {tab === 'sessions' && sessions && sessions.length === 0 && (
+          <p className="text-lg font-black text-[#3d2e25]/40 text-center py-10">{t('history.empty')}</p>
+        )}
+
+        {tab === 'sessions' && sessions && sessions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-[11px] font-bold text-[#736d52]">{t('history.compareHint', { max: MAX_COMPARE })}</p>
+            {sessions.map(session => {
+              const isCurrent = session.id === currentId;
+              return (
+                <div key={session.id} className={`flex items-center gap-3 p-3 rounded-xl border ${isCurrent ? 'bg-white border-[#4a635d]/50' : 'bg-white/60 border-[#d6cdc1]'}`}>
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(session.id)}
+                    onChange={() => toggleCompare(session.id)}
+                    title={t('history.compare')}
+                    className="accent-[#4a635d]"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <input
+                      key={session.name}
+                      defaultValue={session.name}
+                      onBlur={(e) => handleRename(session, e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      title={t('history.rename')}
+                      className="w-full bg-transparent font-black text-sm text-[#3d2e25] focus:outline-none focus:bg-white rounded px-1"
+                    />
+                    <div className="text-[10px] font-bold text-[#736d52] px-1">
+                      {t('history.meta', {
+                        date: new Date(session.updatedAt).toLocaleString(language),
+                        participants: session.speakers.length,
+                        duration: reports.get(session.id)?.durationSeconds ?? 0,
+                      })}
+                      {isCurrent && <span className="ms-2 text-[#4a635d]">{t('history.current')}</span>}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onOpen(session.id)}
+                    disabled={isCurrent}
+                    title={t('history.open')}
+                    className="p-2 rounded-lg text-[#4a635d] hover:bg-[#ebe6db] disabled:opacity-30"
+                  >
+                    <FolderOpen size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session)}
+                    disabled={isCurrent}
+                    title={t('history.delete')}
+                    className="p-2 rounded-lg text-red-700/70 hover:bg-[#ebe6db] hover:text-red-900 disabled:opacity-30"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {tab === 'sessions' && columns.length >= 2 && (
+          <div>
+            <h3 className="text-sm font-black text-[#3d2e25] mb-2">{t('history.comparison')}</h3>
+            <table className="w-full text-sm bg-white/70 rounded-xl overflow-hidden">
+              <thead className="bg-[#ebe6db] text-[#3d2e25]">
+                <tr>
+                  <th className="p-2 text-start"></th>
+                  {columns.map(c => <th key={c.id} className="p-2 text-start truncate">{c.name}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-t border-[#ebe6db]">
+                  <td className="p-2 font-bold text-[#736d52]">{t('report.duration')}</td>
+                  {columns.map(c => <td key={c.id} className="p-2 tabular-nums">{c.duration}s</td>)}
+                </tr>
+                <tr className="border-t border-[#ebe6db]">
+                  <td className="p-2 font-bold text-[#736d52]">{t('history.participants')}</td>
+                  {columns.map(c => <td key={c.id} className="p-2 tabular-nums">{c.participants}</td>)}
+                </tr>
+                <tr className="border-t border-[#ebe6db]">
+                  <td className="p-2 font-bold text-[#736d52]">{t('report.turns')}</td>
+                  {columns.map(c => <td key={c.id} className="p-2 tabular-nums">{c.turns}</td>)}
+                </tr>
+                <tr className="border-t border-[#ebe6db]">
+                  <td className="p-2 font-bold text-[#736d52]">{t('history.rounds')}</td>
+                  {columns.map(c => <td key={c.id} className="p-2 tabular-nums">{c.rounds}</td>)}
+                </tr>
+                <tr className="border-t border-[#ebe6db]">
+                  <td className="p-2 font-bold text-[#736d52]">{t('history.topShare')}</td>
+                  {columns.map(c => <td key={c.id} className="p-2">{c.top}</td>)}
+                </tr>
+                {METRIC_IDS.map(id => (
+                  <tr key={id} className="border-t border-[#ebe6db]">
+                    <td className="p-2 font-bold text-[#736d52]">{t(`metric.${id}` as MessageKey)}</td>
+                    {columns.map(c => <td key={c.id} className="p-2 tabular-nums">{c.metrics[id].toFixed(2)}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistoryView;
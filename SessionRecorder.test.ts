@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DiscussionEngine, DEFAULT_FLOW } from './DiscussionEngine';
+import { SessionRecorder, resumeRecording } from './SessionRecorder';
+import { buildSessionReport } from './sessionReport';
+
+const SPEAKERS = ['Ada', 'Ben'];
+
+test('a rejected flow or config is not recorded and the session still resumes', () => {
+  const engine = new DiscussionEngine(SPEAKERS);
+  const recorder = new SessionRecorder(engine, SPEAKERS);
+  recorder.send({ type: 'SPEAKER_SET', name: 'Ada' });
+  recorder.send({ type: 'TICK', seconds: 1 });
+  assert.throws(() => recorder.send({ type: 'SET_CONFIG', config: { imbalanceScoreThreshold: 2 } }), /imbalanceScoreThreshold/);
+  assert.throws(() => recorder.send({ type: 'SET_FLOW', flow: { ...DEFAULT_FLOW, initial: 'missing' } }), /Invalid flow/);
+  assert.throws(() => recorder.send({ type: 'APPLY_PRESET', config: { turnHoldSeconds: 0 }, autoMode: true }), /turnHoldSeconds/);
+  recorder.send({ type: 'TICK', seconds: 1 });
+  assert.equal(recorder.length, 3);
+
+  const { engine: resumed } = resumeRecording(recorder.log());
+  assert.equal(resumed.snapshot().context.talkTime.Ada, 2);
+});
+
+test('a stored log that already holds a rejected event still resumes and reports', () => {
+  const engine = new DiscussionEngine(SPEAKERS);
+  const recorder = new SessionRecorder(engine, SPEAKERS);
+  recorder.send({ type: 'SPEAKER_SET', name: 'Ben' });
+  recorder.send({ type: 'TICK', seconds: 1 });
+  const log = recorder.log();
+  // As written by a recorder that logged events before the engine rejected them.
+  log.events.push(
+    { kind: 'event', seq: 2, at: 1000, event: { type: 'SET_CONFIG', config: { imbalanceScoreThreshold: 2 } } },
+    { kind: 'event', seq: 3, at: 1000, event: { type: 'TICK', seconds: 1 } },
+  );
+
+  const { engine: resumed, recorder: continued } = resumeRecording(log);
+  assert.equal(resumed.snapshot().context.talkTime.Ben, 2);
+  continued.send({ type: 'TICK', seconds: 1 });
+  assert.equal(resumed.snapshot().context.talkTime.Ben, 3);
+  assert.equal(buildSessionReport(continued.log()).speakers.find(s => s.speaker === 'Ben')?.talkSeconds, 3);
+});
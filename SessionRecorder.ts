@@ -0,0 +1,220 @@
+import { DiscussionEngine, validateEvent } from './DiscussionEngine';
+import { SessionClock, TimeSource, monotonicTime } from './sessionClock';
+import { DiscussionEvent, EngineContext, EngineSnapshot } from './types';
+
+export const SESSION_LOG_VERSION = 1;
+
+/** First line of every session log: everything needed to construct an identical engine. */
+export interface SessionLogHeader {
+  kind: 'header';
+  version: number;
+  startedAt: string;
+  speakers: string[];
+  config: Partial<EngineContext>;
+}
+
+export interface RecordedEvent {
+  kind: 'event';
+  seq: number;
+  /** Milliseconds since the start of the recording. */
+  at: number;
+  event: DiscussionEvent;
+}
+
+export interface SessionLog {
+  header: SessionLogHeader;
+  events: RecordedEvent[];
+}
+
+export type { EngineSnapshot };
+
+/**
+ * Wraps a DiscussionEngine and records every event passed to send()
+ * with a timestamp, so the session can be exported and replayed later.
+ */
+export class SessionRecorder {
+  private header: SessionLogHeader;
+  private events: RecordedEvent[] = [];
+  private startMs: number;
+
+  constructor(
+    private readonly engine: DiscussionEngine,
+    speakers: string[],
+    config: Partial<EngineContext> = {},
+    private readonly now: () => number = () => Date.now()
+  ) {
+    this.startMs = this.now();
+    this.header = {
+      kind: 'header',
+      version: SESSION_LOG_VERSION,
+      startedAt: new Date(this.startMs).toISOString(),
+      speakers: [...speakers],
+      config: { ...config },
+    };
+  }
+
+  /** Throws, before anything is recorded, when the engine would reject the event. */
+  public send(event: DiscussionEvent) {
+    const errors = validateEvent(event);
+    if (errors.length > 0) throw new Error(errors.join('; '));
+    this.events.push({ kind: 'event', seq: this.events.length, at: this.now() - this.startMs, event });
+    this.engine.send(event);
+  }
+
+  public get length() {
+    return this.events.length;
+  }
+
+  public log(): SessionLog {
+    return { header: this.header, events: [...this.events] };
+  }
+
+  /**
+   * Continues a saved recording: new events are appended after the saved ones, timed
+   * from the original start. The engine must already reflect the saved events.
+   */
+  public restore(log: SessionLog) {
+    const startMs = Date.parse(log.header.startedAt);
+    if (Number.isFinite(startMs)) this.startMs = startMs;
+    this.header = { ...log.header };
+    this.events = [...log.events];
+  }
+
+  /** Serializes the log as JSON lines: header first, then one event per line. */
+  public toJSONL(): string {
+    return serializeSessionLog(this.log());
+  }
+}
+
+export function serializeSessionLog(log: SessionLog): string {
+  return [log.header, ...log.events].map(line => JSON.stringify(line)).join('\n') + '\n';
+}
+
+export function parseSessionLog(text: string): SessionLog {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  if (lines.length === 0) throw new Error('Session log is empty');
+
+  const header = JSON.parse(lines[0]) as SessionLogHeader;
+  if (header.kind !== 'header') throw new Error('Session log is missing its header line');
+  if (header.version > SESSION_LOG_VERSION) throw new Error(`Unsupported session log version ${header.version}`);
+
+  const events = lines.slice(1).map((line, i) => {
+    const entry = JSON.parse(line) as RecordedEvent;
+    if (entry.kind !== 'event' || !entry.event?.type) throw new Error(`Invalid session log entry on line ${i + 2}`);
+    return entry;
+  });
+  return { header, events };
+}
+
+/** Logs from before events were checked on recording may hold ones the engine rejects; replays skip them. */
+export function replayEvent(engine: DiscussionEngine, event: DiscussionEvent) {
+  if (validateEvent(event).length === 0) engine.send(event);
+}
+
+/** Rebuilds engine state at `positionMs` by re-feeding the log into a fresh engine. */
+export function replayTo(log: SessionLog, positionMs: number): DiscussionEngine {
+  const engine = new DiscussionEngine(log.header.speakers, log.header.config);
+  for (const entry of log.events) {
+    if (entry.at > positionMs) break;
+    replayEvent(engine, entry.event);
+  }
+  return engine;
+}
+
+/** Rebuilds the engine and recorder of a saved session so it can continue where it stopped. */
+export function resumeRecording(log: SessionLog): { engine: DiscussionEngine, recorder: SessionRecorder } {
+  const engine = replayTo(log, Infinity);
+  const recorder = new SessionRecorder(engine, log.header.speakers, log.header.config);
+  recorder.restore(log);
+  return { engine, recorder };
+}
+
+/**
+ * Time-based playback over a session log with play/pause/seek/speed.
+ * Forward playback feeds events incrementally; seeking backwards rebuilds from scratch.
+ */
+export class ReplayPlayer {
+  private engine: DiscussionEngine;
+  private cursor = 0;
+  private position = 0;
+  private clock: SessionClock;
+  private timer: number | null = null;
+
+  constructor(
+    private readonly log: SessionLog,
+    private readonly onChange: (snapshot: EngineSnapshot, positionMs: number, isPlaying: boolean) => void,
+    time: TimeSource = monotonicTime
+  ) {
+    this.clock = new SessionClock(time);
+    this.engine = new DiscussionEngine(log.header.speakers, log.header.config);
+    this.seek(0);
+  }
+
+  public get duration() {
+    return this.log.events.length > 0 ? this.log.events[this.log.events.length - 1].at : 0;
+  }
+
+  public get isPlaying() {
+    return this.timer !== null;
+  }
+
+  public get currentSpeed() {
+    return this.clock.speed;
+  }
+
+  public setSpeed(speed: number) {
+    this.clock.setSpeed(Math.max(0.1, speed));
+  }
+
+  public play() {
+    if (this.isPlaying) return;
+    if (this.position >= this.duration) this.seek(0);
+    this.clock.start();
+    this.timer = window.setInterval(() => {
+      this.advanceTo(Math.min(this.clock.elapsedSeconds() * 1000, this.duration));
+      if (this.position >= this.duration) this.stopTimer();
+      this.emit();
+    }, 100);
+    this.emit();
+  }
+
+  public pause() {
+    this.stopTimer();
+    this.emit();
+  }
+
+  public seek(positionMs: number) {
+    const target = Math.max(0, Math.min(positionMs, this.duration));
+    if (target < this.position) {
+      this.engine = new DiscussionEngine(this.log.header.speakers, this.log.header.config);
+      this.cursor = 0;
+    }
+    this.advanceTo(target);
+    this.clock.seek(target / 1000);
+    this.emit();
+  }
+
+  public dispose() {
+    this.stopTimer();
+  }
+
+  private stopTimer() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+    this.clock.stop();
+    this.clock.seek(this.position / 1000);
+  }
+
+  private emit() {
+    this.onChange(this.engine.snapshot(), this.position, this.isPlaying);
+  }
+
+  private advanceTo(positionMs: number) {
+    const events = this.log.events;
+    while (this.cursor < events.length && events[this.cursor].at <= positionMs) {
+      replayEvent(this.engine, events[this.cursor].event);
+      this.cursor += 1;
+    }
+    this.position = positionMs;
+  }
+}
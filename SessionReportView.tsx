@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import { SessionLog } from './SessionRecorder';
+import { DiscussionState } from './types';
+import { buildSessionReport, reportToCsv, reportToHtml, timelineSvg, dominanceSvg } from './sessionReport';
+import { METRIC_IDS } from './fairnessMetrics';
+import { downloadText } from './fileUtils';
+import { useI18n } from './i18n';
+import { X, FileSpreadsheet, FileText, Printer } from 'lucide-react';
+
+interface SessionReportViewProps {
+  log: SessionLog;
+  threshold: number;
+  onClose: () => void;
+}
+
+const SessionReportView: React.FC<SessionReportViewProps> = ({ log, threshold, onClose }) => {
+  const { t, language } = useI18n();
+  const report = useMemo(() => buildSessionReport(log), [log]);
+  const stamp = report.startedAt.replace(/[:.]/g, '-');
+
+  const handlePrint = () => {
+    const win = window.open('', '_blank');
+    if (!win) return;
+    win.document.write(reportToHtml(report, threshold, language));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#1a1816]/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-[#f5f1ea] rounded-[2rem] shadow-2xl border border-[#d6cdc1] w-full max-w-4xl max-h-full overflow-y-auto p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-black text-[#3d2e25] tracking-tight">{t('report.title')}</h2>
+            <div className="text-xs font-bold text-[#736d52]">{t('report.summaryLine', { duration: report.durationSeconds, turns: report.turns.length })}</div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => downloadText(`report-${stamp}.csv`, reportToCsv(report), 'text/csv')} className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-white/80 border border-[#d6cdc1] text-xs font-black text-[#5d473b] hover:bg-white">
+              <FileSpreadsheet size={14} /> CSV
+            </button>
+            <button onClick={() => downloadText(`report-${stamp}.html`, reportToHtml(report, threshold, language), 'text/html')} className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-white/80 border border-[#d6cdc1] text-xs font-black text-[#5d473b] hover:bg-white">
+              <FileText size={14} /> HTML
+            </button>
+            <button onClick={handlePrint} className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-[#4a635d] text-xs font-black text-white hover:bg-[#2c3d38]">
+              <Printer size={14} /> PDF
+            </button>
+            <button onClick={onClose} className="p-2 rounded-xl text-[#5d473b] hover:bg-[#ebe6db]">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {report.turns.length === 0 ? (
+          <p className="text-lg font-black text-[#3d2e25]/40 text-center py-10">{t('report.empty')}</p>
+        ) : (
+          <>
+            <table className="w-full text-sm bg-white/70 rounded-xl overflow-hidden">
+              <thead className="bg-[#ebe6db] text-[#3d2e25]">
+                <tr>
+                  <th className="p-2 text-start">{t('report.participant')}</th>
+                  <th className="p-2 text-start">{t('report.talkTime')}</th>
+                  <th className="p-2 text-start">{t('report.share')}</th>
+                  <th className="p-2 text-start">{t('report.turns')}</th>
+                  <th className="p-2 text-start">{t('report.timeToFirst')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.speakers.map(s => (
+                  <tr key={s.speaker} className="border-t border-[#d6cdc1]/60 font-bold text-[#3d2e25]">
+                    <td className="p-2">{s.speaker}</td>
+                    <td className="p-2 tabular-nums">{s.talkSeconds}s</td>
+                    <td className="p-2 tabular-nums">{(s.share * 100).toFixed(0)}%</td>
+                    <td className="p-2 tabular-nums">{s.turns}</td>
+                    <td className="p-2 tabular-nums">{s.timeToFirstContribution === null ? '—' : `${s.timeToFirstContribution}s`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {report.topics.length > 0 && (
+              <section>
+                <h3 className="text-sm font-black text-[#4a635d] mb-2">{t('report.topics')}</h3>
+                <table className="w-full text-sm bg-white/70 rounded-xl overflow-hidden">
+                  <thead className="bg-[#ebe6db] text-[#3d2e25]">
+                    <tr>
+                      <th className="p-2 text-start">{t('report.topic')}</th>
+                      <th className="p-2 text-start">{t('report.timebox')}</th>
+                      <th className="p-2 text-start">{t('report.topSpeaker')}</th>
+                      {METRIC_IDS.map(id => <th key={id} className="p-2 text-start">{t(`metric.${id}`)}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.topics.map(topic => (
+                      <tr key={topic.id} className="border-t border-[#d6cdc1]/60 font-bold text-[#3d2e25]">
+                        <td className="p-2">{topic.title}</td>
+                        <td className={`p-2 tabular-nums ${topic.durationSeconds > topic.timeboxSeconds ? 'text-red-800' : ''}`}>{topic.durationSeconds}s / {topic.timeboxSeconds}s</td>
+                        <td className="p-2">{topic.topSpeaker === null ? '—' : `${topic.topSpeaker} (${(topic.topShare * 100).toFixed(0)}%)`}</td>
+                        {METRIC_IDS.map(id => <td key={id} className="p-2 tabular-nums">{topic.metrics[id].toFixed(2)}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            <section>
+              <h3 className="text-sm font-black text-[#4a635d] mb-2">{t('report.timeline')}</h3>
+              <div dir="ltr" className="overflow-x-auto" dangerouslySetInnerHTML={{ __html: timelineSvg(report) }} />
+            </section>
+
+            <section>
+              <h3 className="text-sm font-black text-[#4a635d] mb-2">{t('report.dominanceOverTime')}</h3>
+              <div dir="ltr" className="overflow-x-auto" dangerouslySetInnerHTML={{ __html: dominanceSvg(report, threshold) }} />
+            </section>
+
+            <div className="grid grid-cols-2 gap-4">
+              <section>
+                <h3 className="text-sm font-black text-[#4a635d] mb-2">{t('report.stateEntries')}</h3>
+                <ul className="space-y-1 text-sm font-bold text-[#3d2e25]">
+                  {Object.entries(report.stateEntries).map(([st, count]) => (
+                    <li key={st} className="flex justify-between bg-white/60 rounded-lg px-3 py-1"><span>{t(`state.${st as DiscussionState}`)}</span><span className="tabular-nums">{count}</span></li>
+                  ))}
+                </ul>
+              </section>
+              <section>
+                <h3 className="text-sm font-black text-[#4a635d] mb-2">{t('report.longestMonologues')}</h3>
+                <ul className="space-y-1 text-sm font-bold text-[#3d2e25]">
+                  {report.longestMonologues.map((turn, i) => (
+                    <li key={i} className="flex justify-between bg-white/60 rounded-lg px-3 py-1"><span>{turn.speaker}</span><span className="tabular-nums">{turn.end - turn.start}s ({turn.start}s)</span></li>
+                  ))}
+                </ul>
+              </section>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionReportView;
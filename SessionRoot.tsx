@@ -0,0 +1,43 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { StoredSession, createSessionId, getActiveSessionId, loadSession } from './sessionStore';
+import App from './App';
+
+interface OpenSession {
+  id: string;
+  session: StoredSession | null;
+}
+
+async function openSession(id: string | null): Promise<OpenSession> {
+  if (id) {
+    try {
+      const session = await loadSession(id);
+      if (session) return { id, session };
+    } catch (error) {
+      console.error("Session storage error:", error);
+    }
+  }
+  return { id: createSessionId(), session: null };
+}
+
+/**
+ * Picks which session the facilitator console runs: the one that was active before a
+ * reload, one reopened from the history, or a fresh one. Switching remounts the console.
+ */
+const SessionRoot: React.FC = () => {
+  const [open, setOpen] = useState<OpenSession | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    openSession(getActiveSessionId()).then(next => { if (!cancelled) setOpen(next); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const switchTo = useCallback((id: string | null) => {
+    openSession(id).then(setOpen);
+  }, []);
+
+  if (!open) return <div className="h-screen w-screen bg-[#f2ede4]" />;
+  return <App key={open.id} sessionId={open.id} session={open.session} onSwitchSession={switchTo} />;
+};
+
+export default SessionRoot;
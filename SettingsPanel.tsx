@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { EngineConfig, EngineContext, ImbalanceMetric, TurnOrderStrategy } from './types';
+import { DEFAULT_ENGINE_CONFIG, validateEngineConfig } from './DiscussionEngine';
+import { METRIC_IDS } from './fairnessMetrics';
+import { TURN_ORDER_IDS } from './turnOrdering';
+import { useI18n } from './i18n';
+import { Settings2, ChevronDown, RotateCcw } from 'lucide-react';
+
+type NumericConfigKey = Exclude<keyof EngineConfig, 'imbalanceMetric' | 'metricWeights' | 'turnOrderStrategy'>;
+
+const FIELDS: { key: NumericConfigKey, step: number }[] = [
+  { key: 'imbalanceScoreThreshold', step: 0.05 },
+  { key: 'gracePeriodSeconds', step: 1 },
+  { key: 'monologueLimitSeconds', step: 1 },
+  { key: 'imbalanceHoldSeconds', step: 1 },
+  { key: 'imbalanceStateSeconds', step: 1 },
+  { key: 'nudgeHoldSeconds', step: 1 },
+  { key: 'turnHoldSeconds', step: 5 },
+  { key: 'adaptiveTurnBoost', step: 0.1 },
+  { key: 'pauseSeconds', step: 1 },
+  { key: 'checkinSeconds', step: 1 },
+  { key: 'checkinObjectionQuorum', step: 1 },
+  { key: 'interrupterThreshold', step: 1 },
+  { key: 'imbalanceWindowSeconds', step: 30 },
+  { key: 'windowBucketSeconds', step: 1 },
+  { key: 'windowDecayHalfLifeSeconds', step: 30 },
+  { key: 'agendaWarningSeconds', step: 15 },
+];
+
+interface SettingsPanelProps {
+  context: EngineContext;
+  onChange: (config: Partial<EngineConfig>) => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ context, onChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [drafts, setDrafts] = useState<Partial<Record<NumericConfigKey, string>>>({});
+  const [errors, setErrors] = useState<Partial<Record<NumericConfigKey, string>>>({});
+
+  // Drop drafts that the engine has caught up with (or that were changed elsewhere, e.g. a replayed SET_CONFIG).
+  useEffect(() => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      (Object.keys(next) as NumericConfigKey[]).forEach(key => {
+        if (Number(next[key]) === context[key]) delete next[key];
+      });
+      return next;
+    });
+  }, [context]);
+
+  const handleInput = (key: NumericConfigKey, raw: string) => {
+    setDrafts(prev => ({ ...prev, [key]: raw }));
+    const value = raw.trim() === '' ? NaN : Number(raw);
+    const problems = validateEngineConfig({ [key]: value });
+    setErrors(prev => ({ ...prev, [key]: problems[0] }));
+    if (problems.length === 0) onChange({ [key]: value });
+  };
+
+  const handleWeight = (id: ImbalanceMetric, raw: string) => {
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(value) || value < 0) return;
+    onChange({ metricWeights: { ...context.metricWeights, [id]: value } });
+  };
+
+  const resetDefaults = () => {
+    setDrafts({});
+    setErrors({});
+    onChange({ ...DEFAULT_ENGINE_CONFIG });
+  };
+
+  return (
+    <div className="shrink-0 rounded-xl border border-[#d6cdc1] bg-white/60">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 p-2">
+        <Settings2 size={14} className="text-[#5d473b]" />
+        <span className="text-[11px] font-black text-[#3d2e25] flex-1 text-start">{t('settings.title')}</span>
+        <ChevronDown size={14} className={`text-[#5d473b] transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-2 pb-2 space-y-1.5 max-h-56 overflow-y-auto scrollbar-hide">
+          <label className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('settings.metric')}</span>
+            <select
+              value={context.imbalanceMetric}
+              onChange={(e) => onChange({ imbalanceMetric: e.target.value as EngineConfig['imbalanceMetric'] })}
+              className="w-24 bg-white/80 border border-[#d6cdc1] rounded-lg px-1 py-0.5 text-[11px] font-bold focus:outline-none"
+            >
+              {METRIC_IDS.map(id => <option key={id} value={id}>{t(`metric.${id}`)}</option>)}
+              <option value="weighted">{t('settings.weighted')}</option>
+            </select>
+          </label>
+          {context.imbalanceMetric === 'weighted' && METRIC_IDS.map(id => (
+            <label key={id} className="flex items-center gap-2 pr-3">
+              <span className="text-[10px] font-bold text-[#736d52] flex-1">{t('settings.weight', { metric: t(`metric.${id}`) })}</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={context.metricWeights[id]}
+                onChange={(e) => handleWeight(id, e.target.value)}
+                className="w-16 bg-white/80 border border-[#d6cdc1] rounded-lg px-1.5 py-0.5 text-[11px] font-mono font-bold text-left focus:outline-none"
+              />
+            </label>
+          ))}
+          <label className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('settings.turnOrder')}</span>
+            <select
+              value={context.turnOrderStrategy}
+              onChange={(e) => onChange({ turnOrderStrategy: e.target.value as TurnOrderStrategy })}
+              className="w-24 bg-white/80 border border-[#d6cdc1] rounded-lg px-1 py-0.5 text-[11px] font-bold focus:outline-none"
+            >
+              {TURN_ORDER_IDS.map(id => <option key={id} value={id}>{t(`turnOrder.${id}`)}</option>)}
+            </select>
+          </label>
+          {FIELDS.map(({ key, step }) => (
+            <label key={key} className="flex items-center gap-2">
+              <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t(`settings.field.${key}`)}</span>
+              <input
+                type="number"
+                min={0}
+                step={step}
+                value={drafts[key] ?? String(context[key])}
+                onChange={(e) => handleInput(key, e.target.value)}
+                title={errors[key]}
+                className={`w-16 bg-white/80 border rounded-lg px-1.5 py-0.5 text-[11px] font-mono font-bold text-left focus:outline-none ${errors[key] ? 'border-red-400 text-red-800' : 'border-[#d6cdc1]'}`}
+              />
+            </label>
+          ))}
+          <button onClick={resetDefaults} className="w-full mt-1 flex items-center justify-center gap-1.5 text-[10px] font-black text-[#5d473b] py-1 rounded-lg border border-[#d6cdc1] hover:bg-[#ebe6db]">
+            <RotateCcw size={11} /> {t('settings.reset')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,257 @@
+export interface VoiceProfile {
+  name: string;
+  /** Mean MFCC vector over the enrollment sample (c0 excluded). */
+  mean: number[];
+  /** Per-coefficient standard deviation over the enrollment sample. */
+  std: number[];
+  /** Number of speech frames the profile was built from. */
+  frames: number;
+}
+
+export interface SpeakerMatch {
+  /** Best-matching enrolled speaker, or null when the segment is unattributed. */
+  name: string | null;
+  confidence: number;
+}
+
+export interface SpeakerIdentifierOptions {
+  /** Number of cepstral coefficients kept (excluding c0). */
+  numCoefficients: number;
+  numMelFilters: number;
+  /** Minimum posterior for a match to be attributed to a speaker. */
+  confidenceThreshold: number;
+  /** Distance of the implicit "unknown speaker" class; larger values accept more. */
+  rejectDistance: number;
+  /** Speech frames averaged together before a runtime decision. */
+  windowFrames: number;
+  /** Minimum speech frames needed to finish an enrollment. */
+  minEnrollmentFrames: number;
+}
+
+export const DEFAULT_SPEAKER_ID_OPTIONS: SpeakerIdentifierOptions = {
+  numCoefficients: 12,
+  numMelFilters: 26,
+  confidenceThreshold: 0.6,
+  rejectDistance: 2.5,
+  windowFrames: 12,
+  minEnrollmentFrames: 30,
+};
+
+function fftPowerSpectrum(samples: Float32Array): Float64Array {
+  let n = 1;
+  while (n * 2 <= samples.length) n *= 2;
+
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    // Hamming window
+    re[i] = samples[i] * (0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+
+  // Iterative radix-2 Cooley-Tukey
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = (-2 * Math.PI) / len;
+    const wr = Math.cos(ang);
+    const wi = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1, ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k, b = a + len / 2;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr; im[b] = im[a] - ti;
+        re[a] += tr; im[a] += ti;
+        const ncr = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = ncr;
+      }
+    }
+  }
+
+  const power = new Float64Array(n / 2 + 1);
+  for (let i = 0; i <= n / 2; i++) power[i] = (re[i] * re[i] + im[i] * im[i]) / n;
+  return power;
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+/**
+ * Computes MFCCs (c1..cN) for a single frame of time-domain audio.
+ * c0 is dropped so that profiles are insensitive to overall loudness.
+ */
+export function computeMfcc(samples: Float32Array, sampleRate: number, numCoefficients = 12, numMelFilters = 26): number[] {
+  const power = fftPowerSpectrum(samples);
+  const fftSize = (power.length - 1) * 2;
+
+  const lowMel = hzToMel(80);
+  const highMel = hzToMel(Math.min(8000, sampleRate / 2));
+  const bins: number[] = [];
+  for (let m = 0; m < numMelFilters + 2; m++) {
+    const hz = melToHz(lowMel + ((highMel - lowMel) * m) / (numMelFilters + 1));
+    bins.push(Math.floor(((fftSize + 1) * hz) / sampleRate));
+  }
+
+  const logEnergies: number[] = [];
+  for (let f = 1; f <= numMelFilters; f++) {
+    let energy = 0;
+    for (let k = bins[f - 1]; k < bins[f + 1]; k++) {
+      const weight = k < bins[f]
+        ? (k - bins[f - 1]) / Math.max(1, bins[f] - bins[f - 1])
+        : (bins[f + 1] - k) / Math.max(1, bins[f + 1] - bins[f]);
+      energy += (power[k] || 0) * weight;
+    }
+    logEnergies.push(Math.log(energy + 1e-10));
+  }
+
+  // DCT-II, skipping c0
+  const coeffs: number[] = [];
+  for (let c = 1; c <= numCoefficients; c++) {
+    let sum = 0;
+    for (let f = 0; f < numMelFilters; f++) {
+      sum += logEnergies[f] * Math.cos((Math.PI * c * (f + 0.5)) / numMelFilters);
+    }
+    coeffs.push(sum);
+  }
+  return coeffs;
+}
+
+function meanOf(vectors: number[][]): number[] {
+  const dims = vectors[0]?.length ?? 0;
+  const mean = new Array(dims).fill(0);
+  vectors.forEach(v => v.forEach((x, i) => mean[i] += x / vectors.length));
+  return mean;
+}
+
+/**
+ * Local, enrollment-based speaker identification. Each participant records
+ * a short sample; at runtime a rolling window of speech frames is matched
+ * against every profile by standardized distance.
+ */
+export class SpeakerIdentifier {
+  private opts: SpeakerIdentifierOptions;
+  private profiles = new Map<string, VoiceProfile>();
+
+  private enrollingName: string | null = null;
+  private enrollmentFrames: number[][] = [];
+  private window: number[][] = [];
+
+  constructor(options: Partial<SpeakerIdentifierOptions> = {}) {
+    this.opts = { ...DEFAULT_SPEAKER_ID_OPTIONS, ...options };
+  }
+
+  public get enrolling() {
+    return this.enrollingName;
+  }
+
+  public get enrollmentProgress() {
+    return Math.min(1, this.enrollmentFrames.length / this.opts.minEnrollmentFrames);
+  }
+
+  public hasProfile(name: string) {
+    return this.profiles.has(name);
+  }
+
+  public get profileCount() {
+    return this.profiles.size;
+  }
+
+  public listProfiles(): VoiceProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  public setProfile(profile: VoiceProfile) {
+    this.profiles.set(profile.name, profile);
+  }
+
+  public removeProfile(name: string) {
+    this.profiles.delete(name);
+    if (this.enrollingName === name) this.cancelEnrollment();
+  }
+
+  public startEnrollment(name: string) {
+    this.enrollingName = name;
+    this.enrollmentFrames = [];
+  }
+
+  public cancelEnrollment() {
+    this.enrollingName = null;
+    this.enrollmentFrames = [];
+  }
+
+  /** Adds a speech frame to the enrollment in progress. Non-speech frames should not be passed. */
+  public addEnrollmentFrame(samples: Float32Array, sampleRate: number) {
+    if (!this.enrollingName) return;
+    this.enrollmentFrames.push(computeMfcc(samples, sampleRate, this.opts.numCoefficients, this.opts.numMelFilters));
+  }
+
+  /** Builds the profile from the collected frames. Returns null if there was not enough speech. */
+  public finishEnrollment(): VoiceProfile | null {
+    const name = this.enrollingName;
+    const frames = this.enrollmentFrames;
+    this.cancelEnrollment();
+    if (!name || frames.length < this.opts.minEnrollmentFrames) return null;
+
+    const mean = meanOf(frames);
+    const std = mean.map((m, i) => {
+      const variance = frames.reduce((acc, f) => acc + (f[i] - m) ** 2, 0) / frames.length;
+      return Math.max(1e-3, Math.sqrt(variance));
+    });
+
+    const profile: VoiceProfile = { name, mean, std, frames: frames.length };
+    this.profiles.set(name, profile);
+    return profile;
+  }
+
+  /** Clears the runtime window, e.g. after a speech offset. */
+  public resetWindow() {
+    this.window = [];
+  }
+
+  /**
+   * Pushes a runtime speech frame. Returns a match once the window is full,
+   * otherwise null (not enough evidence yet).
+   */
+  public pushFrame(samples: Float32Array, sampleRate: number): SpeakerMatch | null {
+    if (this.profiles.size === 0) return null;
+    this.window.push(computeMfcc(samples, sampleRate, this.opts.numCoefficients, this.opts.numMelFilters));
+    if (this.window.length > this.opts.windowFrames) this.window.shift();
+    if (this.window.length < this.opts.windowFrames) return null;
+    return this.classify(meanOf(this.window));
+  }
+
+  /**
+   * Posterior over profiles plus an implicit "unknown" class at `rejectDistance`,
+   * so a single enrolled speaker can still be rejected.
+   */
+  public classify(features: number[]): SpeakerMatch {
+    let best: string | null = null;
+    let bestWeight = 0;
+    let totalWeight = Math.exp(-this.opts.rejectDistance);
+
+    this.profiles.forEach(profile => {
+      const z = features.reduce((acc, x, i) => acc + ((x - profile.mean[i]) / profile.std[i]) ** 2, 0);
+      const distance = Math.sqrt(z / features.length);
+      const weight = Math.exp(-distance);
+      totalWeight += weight;
+      if (weight > bestWeight) {
+        bestWeight = weight;
+        best = profile.name;
+      }
+    });
+
+    const confidence = bestWeight / totalWeight;
+    return confidence >= this.opts.confidenceThreshold
+      ? { name: best, confidence }
+      : { name: null, confidence };
+  }
+}
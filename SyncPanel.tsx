@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { SyncPresence, SyncStatus, viewUrl } from './sessionSync';
+import { useI18n, MessageKey } from './i18n';
+import { MonitorSmartphone, ChevronDown } from 'lucide-react';
+
+interface SyncPanelProps {
+  session: string;
+  isSharing: boolean;
+  status: SyncStatus;
+  presence: SyncPresence;
+  error: string | null;
+  onToggle: () => void;
+}
+
+const STATUS_DOT: Record<SyncStatus, string> = {
+  connecting: 'bg-[#b5925d] animate-pulse',
+  open: 'bg-[#4a635d]',
+  closed: 'bg-[#d6cdc1]',
+};
+
+const SyncPanel: React.FC<SyncPanelProps> = ({ session, isSharing, status, presence, error, onToggle }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="shrink-0 rounded-xl border border-[#d6cdc1] bg-white/60">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 p-2">
+        <MonitorSmartphone size={14} className="text-[#5d473b]" />
+        <span className="text-[11px] font-black text-[#3d2e25] flex-1 text-start">{t('sync.title')}</span>
+        {isSharing && <span className={`w-2 h-2 rounded-full ${STATUS_DOT[status]}`} title={t(`sync.status.${status}` as MessageKey)} />}
+        <ChevronDown size={14} className={`text-[#5d473b] transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-2 pb-2 space-y-1.5">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('sync.session')}</span>
+            <span className="text-[11px] font-mono font-black text-[#1a1816] tracking-widest">{session}</span>
+          </div>
+          <button
+            onClick={onToggle}
+            className={`w-full text-[10px] font-black py-1 rounded-lg border ${isSharing ? 'bg-[#4a635d] text-white border-[#2c3d38]' : 'text-[#5d473b] border-[#d6cdc1] hover:bg-[#ebe6db]'}`}
+          >
+            {isSharing ? t('sync.stop') : t('sync.start')}
+          </button>
+          {error && <p className="text-[10px] font-bold text-red-800">{error}</p>}
+          {isSharing && (
+            <>
+              <div className="flex gap-2">
+                <a href={viewUrl(session, 'room')} target="_blank" rel="noreferrer" className="flex-1 text-center text-[10px] font-black py-1 rounded-lg border border-[#d6cdc1] text-[#5d473b] hover:bg-[#ebe6db]">
+                  {t('sync.roomLink')}
+                </a>
+                <a href={viewUrl(session, 'participant')} target="_blank" rel="noreferrer" className="flex-1 text-center text-[10px] font-black py-1 rounded-lg border border-[#d6cdc1] text-[#5d473b] hover:bg-[#ebe6db]">
+                  {t('sync.participantLink')}
+                </a>
+              </div>
+              <p className="text-[10px] font-bold text-[#736d52]">
+                {t(`sync.status.${status}` as MessageKey)} · {t('sync.presence', { rooms: presence.rooms, participants: presence.participants.join(', ') || '0' })}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncPanel;
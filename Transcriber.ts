@@ -0,0 +1,157 @@
+import { SessionLanguage } from "./types";
+import { LANGUAGES } from "./i18n";
+
+export type TranscriptionBackend = 'browser' | 'whisper';
+
+export interface TranscriptionSettings {
+  backend: TranscriptionBackend;
+  /** Base URL of a Whisper-compatible server exposing `/audio/transcriptions`. */
+  whisperUrl: string;
+  whisperModel: string;
+  /** Length of each audio chunk sent to the Whisper server. */
+  chunkSeconds: number;
+}
+
+export interface TranscriberHandlers {
+  onText: (text: string) => void;
+  onError?: (error: unknown) => void;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  backend: 'browser',
+  whisperUrl: 'http://localhost:8000/v1',
+  whisperModel: 'whisper-1',
+  chunkSeconds: 6,
+};
+
+const STORAGE_KEY = "discussion-flow.transcription.v1";
+
+export function loadTranscriptionSettings(): TranscriptionSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return {
+      backend: parsed.backend === 'whisper' ? 'whisper' : 'browser',
+      whisperUrl: typeof parsed.whisperUrl === 'string' ? parsed.whisperUrl : DEFAULT_TRANSCRIPTION_SETTINGS.whisperUrl,
+      whisperModel: typeof parsed.whisperModel === 'string' ? parsed.whisperModel : DEFAULT_TRANSCRIPTION_SETTINGS.whisperModel,
+      chunkSeconds: Number.isFinite(parsed.chunkSeconds) && parsed.chunkSeconds >= 2 ? parsed.chunkSeconds : DEFAULT_TRANSCRIPTION_SETTINGS.chunkSeconds,
+    };
+  } catch (error) {
+    console.error("Transcription settings storage error:", error);
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS };
+  }
+}
+
+export function saveTranscriptionSettings(settings: TranscriptionSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** The browser's (possibly prefixed) SpeechRecognition constructor, if any. */
+function speechRecognitionCtor(): any {
+  const w = window as any;
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null;
+}
+
+export function isBrowserRecognitionSupported(): boolean {
+  return typeof window !== 'undefined' && speechRecognitionCtor() !== null;
+}
+
+/**
+ * Speech-to-text from the microphone, either through the browser's SpeechRecognition
+ * or by posting short recorded chunks to a Whisper-compatible HTTP endpoint.
+ * Only final text is reported; attributing it to a speaker is up to the caller.
+ */
+export class Transcriber {
+  private running = false;
+  private recognition: any = null;
+  private stream: MediaStream | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunkTimer: number | null = null;
+
+  constructor(private settings: TranscriptionSettings, private language: SessionLanguage, private handlers: TranscriberHandlers) {}
+
+  public get isRunning() {
+    return this.running;
+  }
+
+  public async start(): Promise<void> {
+    if (this.running) return;
+    if (this.settings.backend === 'browser') {
+      this.startRecognition();
+    } else {
+      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      this.running = true;
+      this.recordChunk();
+    }
+  }
+
+  public stop() {
+    this.running = false;
+    if (this.chunkTimer !== null) clearTimeout(this.chunkTimer);
+    this.chunkTimer = null;
+    this.recognition?.stop();
+    this.recognition = null;
+    if (this.recorder?.state === 'recording') this.recorder.stop();
+    this.recorder = null;
+    this.stream?.getTracks().forEach(t => t.stop());
+    this.stream = null;
+  }
+
+  private startRecognition() {
+    const Ctor = speechRecognitionCtor();
+    if (!Ctor) throw new Error("SpeechRecognition is not supported in this browser");
+
+    const recognition = new Ctor();
+    recognition.lang = LANGUAGES[this.language].locale;
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    recognition.onresult = (event: any) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        if (event.results[i].isFinal) this.handlers.onText(event.results[i][0].transcript);
+      }
+    };
+    recognition.onerror = (event: any) => {
+      // 'no-speech' just means a quiet stretch; recognition restarts from onend.
+      if (event.error !== 'no-speech') this.handlers.onError?.(event.error);
+    };
+    // Browsers end continuous recognition after a while; keep it alive until stopped.
+    recognition.onend = () => {
+      if (this.running && this.recognition === recognition) recognition.start();
+    };
+    this.recognition = recognition;
+    this.running = true;
+    recognition.start();
+  }
+
+  /** Records one self-contained chunk, sends it, and starts the next while running. */
+  private recordChunk() {
+    if (!this.running || !this.stream) return;
+    const recorder = new MediaRecorder(this.stream);
+    const parts: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) parts.push(e.data); };
+    recorder.onstop = () => {
+      if (parts.length > 0) this.sendChunk(new Blob(parts, { type: recorder.mimeType }));
+      this.recordChunk();
+    };
+    this.recorder = recorder;
+    recorder.start();
+    this.chunkTimer = window.setTimeout(() => {
+      if (recorder.state === 'recording') recorder.stop();
+    }, this.settings.chunkSeconds * 1000);
+  }
+
+  private async sendChunk(audio: Blob) {
+    const form = new FormData();
+    form.append('file', audio, 'chunk.webm');
+    form.append('model', this.settings.whisperModel);
+    form.append('language', this.language);
+    try {
+      const response = await fetch(`${this.settings.whisperUrl.replace(/\/+$/, '')}/audio/transcriptions`, { method: 'POST', body: form });
+      if (!response.ok) throw new Error(`Transcription endpoint returned ${response.status}`);
+      const data = await response.json();
+      if (this.running && typeof data?.text === 'string' && data.text.trim()) this.handlers.onText(data.text);
+    } catch (error) {
+      this.handlers.onError?.(error);
+    }
+  }
+}
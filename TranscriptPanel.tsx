@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { TranscriptSegment } from './types';
+import { TranscriptionSettings, TranscriptionBackend, isBrowserRecognitionSupported } from './Transcriber';
+import { useI18n } from './i18n';
+import { Captions, ChevronDown } from 'lucide-react';
+
+interface TranscriptPanelProps {
+  settings: TranscriptionSettings;
+  onSettingsChange: (settings: TranscriptionSettings) => void;
+  isRunning: boolean;
+  onToggle: () => void;
+  transcript: TranscriptSegment[];
+  error: string | null;
+}
+
+const inputClass = "w-32 bg-white/80 border border-[#d6cdc1] rounded-lg px-1.5 py-0.5 text-[11px] font-mono font-bold text-left focus:outline-none";
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ settings, onSettingsChange, isRunning, onToggle, transcript, error }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+  const recent = transcript.slice(-4);
+
+  const commit = (next: TranscriptionSettings) => {
+    setDraft(next);
+    if (JSON.stringify(next) !== JSON.stringify(settings)) onSettingsChange(next);
+  };
+
+  return (
+    <div className="shrink-0 rounded-xl border border-[#d6cdc1] bg-white/60">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 p-2">
+        <Captions size={14} className={isRunning ? 'text-[#4a635d] animate-pulse' : 'text-[#5d473b]'} />
+        <span className="text-[11px] font-black text-[#3d2e25] flex-1 text-start">{t('transcript.title')}</span>
+        <span className="text-[10px] font-bold text-[#736d52]">{t('transcript.segments', { count: transcript.length })}</span>
+        <ChevronDown size={14} className={`text-[#5d473b] transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-2 pb-2 space-y-1.5">
+          <label className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('transcript.engine')}</span>
+            <select
+              value={draft.backend}
+              disabled={isRunning}
+              onChange={(e) => commit({ ...draft, backend: e.target.value as TranscriptionBackend })}
+              className="w-32 bg-white/80 border border-[#d6cdc1] rounded-lg px-1 py-0.5 text-[11px] font-bold focus:outline-none"
+            >
+              <option value="browser" disabled={!isBrowserRecognitionSupported()}>{t('transcript.browser')}</option>
+              <option value="whisper">{t('transcript.whisper')}</option>
+            </select>
+          </label>
+          {draft.backend === 'whisper' && (
+            <>
+              <label className="flex items-center gap-2">
+                <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('common.serverUrl')}</span>
+                <input value={draft.whisperUrl} disabled={isRunning} onChange={(e) => setDraft({ ...draft, whisperUrl: e.target.value })} onBlur={() => commit(draft)} className={inputClass} />
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="text-[10px] font-bold text-[#3d2e25] flex-1">{t('common.model')}</span>
+                <input value={draft.whisperModel} disabled={isRunning} onChange={(e) => setDraft({ ...draft, whisperModel: e.target.value })} onBlur={() => commit(draft)} className={inputClass} />
+              </label>
+            </>
+          )}
+          <button
+            onClick={onToggle}
+            className={`w-full text-[10px] font-black py-1 rounded-lg border ${isRunning ? 'bg-[#4a635d] text-white border-[#2c3d38]' : 'text-[#5d473b] border-[#d6cdc1] hover:bg-[#ebe6db]'}`}
+          >
+            {isRunning ? t('transcript.stop') : t('transcript.start')}
+          </button>
+          {error && <p className="text-[10px] font-bold text-red-800">{error}</p>}
+          {recent.length > 0 && (
+            <div className="space-y-1 max-h-28 overflow-y-auto scrollbar-hide">
+              {recent.map((s, i) => (
+                <p key={`${s.at}-${i}`} className="text-[10px] leading-snug text-[#3d2e25]">
+                  <span className="font-black">{s.speaker ?? '—'}:</span> {s.text}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
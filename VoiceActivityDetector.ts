@@ -0,0 +1,153 @@
+export interface VoiceActivityOptions {
+  /** Minimum margin (in dB) above the adaptive noise floor for a frame to count as speech. */
+  speechMarginDb: number;
+  /** Absolute floor (in dBFS) below which a frame is never treated as speech. */
+  minSpeechDb: number;
+  /** Continuous speech required before an onset is reported (debounce). */
+  onsetMs: number;
+  /** Continuous quiet required before an offset is reported (hangover). */
+  offsetMs: number;
+  /** Analysis interval in milliseconds. */
+  frameMs: number;
+}
+
+export interface VoiceActivityHandlers {
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+  /** Raw per-frame level, useful for meters. */
+  onLevel?: (db: number, isSpeech: boolean) => void;
+  /** Per-frame time-domain samples and the frame's own (undebounced) speech decision, for downstream analysers. */
+  onFrame?: (samples: Float32Array, sampleRate: number, isSpeech: boolean) => void;
+}
+
+export const DEFAULT_VAD_OPTIONS: VoiceActivityOptions = {
+  speechMarginDb: 12,
+  minSpeechDb: -55,
+  onsetMs: 200,
+  offsetMs: 1200,
+  frameMs: 50,
+};
+
+/**
+ * Converts a block of time-domain samples to RMS level in dBFS.
+ */
+export function frameEnergyDb(samples: Float32Array): number {
+  if (samples.length === 0) return -Infinity;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  return 20 * Math.log10(rms + 1e-12);
+}
+
+/**
+ * Energy-based voice activity detector on top of the Web Audio API.
+ * Tracks a slowly-adapting noise floor and debounces onsets/offsets so
+ * short clicks or breaths do not flip the speaking state.
+ */
+export class VoiceActivityDetector {
+  private opts: VoiceActivityOptions;
+  private handlers: VoiceActivityHandlers;
+
+  private stream: MediaStream | null = null;
+  private audioCtx: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private buffer: Float32Array<ArrayBuffer> | null = null;
+  private timer: number | null = null;
+
+  private noiseFloorDb = -60;
+  private speaking = false;
+  private candidateSince: number | null = null;
+
+  constructor(handlers: VoiceActivityHandlers, options: Partial<VoiceActivityOptions> = {}) {
+    this.handlers = handlers;
+    this.opts = { ...DEFAULT_VAD_OPTIONS, ...options };
+  }
+
+  public get isRunning() {
+    return this.timer !== null;
+  }
+
+  public get isSpeaking() {
+    return this.speaking;
+  }
+
+  public setOptions(options: Partial<VoiceActivityOptions>) {
+    this.opts = { ...this.opts, ...options };
+    if (this.isRunning) {
+      this.stopTimer();
+      this.startTimer();
+    }
+  }
+
+  public async start(): Promise<void> {
+    if (this.isRunning) return;
+
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false }
+    });
+    this.audioCtx = new AudioContext();
+    const source = this.audioCtx.createMediaStreamSource(this.stream);
+    this.analyser = this.audioCtx.createAnalyser();
+    this.analyser.fftSize = 2048;
+    source.connect(this.analyser);
+    this.buffer = new Float32Array(this.analyser.fftSize);
+
+    this.speaking = false;
+    this.candidateSince = null;
+    this.startTimer();
+  }
+
+  public stop() {
+    this.stopTimer();
+    if (this.speaking) {
+      this.speaking = false;
+      this.handlers.onSpeechEnd?.();
+    }
+    this.stream?.getTracks().forEach(t => t.stop());
+    this.audioCtx?.close();
+    this.stream = null;
+    this.audioCtx = null;
+    this.analyser = null;
+    this.buffer = null;
+  }
+
+  private startTimer() {
+    this.timer = window.setInterval(() => this.processFrame(), this.opts.frameMs);
+  }
+
+  private stopTimer() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private processFrame() {
+    if (!this.analyser || !this.buffer || !this.audioCtx) return;
+    this.analyser.getFloatTimeDomainData(this.buffer);
+
+    const db = frameEnergyDb(this.buffer);
+    const isSpeechFrame = db >= this.opts.minSpeechDb && db >= this.noiseFloorDb + this.opts.speechMarginDb;
+
+    // Adapt the noise floor only on non-speech frames: quickly downward, slowly upward.
+    if (!isSpeechFrame) {
+      const rate = db < this.noiseFloorDb ? 0.3 : 0.02;
+      this.noiseFloorDb += (db - this.noiseFloorDb) * rate;
+    }
+
+    this.handlers.onLevel?.(db, isSpeechFrame);
+    this.handlers.onFrame?.(this.buffer, this.audioCtx.sampleRate, isSpeechFrame);
+
+    const now = performance.now();
+    if (isSpeechFrame !== this.speaking) {
+      if (this.candidateSince === null) this.candidateSince = now;
+      const required = this.speaking ? this.opts.offsetMs : this.opts.onsetMs;
+      if (now - this.candidateSince >= required) {
+        this.speaking = isSpeechFrame;
+        this.candidateSince = null;
+        if (this.speaking) this.handlers.onSpeechStart?.();
+        else this.handlers.onSpeechEnd?.();
+      }
+    } else {
+      this.candidateSince = null;
+    }
+  }
+}
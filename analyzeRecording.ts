@@ -0,0 +1,88 @@
+/**
+ * Command-line analysis of diarized recordings: which interventions the engine would have
+ * fired, and how balanced the meeting was. Run with `npm run analyze -- <file> [options]`.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { exitWithUsage, readEngineConfig } from './cliSupport';
+import { importFlow } from './flowStore';
+import { analyzeSegments, analysisToMarkdown, detectSegmentFormat, parseSegments, SegmentFormat } from './recordingAnalysis';
+
+const USAGE = `Usage: npm run analyze -- <segments file> [options]
+
+Options:
+  --format rttm|vtt|csv   Input format (default: from the file extension)
+  --output json|markdown  Report format (default: json)
+  --out <file>            Write the report to a file instead of stdout
+  --config <file>         Engine settings as JSON, or an exported facilitation preset
+  --set <key>=<value>     Override one setting, e.g. --set imbalanceScoreThreshold=0.4
+  --flow <file>           An exported discussion flow to run instead of the default
+  --tick <seconds>        Sampling step (default: 1)
+  --follow                Play interventions out instead of returning to monitoring
+`;
+
+function fail(message: string): never {
+  return exitWithUsage(message, USAGE);
+}
+
+function parseArgs(argv: string[]) {
+  const options = { file: '', format: undefined as SegmentFormat | undefined, output: 'json', out: '', config: '', flow: '', tick: 1, follow: false, set: [] as string[] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => argv[++i] ?? fail(`${arg} needs a value`);
+    switch (arg) {
+      case '--format': {
+        const format = value();
+        if (format !== 'rttm' && format !== 'vtt' && format !== 'csv') fail(`Unknown format "${format}"`);
+        options.format = format;
+        break;
+      }
+      case '--output': options.output = value(); break;
+      case '--out': options.out = value(); break;
+      case '--config': options.config = value(); break;
+      case '--flow': options.flow = value(); break;
+      case '--set': options.set.push(value()); break;
+      case '--tick': options.tick = Number(value()); break;
+      case '--follow': options.follow = true; break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+      default:
+        if (arg.startsWith('--') || options.file) fail(`Unexpected argument "${arg}"`);
+        options.file = arg;
+    }
+  }
+  if (!options.file) fail('No segments file given');
+  if (options.output !== 'json' && options.output !== 'markdown') fail(`Unknown output "${options.output}"`);
+  if (!(options.tick > 0)) fail('--tick must be a positive number of seconds');
+  return options;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  try {
+    const text = readFileSync(options.file, 'utf8');
+    const format = options.format ?? detectSegmentFormat(options.file, text);
+    const segments = parseSegments(format, text);
+    if (segments.length === 0) fail(`No speaker segments found in ${options.file} (read as ${format})`);
+
+    const analysis = analyzeSegments(segments, {
+      config: readEngineConfig(options.config, options.set),
+      flow: options.flow ? importFlow(readFileSync(options.flow, 'utf8')) : undefined,
+      tickSeconds: options.tick,
+      follow: options.follow,
+    });
+    const report = options.output === 'markdown'
+      ? analysisToMarkdown(analysis, basename(options.file))
+      : JSON.stringify({ source: basename(options.file), format, ...analysis }, null, 2) + '\n';
+
+    if (options.out) writeFileSync(options.out, report);
+    else process.stdout.write(report);
+  } catch (error: any) {
+    console.error(error?.message ?? error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,196 @@
+import { DiscussionState, EngineContext, EngineNotification, SessionLanguage } from "./types";
+import { activeFlowState } from "./DiscussionEngine";
+import { flowText } from "./flowStore";
+import { I18n, LANGUAGES, MessageKey } from "./i18n";
+
+export const CHIME_IDS = ['bell', 'soft', 'wood'] as const;
+export type ChimeId = typeof CHIME_IDS[number];
+
+export interface AudioCueSettings {
+  enabled: boolean;
+  /** 0–1, for chimes and speech alike. */
+  volume: number;
+  chime: ChimeId;
+  /** Speak the moderation message of each state that has one. */
+  speakMessages: boolean;
+  /** Speak the name of whoever holds the next turn of a round. */
+  announceTurns: boolean;
+  /** A gong instead of a chime when a reflection pause or a session break starts or ends. */
+  pauseGong: boolean;
+  /** Flow state ids that stay silent. */
+  mutedStates: string[];
+}
+
+export const DEFAULT_AUDIO_CUE_SETTINGS: AudioCueSettings = {
+  enabled: false,
+  volume: 0.6,
+  chime: 'bell',
+  speakMessages: true,
+  announceTurns: true,
+  pauseGong: true,
+  mutedStates: [],
+};
+
+const STORAGE_KEY = "discussion-flow.audioCues.v1";
+
+export function loadAudioCueSettings(): AudioCueSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    const flag = (key: 'enabled' | 'speakMessages' | 'announceTurns' | 'pauseGong') =>
+      typeof parsed[key] === 'boolean' ? parsed[key] : DEFAULT_AUDIO_CUE_SETTINGS[key];
+    return {
+      enabled: flag('enabled'),
+      volume: Number.isFinite(parsed.volume) ? Math.min(1, Math.max(0, parsed.volume)) : DEFAULT_AUDIO_CUE_SETTINGS.volume,
+      chime: CHIME_IDS.includes(parsed.chime) ? parsed.chime : DEFAULT_AUDIO_CUE_SETTINGS.chime,
+      speakMessages: flag('speakMessages'),
+      announceTurns: flag('announceTurns'),
+      pauseGong: flag('pauseGong'),
+      mutedStates: Array.isArray(parsed.mutedStates) ? parsed.mutedStates.filter((id: unknown) => typeof id === 'string') : [],
+    };
+  } catch (error) {
+    console.error("Audio cue settings storage error:", error);
+    return { ...DEFAULT_AUDIO_CUE_SETTINGS };
+  }
+}
+
+export function saveAudioCueSettings(settings: AudioCueSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export type AudioCue =
+  | { type: 'chime' }
+  | { type: 'gong' }
+  | { type: 'speak', text: string };
+
+const SPOKEN_MESSAGES: Partial<Record<DiscussionState, MessageKey>> = {
+  [DiscussionState.IMBALANCE]: 'cue.imbalanceDetected',
+  [DiscussionState.NUDGE]: 'cue.nudge',
+  [DiscussionState.STRUCTURED]: 'cue.structuredTurnTaking',
+  [DiscussionState.PAUSE]: 'cue.reflectionPause',
+  [DiscussionState.CHECKIN]: 'cue.checkIn',
+};
+
+/** What is said on entering a state: the flow state's own message, else the behavior's. */
+export function spokenMessage(context: Pick<EngineContext, 'flow' | 'flowState'>, state: DiscussionState, { t, language }: Pick<I18n, 't' | 'language'>): string | null {
+  const custom = flowText(activeFlowState(context)?.message, language);
+  if (custom) return custom;
+  const key = SPOKEN_MESSAGES[state];
+  return key ? t(key) : null;
+}
+
+/**
+ * The cues for one batch of engine notifications: a chime (or gong) per state entered, the
+ * state's message, and the next speaker of a round. Muted flow states produce nothing.
+ */
+export function planCues(notifications: EngineNotification[], settings: AudioCueSettings, i18n: Pick<I18n, 't' | 'language'>): AudioCue[] {
+  if (!settings.enabled) return [];
+  const cues: AudioCue[] = [];
+  const heard = (flowState: string) => !settings.mutedStates.includes(flowState);
+  const isPause = (state: DiscussionState) => state === DiscussionState.PAUSE && settings.pauseGong;
+
+  notifications.forEach(n => {
+    switch (n.type) {
+      case 'stateExited':
+        if (isPause(n.state) && heard(n.flowState)) cues.push({ type: 'gong' });
+        break;
+      case 'stateEntered': {
+        if (!heard(n.flowState)) break;
+        if (isPause(n.state)) cues.push({ type: 'gong' });
+        // Leaving a pause already sounded the gong.
+        else if (!cues.some(c => c.type === 'gong')) cues.push({ type: 'chime' });
+        const text = settings.speakMessages ? spokenMessage(n.after.context, n.state, i18n) : null;
+        if (text) cues.push({ type: 'speak', text });
+        break;
+      }
+      case 'turnAdvanced':
+        if (settings.announceTurns && n.speaker && heard(n.after.context.flowState)) {
+          cues.push({ type: 'speak', text: i18n.t('cue.nextSpeaker', { name: n.speaker }) });
+        }
+        break;
+      case 'sessionPaused':
+      case 'sessionResumed':
+        cues.push(settings.pauseGong ? { type: 'gong' } : { type: 'chime' });
+        break;
+    }
+  });
+  return cues;
+}
+
+interface ToneSpec {
+  frequencies: number[];
+  /** Seconds until the tone has faded out. */
+  decay: number;
+  /** Seconds between the onsets of successive frequencies; 0 strikes them together. */
+  stagger: number;
+  wave: OscillatorType;
+}
+
+const CHIMES: Record<ChimeId, ToneSpec> = {
+  bell: { frequencies: [880, 1318.5], decay: 1.8, stagger: 0, wave: 'sine' },
+  soft: { frequencies: [523.25, 659.25, 783.99], decay: 1.2, stagger: 0.12, wave: 'sine' },
+  wood: { frequencies: [660, 440], decay: 0.3, stagger: 0.15, wave: 'triangle' },
+};
+
+const GONG: ToneSpec = { frequencies: [98, 147, 208, 262], decay: 5, stagger: 0, wave: 'sine' };
+
+export function isSpeechSynthesisSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/** Plays cues through the Web Audio API and `speechSynthesis`; nothing is loaded from the network. */
+export class AudioCuePlayer {
+  private audioCtx: AudioContext | null = null;
+
+  public play(cues: AudioCue[], settings: AudioCueSettings, language: SessionLanguage) {
+    if (cues.length === 0 || settings.volume <= 0) return;
+    // A new transition makes anything still waiting to be said out of date.
+    if (cues.some(c => c.type === 'speak') && isSpeechSynthesisSupported()) window.speechSynthesis.cancel();
+    cues.forEach(cue => {
+      if (cue.type === 'chime') this.tone(CHIMES[settings.chime], settings.volume);
+      else if (cue.type === 'gong') this.tone(GONG, settings.volume);
+      else this.speak(cue.text, settings.volume, language);
+    });
+  }
+
+  public dispose() {
+    if (isSpeechSynthesisSupported()) window.speechSynthesis.cancel();
+    this.audioCtx?.close();
+    this.audioCtx = null;
+  }
+
+  private tone(spec: ToneSpec, volume: number) {
+    try {
+      this.audioCtx ??= new AudioContext();
+      const ctx = this.audioCtx;
+      // Browsers suspend audio until the page has had a user gesture.
+      if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+      spec.frequencies.forEach((frequency, i) => {
+        const start = ctx.currentTime + i * spec.stagger;
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.type = spec.wave;
+        osc.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.0001, start);
+        gain.gain.exponentialRampToValueAtTime(Math.max(0.0001, volume / spec.frequencies.length), start + 0.01);
+        gain.gain.exponentialRampToValueAtTime(0.0001, start + spec.decay);
+        osc.connect(gain).connect(ctx.destination);
+        osc.start(start);
+        osc.stop(start + spec.decay);
+      });
+    } catch (error) {
+      console.error("Audio cue error:", error);
+    }
+  }
+
+  private speak(text: string, volume: number, language: SessionLanguage) {
+    if (!isSpeechSynthesisSupported()) return;
+    const utterance = new SpeechSynthesisUtterance(text);
+    const locale = LANGUAGES[language].locale;
+    utterance.lang = locale;
+    utterance.volume = volume;
+    const voice = window.speechSynthesis.getVoices().find(v => v.lang.toLowerCase().startsWith(locale.split('-')[0]));
+    if (voice) utterance.voice = voice;
+    window.speechSynthesis.speak(utterance);
+  }
+}
@@ -0,0 +1,34 @@
+import { readFileSync } from 'node:fs';
+import { DEFAULT_ENGINE_CONFIG, pickEngineConfig, validateEngineConfig } from './DiscussionEngine';
+import { EngineConfig } from './types';
+
+/** Prints the problem and the usage text, then exits with an error status. */
+export function exitWithUsage(message: string, usage: string): never {
+  console.error(`${message}\n\n${usage}`);
+  process.exit(1);
+}
+
+/**
+ * Engine settings from a JSON file (plain settings or an exported facilitation preset) and
+ * `key=value` overrides; values are parsed as JSON where possible. Throws when invalid.
+ */
+export function readEngineConfig(path: string, overrides: string[]): Partial<EngineConfig> {
+  let config: Partial<EngineConfig> = {};
+  if (path) {
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    config = pickEngineConfig(parsed?.kind === 'facilitation-preset' ? parsed.config ?? {} : parsed);
+  }
+  for (const entry of overrides) {
+    const eq = entry.indexOf('=');
+    if (eq <= 0) throw new Error(`--set expects key=value, got "${entry}"`);
+    const key = entry.slice(0, eq);
+    if (!(key in DEFAULT_ENGINE_CONFIG)) throw new Error(`Unknown setting "${key}"`);
+    const raw = entry.slice(eq + 1);
+    let value: unknown = raw;
+    try { value = JSON.parse(raw); } catch { /* a bare string, e.g. imbalanceMetric=gini */ }
+    config = { ...config, ...pickEngineConfig({ [key]: value } as Partial<EngineConfig>) };
+  }
+  const errors = validateEngineConfig(config);
+  if (errors.length > 0) throw new Error(`Invalid settings: ${errors.join('; ')}`);
+  return config;
+}
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePersonas, runSimulationBatch, simulateDiscussion, SimulationScenario } from './discussionSimulator';
+import { DiscussionState } from './types';
+
+const mixed: SimulationScenario = { personas: parsePersonas('dominant,quiet,interrupter,balanced'), durationSeconds: 900 };
+
+test('the same seed replays the same discussion', () => {
+  const a = simulateDiscussion(mixed, 7);
+  const b = simulateDiscussion(mixed, 7);
+  assert.deepEqual(a.events, b.events);
+  assert.deepEqual(a.transitions, b.transitions);
+  assert.notDeepEqual(simulateDiscussion(mixed, 8).events, a.events);
+});
+
+test('a dominated discussion escalates through the default flow', () => {
+  const { transitions } = simulateDiscussion(mixed, 1);
+  assert.deepEqual(transitions.slice(0, 6), [
+    { at: 105, flowState: DiscussionState.IMBALANCE, state: DiscussionState.IMBALANCE },
+    { at: 120, flowState: DiscussionState.NUDGE, state: DiscussionState.NUDGE },
+    { at: 135, flowState: DiscussionState.STRUCTURED, state: DiscussionState.STRUCTURED },
+    { at: 255, flowState: DiscussionState.PAUSE, state: DiscussionState.PAUSE },
+    { at: 275, flowState: DiscussionState.CHECKIN, state: DiscussionState.CHECKIN },
+    { at: 278, flowState: DiscussionState.MONITORING, state: DiscussionState.MONITORING },
+  ]);
+});
+
+test('a batch reports every state of the flow', () => {
+  const report = runSimulationBatch(mixed, 10, 1);
+  const byState = Object.fromEntries(report.states.map(s => [s.flowState, s]));
+  assert.equal(report.runs, 10);
+  assert.equal(byState[DiscussionState.IMBALANCE].reachedRate, 1);
+  assert.equal(byState[DiscussionState.IMBALANCE].firstEntry?.median, 50.5);
+  assert.equal(byState[DiscussionState.STRUCTURED].meanEntries, 3.4);
+  assert.equal(byState[DiscussionState.MONITORING].reachedRate, 0.9);
+});
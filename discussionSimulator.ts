@@ -0,0 +1,237 @@
+import { DiscussionEngine, DEFAULT_FLOW, activeFlowState } from "./DiscussionEngine";
+import { mulberry32 } from "./turnOrdering";
+import { DiscussionEvent, DiscussionFlow, DiscussionState, EngineConfig, EngineSnapshot } from "./types";
+
+export type PersonaKind = 'dominant' | 'quiet' | 'interrupter' | 'balanced';
+
+export interface PersonaTraits {
+  /** Relative chance of taking a free floor. */
+  weight: number;
+  /** Mean length of a contribution; lengths are exponentially distributed. */
+  meanTurnSeconds: number;
+  /** Chance per second of cutting in while someone else speaks. */
+  interruptChance: number;
+  /** Chance of passing a turn they are given in a round. */
+  passChance: number;
+  /** Chance of objecting at a check-in. */
+  objectChance: number;
+}
+
+export const PERSONA_TRAITS: Record<PersonaKind, PersonaTraits> = {
+  dominant: { weight: 5, meanTurnSeconds: 40, interruptChance: 0.02, passChance: 0, objectChance: 0.1 },
+  quiet: { weight: 0.4, meanTurnSeconds: 8, interruptChance: 0, passChance: 0.5, objectChance: 0.05 },
+  interrupter: { weight: 2, meanTurnSeconds: 15, interruptChance: 0.08, passChance: 0, objectChance: 0.3 },
+  balanced: { weight: 1, meanTurnSeconds: 15, interruptChance: 0.005, passChance: 0.1, objectChance: 0.2 },
+};
+
+/** A simulated participant: a persona kind, optionally with some traits overridden. */
+export interface Persona extends Partial<PersonaTraits> {
+  name: string;
+  kind: PersonaKind;
+}
+
+export interface SimulationScenario {
+  personas: Persona[];
+  durationSeconds: number;
+  config?: Partial<EngineConfig>;
+  flow?: DiscussionFlow;
+  /** Mean silence between contributions. */
+  meanGapSeconds?: number;
+}
+
+/** One entry into a flow state, in seconds from the start of the simulated discussion. */
+export interface SimulatedTransition {
+  at: number;
+  flowState: string;
+  state: DiscussionState;
+}
+
+export interface SimulationResult {
+  seed: number;
+  transitions: SimulatedTransition[];
+  /** Every event the simulator sent, so a run can be replayed or inspected. */
+  events: DiscussionEvent[];
+  final: EngineSnapshot;
+  interruptions: number;
+}
+
+/** Discussion states in which the engine, not the participants, decides who speaks. */
+const ENGINE_HELD_STATES = [DiscussionState.STRUCTURED, DiscussionState.PAUSE, DiscussionState.CHECKIN];
+
+const DEFAULT_GAP_SECONDS = 2;
+
+/**
+ * Runs one stochastic discussion through the engine in auto mode. The same scenario and seed
+ * always produce the same events, so a run is reproducible in a test.
+ *
+ * While the floor is free, the current speaker talks for a sampled length, then someone is
+ * picked by persona weight after a short gap; interrupters may cut in at any second. In a
+ * round the engine hands out the floor and personas may pass; at a check-in everyone votes.
+ */
+export function simulateDiscussion(scenario: SimulationScenario, seed: number): SimulationResult {
+  const rng = mulberry32(seed);
+  const people = scenario.personas.map(p => ({ ...PERSONA_TRAITS[p.kind], ...p }));
+  const names = people.map(p => p.name);
+  const engine = new DiscussionEngine(names, scenario.config ?? {});
+  const events: DiscussionEvent[] = [];
+  const transitions: SimulatedTransition[] = [];
+  const flow = scenario.flow ?? DEFAULT_FLOW;
+  let clock = 0;
+  let interruptions = 0;
+
+  engine.on('stateEntered', ({ event, state, flowState }) => {
+    transitions.push({ at: clock + (event.type === 'TICK' ? event.seconds : 0), flowState, state });
+  });
+
+  const send = (event: DiscussionEvent) => {
+    const before = engine.getSnapshot().context.interruptionCount;
+    events.push(event);
+    engine.send(event);
+    interruptions += Math.max(0, engine.getSnapshot().context.interruptionCount - before);
+  };
+  const sample = (mean: number) => -mean * Math.log(1 - rng());
+  const pick = () => {
+    let r = rng() * people.reduce((acc, p) => acc + p.weight, 0);
+    return people.find(p => (r -= p.weight) < 0) ?? people[people.length - 1];
+  };
+
+  if (flow !== DEFAULT_FLOW) send({ type: 'SET_FLOW', flow });
+  send({ type: 'SET_AUTO_MODE', enabled: true });
+
+  let turnLeft = 0;
+  let gapLeft = 0;
+  let lastHolder: string | null = null;
+
+  for (; clock < scenario.durationSeconds; clock += 1) {
+    const { state, context } = engine.getSnapshot();
+    const speaker = context.activeSpeaker;
+
+    if (state === DiscussionState.STRUCTURED) {
+      // Each turn holder decides once whether to pass.
+      const holder = context.turnOrder[context.turnIndex] ?? null;
+      const person = people.find(p => p.name === holder);
+      if (holder !== lastHolder && person && rng() < person.passChance) send({ type: 'PASS_TURN' });
+      lastHolder = holder;
+    } else if (state === DiscussionState.CHECKIN) {
+      const voter = people.find(p => !(p.name in context.checkinVotes));
+      if (voter) send({ type: 'CHECKIN_VOTE', name: voter.name, vote: rng() < voter.objectChance ? 'object' : 'continue' });
+    } else if (!ENGINE_HELD_STATES.includes(state)) {
+      lastHolder = null;
+      const interrupter = speaker ? people.find(p => p.name !== speaker && rng() < p.interruptChance) : undefined;
+      if (interrupter) {
+        // Talking over the speaker until they give way; the overlap is what the engine counts.
+        send({ type: 'SPEAKER_START', name: interrupter.name });
+        send({ type: 'SPEAKER_STOP', name: speaker! });
+        turnLeft = sample(interrupter.meanTurnSeconds);
+      } else if (speaker) {
+        turnLeft -= 1;
+        if (turnLeft <= 0) {
+          send({ type: 'SILENCE' });
+          gapLeft = sample(scenario.meanGapSeconds ?? DEFAULT_GAP_SECONDS);
+        }
+      } else if ((gapLeft -= 1) <= 0) {
+        const next = pick();
+        send({ type: 'SPEAKER_SET', name: next.name });
+        turnLeft = sample(next.meanTurnSeconds);
+      }
+    }
+
+    send({ type: 'TICK', seconds: 1 });
+  }
+
+  return { seed, transitions, events, final: engine.snapshot(), interruptions };
+}
+
+export interface StateStats {
+  flowState: string;
+  /** Fraction of runs in which the state was entered at least once. */
+  reachedRate: number;
+  meanEntries: number;
+  /** Seconds until the first entry, over the runs that reached the state. */
+  firstEntry: { mean: number, median: number, min: number, max: number } | null;
+}
+
+export interface BatchReport {
+  runs: number;
+  seed: number;
+  durationSeconds: number;
+  config: Partial<EngineConfig>;
+  personas: Persona[];
+  /** One row per state of the flow, in flow order. */
+  states: StateStats[];
+  meanInterruptions: number;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Simulates `runs` discussions with seeds `seed`, `seed + 1`, ... and reports how often and
+ * how quickly each state of the flow fires. The flow's initial state, entered at the start,
+ * only counts when the engine returns to it.
+ */
+export function runSimulationBatch(scenario: SimulationScenario, runs: number, seed = 1): BatchReport {
+  const flow = scenario.flow ?? DEFAULT_FLOW;
+  const results = Array.from({ length: runs }, (_, i) => simulateDiscussion(scenario, seed + i));
+
+  const states = flow.states.map(({ id }): StateStats => {
+    const entries = results.map(r => r.transitions.filter(t => t.flowState === id));
+    const firsts = entries.filter(e => e.length > 0).map(e => e[0].at);
+    return {
+      flowState: id,
+      reachedRate: runs > 0 ? firsts.length / runs : 0,
+      meanEntries: runs > 0 ? entries.reduce((acc, e) => acc + e.length, 0) / runs : 0,
+      firstEntry: firsts.length > 0
+        ? { mean: firsts.reduce((a, b) => a + b, 0) / firsts.length, median: median(firsts), min: Math.min(...firsts), max: Math.max(...firsts) }
+        : null,
+    };
+  });
+
+  return {
+    runs,
+    seed,
+    durationSeconds: scenario.durationSeconds,
+    config: scenario.config ?? {},
+    personas: scenario.personas,
+    states,
+    meanInterruptions: runs > 0 ? results.reduce((acc, r) => acc + r.interruptions, 0) / runs : 0,
+  };
+}
+
+/** Persona list from a spec like `dominant,quiet,balanced*2`. */
+export function parsePersonas(spec: string): Persona[] {
+  const kinds = Object.keys(PERSONA_TRAITS) as PersonaKind[];
+  const counts: Record<string, number> = {};
+  return spec.split(',').map(s => s.trim()).filter(Boolean).flatMap(part => {
+    const [kind, times = '1'] = part.split('*');
+    if (!kinds.includes(kind as PersonaKind)) throw new Error(`Unknown persona "${kind}" (expected one of ${kinds.join(', ')})`);
+    return Array.from({ length: Math.max(1, Number(times) || 1) }, () => {
+      counts[kind] = (counts[kind] || 0) + 1;
+      return { name: `${kind}-${counts[kind]}`, kind: kind as PersonaKind };
+    });
+  });
+}
+
+/** A table of the batch report, in the same style as the recording analysis. */
+export function batchReportToMarkdown(report: BatchReport, flow: DiscussionFlow = DEFAULT_FLOW): string {
+  const fmt = (n: number) => n.toFixed(1);
+  const lines = [
+    '# Simulation batch',
+    '',
+    `- Runs: ${report.runs} (seeds ${report.seed}-${report.seed + report.runs - 1}), ${report.durationSeconds}s each`,
+    `- Personas: ${report.personas.map(p => p.kind).join(', ')}`,
+    `- Mean interruptions: ${fmt(report.meanInterruptions)}`,
+  ];
+  const overrides = Object.entries(report.config);
+  if (overrides.length > 0) lines.push(`- Settings: ${overrides.map(([k, v]) => `\`${k}=${JSON.stringify(v)}\``).join(', ')}`);
+  lines.push('', '| State | Reached | Entries / run | First entry (median) | First entry (range) |', '| --- | ---: | ---: | ---: | ---: |');
+  report.states.forEach(s => {
+    const behavior = activeFlowState({ flow, flowState: s.flowState })?.behavior;
+    const name = behavior && behavior !== s.flowState ? `${s.flowState} (${behavior})` : s.flowState;
+    lines.push(`| ${name} | ${(s.reachedRate * 100).toFixed(0)}% | ${fmt(s.meanEntries)} | ${s.firstEntry ? `${fmt(s.firstEntry.median)}s` : '-'} | ${s.firstEntry ? `${fmt(s.firstEntry.min)}-${fmt(s.firstEntry.max)}s` : '-'} |`);
+  });
+  return lines.join('\n') + '\n';
+}
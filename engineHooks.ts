@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { DiscussionEngine } from './DiscussionEngine';
+import { EngineNotification, EngineNotificationType, EngineSnapshot } from './types';
+
+/** The engine's current snapshot; the component re-renders after every event sent to it. */
+export function useEngineSnapshot(engine: DiscussionEngine): EngineSnapshot {
+  const subscribe = useCallback((onChange: () => void) => engine.subscribe(onChange), [engine]);
+  return useSyncExternalStore(subscribe, engine.getSnapshot);
+}
+
+/**
+ * Runs `listener` for every transition of the given type. The latest listener is always
+ * called, so it can read current props and state without resubscribing.
+ */
+export function useEngineNotification<T extends EngineNotificationType>(
+  engine: DiscussionEngine,
+  type: T,
+  listener: (notification: EngineNotification<T>) => void
+) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+  useEffect(() => engine.on(type, n => listenerRef.current(n)), [engine, type]);
+}
+
+/** Like `useEngineNotification`, but for every event, with all the transitions it caused (possibly none). */
+export function useEngineTransitions(engine: DiscussionEngine, listener: (notifications: EngineNotification[]) => void) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+  useEffect(() => engine.subscribe(n => listenerRef.current(n)), [engine]);
+}
@@ -0,0 +1,108 @@
+import { FairnessMetrics, ImbalanceMetric } from './types';
+
+/** Everything a fairness metric may look at. */
+export interface MetricInput {
+  speakers: string[];
+  talkTime: Record<string, number>;
+  totalTalkTime: number;
+  turnCounts: Record<string, number>;
+  interruptionCount: number;
+}
+
+/** Display names live in the i18n catalogs under `metric.<id>`. */
+export interface MetricDefinition {
+  /** Returns an imbalance score in [0, 1]; higher means less balanced. */
+  compute: (input: MetricInput) => number;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Calculates Dominance Score based on the formula:
+ * Dominance Score = (MaxTalkTime - MeanTalkTime) / (TotalTalkTime + 10^-6)
+ */
+export function calculateDominance(talkTime: Record<string, number>, speakers: string[], totalTalkTime: number): number {
+  if (speakers.length === 0 || totalTalkTime <= 0) return 0;
+
+  const times = speakers.map(s => talkTime[s] || 0);
+  const max = Math.max(...times);
+  const mean = totalTalkTime / speakers.length;
+
+  return (max - mean) / (totalTalkTime + 1e-6);
+}
+
+/**
+ * Gini coefficient of the given non-negative values (0 = perfectly equal).
+ * Normalized by n/(n-1) so a single person holding everything scores 1.
+ */
+export function gini(values: number[]): number {
+  const n = values.length;
+  const total = values.reduce((a, b) => a + b, 0);
+  if (n < 2 || total <= 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const weighted = sorted.reduce((acc, v, i) => acc + (i + 1) * v, 0);
+  const g = (2 * weighted) / (n * total) - (n + 1) / n;
+  return clamp01(g * n / (n - 1));
+}
+
+/** Shannon entropy of the shares, normalized to [0, 1] by log(n) (1 = perfectly even). */
+export function normalizedEntropy(values: number[]): number {
+  const n = values.length;
+  const total = values.reduce((a, b) => a + b, 0);
+  if (n < 2 || total <= 0) return 1;
+
+  const h = values.reduce((acc, v) => {
+    if (v <= 0) return acc;
+    const p = v / total;
+    return acc - p * Math.log(p);
+  }, 0);
+  return clamp01(h / Math.log(n));
+}
+
+/** Largest share of turns taken by one speaker, rescaled so an even split is 0 and one speaker is 1. */
+export function maxShareImbalance(values: number[]): number {
+  const n = values.length;
+  const total = values.reduce((a, b) => a + b, 0);
+  if (n < 2 || total <= 0) return 0;
+  const maxShare = Math.max(...values) / total;
+  return clamp01((maxShare - 1 / n) / (1 - 1 / n));
+}
+
+export const FAIRNESS_METRICS: Record<ImbalanceMetric, MetricDefinition> = {
+  dominance: {
+    compute: ({ talkTime, speakers, totalTalkTime }) => calculateDominance(talkTime, speakers, totalTalkTime),
+  },
+  gini: {
+    compute: ({ talkTime, speakers }) => gini(speakers.map(s => talkTime[s] || 0)),
+  },
+  entropy: {
+    compute: ({ talkTime, speakers }) => 1 - normalizedEntropy(speakers.map(s => talkTime[s] || 0)),
+  },
+  turnShare: {
+    compute: ({ turnCounts, speakers }) => maxShareImbalance(speakers.map(s => turnCounts[s] || 0)),
+  },
+  interruptionRate: {
+    compute: ({ turnCounts, speakers, interruptionCount }) => {
+      const turns = speakers.reduce((acc, s) => acc + (turnCounts[s] || 0), 0);
+      return turns > 0 ? clamp01(interruptionCount / turns) : 0;
+    },
+  },
+};
+
+export const METRIC_IDS = Object.keys(FAIRNESS_METRICS) as ImbalanceMetric[];
+
+export function computeFairnessMetrics(input: MetricInput): FairnessMetrics {
+  return Object.fromEntries(METRIC_IDS.map(id => [id, FAIRNESS_METRICS[id].compute(input)])) as FairnessMetrics;
+}
+
+/**
+ * Collapses the individual metrics into the single score compared against the
+ * imbalance threshold: either one chosen metric, or a weighted mean of all of them.
+ */
+export function combineMetrics(metrics: FairnessMetrics, metric: ImbalanceMetric | 'weighted', weights: Record<ImbalanceMetric, number>): number {
+  if (metric !== 'weighted') return metrics[metric];
+  const totalWeight = METRIC_IDS.reduce((acc, id) => acc + (weights[id] || 0), 0);
+  if (totalWeight <= 0) return metrics.dominance;
+  return METRIC_IDS.reduce((acc, id) => acc + metrics[id] * (weights[id] || 0), 0) / totalWeight;
+}
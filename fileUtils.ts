@@ -0,0 +1,9 @@
+/** Triggers a browser download of `text` as a file. */
+export const downloadText = (filename: string, text: string, mime = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,160 @@
+import { DiscussionFlow, DiscussionState, FlowStateDefinition, FlowText, SessionLanguage } from "./types";
+import { DEFAULT_FLOW, validateFlow } from "./DiscussionEngine";
+
+const STORAGE_KEY = "discussion-flow.flows.v1";
+
+export const BUILTIN_FLOWS: DiscussionFlow[] = [
+  DEFAULT_FLOW,
+  {
+    id: "skip-nudge",
+    name: "Straight to rounds",
+    builtIn: true,
+    initial: DiscussionState.MONITORING,
+    states: DEFAULT_FLOW.states
+      .filter(s => s.id !== DiscussionState.IMBALANCE && s.id !== DiscussionState.NUDGE)
+      .map(s => s.id === DiscussionState.MONITORING ? { ...s, exits: [{ when: 'imbalance', to: DiscussionState.STRUCTURED }] } : s),
+  },
+  {
+    id: "pair-share",
+    name: "Pair share",
+    builtIn: true,
+    initial: DiscussionState.MONITORING,
+    states: [
+      ...DEFAULT_FLOW.states.filter(s => s.id === DiscussionState.MONITORING || s.id === DiscussionState.IMBALANCE),
+      {
+        id: DiscussionState.NUDGE,
+        behavior: DiscussionState.NUDGE,
+        exits: [{ when: 'elapsed', seconds: 'nudgeHoldSeconds', to: "pairShare" }],
+      },
+      {
+        id: "pairShare",
+        behavior: DiscussionState.PAUSE,
+        label: { he: "שיחה בזוגות", en: "Pair share", ar: "نقاش ثنائي", ru: "Обсуждение в парах" },
+        message: {
+          he: "פנו לשכן או לשכנה ושתפו את המחשבות שלכם. כל אחד מדבר דקה.",
+          en: "Turn to your neighbor and share your thoughts. One minute each.",
+          ar: "التفتوا إلى من بجانبكم وتبادلوا الأفكار. دقيقة لكل شخص.",
+          ru: "Повернитесь к соседу и поделитесь мыслями. По минуте каждому.",
+        },
+        theme: { text: "#547366", background: "#e6efea" },
+        onEnter: [{ type: 'clearFloor' }, { type: 'lowerHands' }],
+        exits: [
+          { when: 'elapsed', seconds: 120, to: DiscussionState.STRUCTURED },
+          { when: 'manual', to: DiscussionState.STRUCTURED },
+        ],
+      },
+      ...DEFAULT_FLOW.states.filter(s => s.id === DiscussionState.STRUCTURED || s.id === DiscussionState.PAUSE || s.id === DiscussionState.CHECKIN),
+    ],
+  },
+  {
+    id: "devils-advocate",
+    name: "Devil's advocate",
+    builtIn: true,
+    initial: DiscussionState.MONITORING,
+    states: [
+      {
+        ...DEFAULT_FLOW.states.find(s => s.id === DiscussionState.MONITORING)!,
+        exits: [
+          { when: 'imbalance', to: DiscussionState.IMBALANCE },
+          { when: 'manual', to: "devilsAdvocate" },
+        ],
+      },
+      ...DEFAULT_FLOW.states.filter(s => s.id !== DiscussionState.MONITORING && s.id !== DiscussionState.STRUCTURED),
+      {
+        id: DiscussionState.STRUCTURED,
+        behavior: DiscussionState.STRUCTURED,
+        exits: [{ when: 'roundComplete', to: "devilsAdvocate" }],
+      },
+      {
+        id: "devilsAdvocate",
+        behavior: DiscussionState.STRUCTURED,
+        label: { he: "פרקליט השטן", en: "Devil's advocate", ar: "محامي الشيطان", ru: "Адвокат дьявола" },
+        message: {
+          he: "כל אחד בתורו טוען נגד הכיוון שהקבוצה נוטה אליו.",
+          en: "Each in turn, argue against the direction the group is leaning.",
+          ar: "كل بدوره، جادل ضد الاتجاه الذي تميل إليه المجموعة.",
+          ru: "По очереди возражайте против решения, к которому склоняется группа.",
+        },
+        theme: { text: "#7d4f38", background: "#f3e6dc" },
+        turnOrder: 'quietFirst',
+        exits: [{ when: 'roundComplete', to: DiscussionState.PAUSE }],
+      },
+    ],
+  },
+];
+
+/** The text of a flow label or message in the session language, falling back to English, then any language. */
+export function flowText(text: FlowText | undefined, language: SessionLanguage): string | undefined {
+  if (typeof text !== 'object') return text;
+  return text[language] ?? text.en ?? Object.values(text)[0];
+}
+
+function readUserFlows(): DiscussionFlow[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(normalizeFlow) : [];
+  } catch (error) {
+    console.error("Flow storage error:", error);
+    return [];
+  }
+}
+
+function writeUserFlows(flows: DiscussionFlow[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(flows.filter(f => !f.builtIn)));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates an untrusted flow (e.g. from an imported file) with `validateFlow`.
+ * Throws with a descriptive message when the flow cannot be used.
+ */
+export function normalizeFlow(input: unknown): DiscussionFlow {
+  if (!isRecord(input)) throw new Error("Flow must be an object");
+  if (typeof input.name !== 'string' || !input.name.trim()) throw new Error("Flow is missing a name");
+  if (!Array.isArray(input.states)) throw new Error(`Flow "${input.name.trim()}" must have a list of states`);
+
+  const flow: DiscussionFlow = {
+    id: typeof input.id === 'string' && input.id ? input.id : `flow-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: input.name.trim(),
+    initial: typeof input.initial === 'string' ? input.initial : '',
+    // Each state is checked by validateFlow below.
+    states: input.states as FlowStateDefinition[],
+  };
+  const errors = validateFlow(flow);
+  if (errors.length > 0) throw new Error(`Flow "${flow.name}" is invalid: ${errors.join('; ')}`);
+  return flow;
+}
+
+export function loadFlows(): DiscussionFlow[] {
+  return [...BUILTIN_FLOWS, ...readUserFlows()];
+}
+
+/** Saves (or overwrites by id) a user flow and returns the full flow list. */
+export function saveFlow(flow: DiscussionFlow): DiscussionFlow[] {
+  const user = readUserFlows().filter(f => f.id !== flow.id);
+  writeUserFlows([...user, { ...flow, builtIn: undefined }]);
+  return loadFlows();
+}
+
+export function deleteFlow(id: string): DiscussionFlow[] {
+  writeUserFlows(readUserFlows().filter(f => f.id !== id));
+  return loadFlows();
+}
+
+export function exportFlow(flow: DiscussionFlow): string {
+  const { builtIn, ...shareable } = flow;
+  return JSON.stringify({ ...shareable, kind: "discussion-flow", version: 1 }, null, 2);
+}
+
+/** Parses an exported flow file; a fresh id is assigned so imports never clobber existing flows. */
+export function importFlow(text: string): DiscussionFlow {
+  const parsed = JSON.parse(text);
+  if (parsed?.kind !== undefined && parsed.kind !== "discussion-flow") {
+    throw new Error("File is not a discussion flow");
+  }
+  return normalizeFlow({ ...parsed, id: undefined });
+}
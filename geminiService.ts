@@ -1,68 +1,174 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { DiscussionState, EngineContext } from "./types";
+import { DiscussionState, EngineContext, SessionLanguage } from "./types";
+import { LLMSettings, LLMProvider, createProvider, loadLLMSettings, saveLLMSettings, ruleBasedTip, quietestSpeaker, fallbackTip } from "./llmProviders";
+import { LANGUAGES, translate } from "./i18n";
 
-// Initialize the Google GenAI client with the API key from environment variables.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const IMBALANCE_TEXT = "השיח אינו מאוזן כרגע, ישנם קולות שכמעט לא נשמעים";
-const NUDGE_TEXT = "מאטים רגע, כדי לאפשר לאזן את השיח";
-const STRUCTURED_TEXT = "כדי לתת מקום לכולם נעבור עכשיו לסבב תורות";
-const PAUSE_TEXT = "ניקח רגע של שקט כדי לחשוב ולהפנים את מה שנאמר";
-const CHECKIN_TEXT = "נמשיך בשיח רק אם אין התנגדות מהותית";
+let settings: LLMSettings = loadLLMSettings();
+let provider: LLMProvider = createProvider(settings);
 
 // Basic in-memory cache to prevent redundant API calls
 const tipCache: Record<string, string> = {};
 
-export async function getModerationTip(state: DiscussionState, context: EngineContext): Promise<string> {
-  // 1. Check for hardcoded responses for specific intervention states immediately
-  // This bypasses the API call for these states entirely.
-  if (state === DiscussionState.IMBALANCE) return IMBALANCE_TEXT;
-  if (state === DiscussionState.NUDGE) return NUDGE_TEXT;
-  if (state === DiscussionState.STRUCTURED) return STRUCTURED_TEXT;
-  if (state === DiscussionState.PAUSE) return PAUSE_TEXT;
-  if (state === DiscussionState.CHECKIN) return CHECKIN_TEXT;
-
-  // 2. For MONITORING state, try to use the cache or generate a new tip
-  const cacheKey = `${state}-${context.speakers.length}`;
-  if (tipCache[cacheKey]) {
-    return tipCache[cacheKey];
-  }
+export function getLLMSettings(): LLMSettings {
+  return settings;
+}
 
-  const prompt = `
+/** Switches the tip provider at runtime and persists the choice. */
+export function configureLLM(next: LLMSettings) {
+  settings = next;
+  provider = createProvider(next);
+  saveLLMSettings(next);
+  Object.keys(tipCache).forEach(key => delete tipCache[key]);
+}
+
+/**
+ * Identifies the situation a tip is written for. Scores are bucketed to tenths so
+ * the tip refreshes when the balance shifts noticeably, not on every TICK.
+ */
+export function tipCacheKey(state: DiscussionState, context: EngineContext, language: SessionLanguage = 'he'): string {
+  const parts: (string | number | null)[] = [
+    language,
+    state,
+    context.speakers.length,
+    Math.round(context.imbalanceScore * 10),
+    quietestSpeaker(context),
+    context.activeSpeaker,
+  ];
+  // Round summaries depend on who passed, so CHECKIN/PAUSE tips follow the round that just ended.
+  if (state === DiscussionState.PAUSE || state === DiscussionState.CHECKIN) parts.push(context.roundNumber, context.passedTurns.length);
+  return parts.join('|');
+}
+
+/** What the model should produce for each state; the statistics block is shared. */
+const STATE_INSTRUCTIONS: Record<DiscussionState, (context: EngineContext) => string> = {
+  [DiscussionState.MONITORING]: () =>
+    `The discussion is flowing. Provide an encouraging moderation tip for the group to maintain healthy dialogue.
+    If someone interrupts others often, gently remind the group to let people finish.`,
+  [DiscussionState.IMBALANCE]: (context) =>
+    `The discussion has become unbalanced. Gently point out that some voices are barely heard` +
+    `${quietestSpeaker(context) ? ` (for example ${quietestSpeaker(context)})` : ''}, without blaming anyone.`,
+  [DiscussionState.NUDGE]: (context) =>
+    `The moderator is slowing the discussion down. ${quietestSpeaker(context)
+      ? `Warmly invite ${quietestSpeaker(context)} by name to share their view.`
+      : 'Invite those who spoke less to share their view.'}`,
+  [DiscussionState.STRUCTURED]: (context) =>
+    `The group is now in a structured round of turns in this order: ${context.turnOrder.join(', ')}.
+    It is currently ${context.turnOrder[context.turnIndex] ?? 'nobody'}'s turn. Announce whose turn it is in a welcoming way.`,
+  [DiscussionState.PAUSE]: (context) =>
+    `The round (${context.turnOrder.join(', ')}) just ended and the group takes a silent reflection pause.
+    Offer one reflective question about what was shared.`,
+  [DiscussionState.CHECKIN]: (context) =>
+    `Summarize the round that just ended in one sentence: ${context.turnOrder.length} turns` +
+    `${context.passedTurns.length > 0 ? `, ${context.passedTurns.join(', ')} passed` : ''}.
+    Then ask whether the group can continue unless there is a substantive objection.`,
+};
+
+function buildPrompt(state: DiscussionState, context: EngineContext, language: SessionLanguage): string {
+  return `
     You are an expert group discussion moderator.
     The current discussion state is: ${state}.
     Speaker statistics (talk time in seconds): ${JSON.stringify(context.talkTime)}.
     Total discussion time: ${context.totalSeconds}s.
     Current dominance score: ${context.dominanceScore.toFixed(2)}.
+    Currently speaking: ${context.activeSpeaker ?? 'nobody'}.
+    Interruptions made per speaker: ${JSON.stringify(context.interruptionsMade)}.
+    Interruptions suffered per speaker: ${JSON.stringify(context.interruptionsReceived)}.
+
+    ${STATE_INSTRUCTIONS[state](context)}
 
-    Provide a short (one sentence), encouraging moderation tip in Hebrew for the group to maintain healthy dialogue.
-    
     CRITICAL RULES:
-    1. Only suggest keeping up the good work if state is monitoring.
-    2. Respond strictly in Hebrew.
-    3. Be concise (max 12 words).
+    1. Respond with a single sentence addressed to the group.
+    2. Respond strictly in ${LANGUAGES[language].englishName}.
+    3. Be concise (max 15 words).
   `;
+}
+
+export async function getModerationTip(state: DiscussionState, context: EngineContext, language: SessionLanguage = 'he'): Promise<string> {
+  const cacheKey = tipCacheKey(state, context, language);
+  if (tipCache[cacheKey]) {
+    return tipCache[cacheKey];
+  }
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        systemInstruction: "You are a concise, supportive AI moderator for Hebrew speakers.",
-        temperature: 0.7,
-      }
+    const text = await provider.generate({
+      prompt: buildPrompt(state, context, language),
+      systemInstruction: `You are a concise, supportive AI moderator for ${LANGUAGES[language].englishName} speakers.`,
+      temperature: 0.7,
+      offline: () => ruleBasedTip(state, context, language),
     });
-    
-    const text = response.text?.trim() || "שיח פורה לכולם!";
-    tipCache[cacheKey] = text;
-    return text;
+    const tip = text || ruleBasedTip(state, context, language);
+    // Rule-based tips are free to recompute and should follow the live metrics.
+    if (provider.id !== 'rules') tipCache[cacheKey] = tip;
+    return tip;
   } catch (error: any) {
-    console.error("Gemini Error:", error);
-    // If we hit a rate limit (429), return a generic encouraging message
-    if (error?.message?.includes('429') || error?.status === 429) {
-      return "נמשיך להקשיב ולנהל שיח מכבד.";
-    }
-    return "שיח פורה לכולם!";
+    console.error(`${provider.id} provider error:`, error);
+    // Offline, rate-limited (429) or misconfigured: interventions use the fixed texts, MONITORING the metric-driven rules.
+    return state === DiscussionState.MONITORING ? ruleBasedTip(state, context, language) : fallbackTip(state, language);
   }
 }
+
+export interface RoundSummary {
+  round: number;
+  /** One line per participant, in turn order. */
+  lines: { speaker: string, text: string }[];
+}
+
+const clipWords = (text: string, maxWords: number) => {
+  const words = text.split(/\s+/).filter(Boolean);
+  return words.length > maxWords ? `${words.slice(0, maxWords).join(' ')}…` : words.join(' ');
+};
+
+/** Per-participant lines built straight from the transcript, without a model. */
+function ruleBasedRoundSummary(context: EngineContext, said: Record<string, string>, language: SessionLanguage): RoundSummary['lines'] {
+  return context.turnOrder.map(speaker => ({
+    speaker,
+    text: context.passedTurns.includes(speaker) ? translate(language, 'summary.passed')
+      : said[speaker] ? clipWords(said[speaker], 20)
+      : translate(language, 'summary.nothing'),
+  }));
+}
+
+/**
+ * Summarizes what each participant said in the latest STRUCTURED round, from the
+ * transcript segments tagged with that round. Returns null when nothing was transcribed.
+ */
+export async function summarizeRound(context: EngineContext, language: SessionLanguage = 'he'): Promise<RoundSummary | null> {
+  const round = context.roundNumber;
+  const segments = context.transcript.filter(s => s.round === round && s.speaker);
+  if (round === 0 || segments.length === 0) return null;
+
+  const said: Record<string, string> = {};
+  segments.forEach(s => { said[s.speaker!] = said[s.speaker!] ? `${said[s.speaker!]} ${s.text}` : s.text; });
+  const offlineLines = ruleBasedRoundSummary(context, said, language);
+  const offline = () => offlineLines.map(l => `${l.speaker}: ${l.text}`).join('\n');
+
+  const prompt = `
+    These are the transcribed contributions of each participant in a structured round of a group discussion:
+    ${context.turnOrder.map(s => `${s}: ${context.passedTurns.includes(s) ? '(passed)' : said[s] ?? '(nothing transcribed)'}`).join('\n    ')}
+
+    Summarize what each participant said in one short line each, in the same order.
+    Format every line exactly as "<name>: <summary>".
+    Respond strictly in ${LANGUAGES[language].englishName}, keep the names unchanged.
+  `;
+
+  let text: string;
+  try {
+    text = await provider.generate({
+      prompt,
+      systemInstruction: "You are a neutral note-taker for a facilitated discussion.",
+      temperature: 0.3,
+      offline,
+    });
+  } catch (error) {
+    console.error(`${provider.id} provider error:`, error);
+    text = offline();
+  }
+
+  // Keep the model's line for each participant when it follows the format, else the transcript excerpt.
+  const lines = offlineLines.map(fallback => {
+    const match = text.split('\n').map(l => l.trim()).find(l => l.startsWith(`${fallback.speaker}:`));
+    const summary = match?.slice(fallback.speaker.length + 1).trim();
+    return summary ? { speaker: fallback.speaker, text: summary } : fallback;
+  });
+  return { round, lines };
+}
@@ -0,0 +1,1170 @@
+import { createContext, useContext } from 'react';
+import { SessionLanguage } from './types';
+
+export interface LanguageInfo {
+  id: SessionLanguage;
+  /** Name in the language itself, for the language picker. */
+  name: string;
+  /** English name, used when instructing the LLM which language to answer in. */
+  englishName: string;
+  dir: 'rtl' | 'ltr';
+  /** BCP 47 tag for speech recognition and synthesis. */
+  locale: string;
+}
+
+export const LANGUAGES: Record<SessionLanguage, LanguageInfo> = {
+  he: { id: 'he', name: 'עברית', englishName: 'Hebrew', dir: 'rtl', locale: 'he-IL' },
+  en: { id: 'en', name: 'English', englishName: 'English', dir: 'ltr', locale: 'en-US' },
+  ar: { id: 'ar', name: 'العربية', englishName: 'Arabic', dir: 'rtl', locale: 'ar' },
+  ru: { id: 'ru', name: 'Русский', englishName: 'Russian', dir: 'ltr', locale: 'ru-RU' },
+};
+
+export const LANGUAGE_IDS = Object.keys(LANGUAGES) as SessionLanguage[];
+
+/** Hebrew is the source catalog; every other catalog must provide the same keys. */
+const he = {
+  'state.monitoring': 'שיח פתוח',
+  'state.imbalanceDetected': 'זוהה חוסר איזון',
+  'state.nudge': 'מאטים רגע',
+  'state.structuredTurnTaking': 'סבב תורות',
+  'state.reflectionPause': 'שתיקה רפלקטיבית',
+  'state.checkIn': 'בודקים אם אפשר להמשיך',
+
+  'app.quietVoice': 'הקול השקט',
+  'app.controlPanel': 'לוח בקרה',
+  'app.language': 'שפת השיח',
+  'app.auto': 'אוטו',
+  'app.manual': 'ידני',
+  'app.autoManage': 'ניהול אוטומטי',
+  'app.start': 'הפעל',
+  'app.stop': 'עצור',
+  'app.silence': 'שקט',
+  'app.cancel': 'בטל',
+  'clock.break': 'הפסקה',
+  'clock.resume': 'חזרה לדיון',
+  'clock.paused': 'הדיון בהפסקה',
+  'clock.speed': 'מהירות השעון',
+  'app.micOn': 'זיהוי דיבור מהמיקרופון',
+  'app.micOff': 'כיבוי זיהוי דיבור',
+  'app.participantsPlaceholder': 'שמות המשתתפים',
+  'app.overlapHint': 'Shift+קליק: דיבור חופף',
+  'app.interruptions': 'קטיעות',
+  'app.enrollStart': 'הקלטת דגימת קול',
+  'app.enrollCancel': 'ביטול הקלטת קול',
+  'app.quietModeOn': 'מצב "קול שקט"',
+  'app.quietModeOff': 'בטל "קול שקט"',
+  'app.balanceIndex': 'מדד איזון',
+  'app.totalTime': 'זמן כולל',
+  'app.addParticipants': 'הוסיפו משתתפים בלוח הבקרה כדי להתחיל...',
+  'app.chooseQuiet': 'נא לבחור "קול שקט" מלוח הבקרה',
+  'app.pauseCaption': 'מרחב שקט להתבוננות והפנמה',
+  'app.checkinCaption': 'בודקים אם אפשר להמשיך בשיח',
+  'app.roundSummary': 'מה נאמר בסבב',
+  'app.speakerOf': 'דובר {index} מתוך {total}',
+  'app.passedList': 'ויתרו על התור: {names}',
+  'app.pass': 'דילוג',
+  'app.passTitle': 'ויתור על התור',
+  'app.quietViewTip': 'עכשיו זמן להקשיב למי שטרם השמיע את קולו',
+  'app.interventionCountdown': 'נראה שיש חוסר איזון בשיח. המערכת תתערב בעוד {seconds} שניות.',
+
+  'metric.dominance': 'דומיננטיות',
+  'metric.gini': 'ג׳יני',
+  'metric.entropy': 'אנטרופיה',
+  'metric.turnShare': 'חלוקת תורות',
+  'metric.interruptionRate': 'קטיעות',
+
+  'turnOrder.roster': 'לפי סדר הרשימה',
+  'turnOrder.leastTalkFirst': 'הכי פחות דיבור קודם',
+  'turnOrder.quietFirst': 'הקול השקט קודם',
+  'turnOrder.random': 'אקראי',
+  'turnOrder.skipDominant': 'בלי הדובר הדומיננטי',
+
+  'settings.title': 'הגדרות זמנים וספים',
+  'settings.metric': 'מדד לזיהוי חוסר איזון',
+  'settings.weighted': 'שקלול',
+  'settings.weight': 'משקל {metric}',
+  'settings.turnOrder': 'סדר התורות בסבב',
+  'settings.reset': 'ברירת מחדל',
+  'settings.field.imbalanceScoreThreshold': 'סף מדד איזון',
+  'settings.field.gracePeriodSeconds': 'זמן חסד בפתיחה (ש׳)',
+  'settings.field.monologueLimitSeconds': 'מגבלת מונולוג (ש׳)',
+  'settings.field.imbalanceHoldSeconds': 'התראה לפני חוסר איזון (ש׳)',
+  'settings.field.imbalanceStateSeconds': 'משך חוסר איזון (ש׳)',
+  'settings.field.nudgeHoldSeconds': 'משך האטה (ש׳)',
+  'settings.field.turnHoldSeconds': 'משך תור בסבב (ש׳)',
+  'settings.field.adaptiveTurnBoost': 'הארכת תור לשקטים (0–1)',
+  'settings.field.pauseSeconds': 'משך שתיקה (ש׳)',
+  'settings.field.checkinSeconds': 'משך בדיקת המשך (ש׳)',
+  'settings.field.checkinObjectionQuorum': 'התנגדויות לסבב נוסף',
+  'settings.field.interrupterThreshold': 'סף קטיעות לדובר (0 = כבוי)',
+  'settings.field.imbalanceWindowSeconds': 'חלון מדידה נע (ש׳, 0 = מצטבר)',
+  'settings.field.windowBucketSeconds': 'רזולוציית היסטוריה (ש׳)',
+  'settings.field.windowDecayHalfLifeSeconds': 'זמן מחצית דעיכה (ש׳, 0 = ללא)',
+  'settings.field.agendaWarningSeconds': 'התראה לפני סוף נושא (ש׳)',
+
+  'preset.placeholder': 'פרופיל הנחיה...',
+  'preset.export': 'ייצוא פרופיל',
+  'preset.import': 'ייבוא פרופיל',
+  'preset.delete': 'מחיקת פרופיל',
+  'preset.saveAs': 'שמירת ההגדרות כפרופיל',
+  'preset.saveFailed': 'שמירה נכשלה',
+  'preset.builtin-brainstorm': 'סיעור מוחות',
+  'preset.builtin-decision': 'ישיבת החלטות',
+  'preset.builtin-classroom': 'כיתה',
+
+  'common.invalidFile': 'קובץ לא תקין',
+  'common.serverUrl': 'כתובת שרת',
+  'common.model': 'שם מודל',
+
+  'replay.title': 'הקלטה ושחזור',
+  'replay.export': 'ייצוא יומן אירועים',
+  'replay.load': 'טעינת יומן אירועים',
+  'replay.replay': 'שחזור',
+  'replay.backToLive': 'חזרה לשידור חי',
+
+  'llm.title': 'מודל שפה',
+  'llm.provider': 'ספק',
+  'llm.apiKey': 'מפתח API',
+  'llm.keyFromEnv': 'מהסביבה',
+  'llm.noKey': 'ללא',
+  'llm.offlineNote': 'כשהמודל אינו זמין, ההמלצות מחושבות מהמדדים ללא רשת.',
+  'llmProvider.gemini': 'Gemini',
+  'llmProvider.openai': 'OpenAI-compatible',
+  'llmProvider.rules': 'ללא מודל (כללים)',
+
+  'transcript.title': 'תמלול חי',
+  'transcript.segments': '{count} קטעים',
+  'transcript.engine': 'מנוע',
+  'transcript.browser': 'זיהוי דיבור בדפדפן',
+  'transcript.whisper': 'שרת Whisper',
+  'transcript.start': 'התחלת תמלול',
+  'transcript.stop': 'עצירת תמלול',
+
+  'report.title': 'דוח סיכום שיח',
+  'report.htmlTitle': 'דוח שיח – {date}',
+  'report.summaryLine': 'משך {duration} שניות · {turns} תורות דיבור',
+  'report.dateLine': '{date} · משך {duration} שניות',
+  'report.empty': 'עדיין אין נתוני דיבור בשיח הזה',
+  'report.talkBySpeaker': 'זמן דיבור לפי משתתף',
+  'report.participant': 'משתתף',
+  'report.talkTime': 'זמן דיבור',
+  'report.share': 'חלק',
+  'report.turns': 'תורות',
+  'report.timeToFirst': 'זמן עד השתתפות ראשונה',
+  'report.timeline': 'ציר זמן תורות',
+  'report.dominanceOverTime': 'מדד דומיננטיות לאורך זמן',
+  'report.stateEntries': 'כניסות למצבים',
+  'report.state': 'מצב',
+  'report.entries': 'כניסות',
+  'report.longestMonologues': 'המונולוגים הארוכים ביותר',
+  'report.duration': 'משך',
+  'report.range': 'טווח',
+
+  'tip.waiting': 'מחכים למשתתפים שיצטרפו לשיח...',
+  'tip.fallback.monitoring': 'שיח פורה לכולם!',
+  'tip.fallback.imbalanceDetected': 'השיח אינו מאוזן כרגע, ישנם קולות שכמעט לא נשמעים',
+  'tip.fallback.nudge': 'מאטים רגע, כדי לאפשר לאזן את השיח',
+  'tip.fallback.structuredTurnTaking': 'כדי לתת מקום לכולם נעבור עכשיו לסבב תורות',
+  'tip.fallback.reflectionPause': 'ניקח רגע של שקט כדי לחשוב ולהפנים את מה שנאמר',
+  'tip.fallback.checkIn': 'נמשיך בשיח רק אם אין התנגדות מהותית',
+  'tip.imbalance': 'השיח נוטה כרגע לכיוון {top} – בואו נפנה מקום גם ל-{quiet}',
+  'tip.nudge': '{name}, נשמח לשמוע את דעתך',
+  'tip.turnNext': 'סבב תורות – עכשיו התור של {holder}, ואחריו {next}',
+  'tip.turnLast': 'סבב תורות – {holder} סוגר/ת את הסבב',
+  'tip.pause': 'רגע של שקט – מה נשאר איתכם ממה שאמרו {names}?',
+  'tip.checkin': 'בסבב דיברו {spoke} מתוך {total} – ממשיכים אם אין התנגדות מהותית',
+  'tip.checkinPassed': 'בסבב דיברו {spoke} מתוך {total} ו-{passed} ויתרו – ממשיכים אם אין התנגדות מהותית',
+  'tip.interrupter': '{name}, כדאי לתת לאחרים לסיים את דבריהם',
+  'tip.monologue': '{name}, אולי כדאי לסכם ולתת למישהו אחר להגיב',
+  'tip.inviteQuiet': 'נשמח לשמוע גם את {name}',
+  'tip.opening': 'מי ירצה לפתוח?',
+  'tip.balanced': 'השיח מאוזן – ממשיכים כך!',
+
+  'summary.passed': 'ויתר/ה על התור',
+  'summary.nothing': 'לא תומלל דבר',
+
+  'sync.title': 'תצוגות נוספות',
+  'sync.start': 'שיתוף המפגש',
+  'sync.stop': 'הפסקת השיתוף',
+  'sync.session': 'קוד מפגש',
+  'sync.roomLink': 'מסך החדר',
+  'sync.participantLink': 'טלפון משתתף',
+  'sync.status.connecting': 'מתחבר...',
+  'sync.status.open': 'מחובר',
+  'sync.status.closed': 'מנותק',
+  'sync.presence': 'מסכים: {rooms} · משתתפים: {participants}',
+  'sync.waiting': 'ממתינים למנחה...',
+  'sync.chooseName': 'מי אתם?',
+  'sync.changeName': 'החלפת שם',
+  'sync.forbidden': 'מסוף אחר כבר משתף את המפגש הזה.',
+  'sync.nameTaken': '{name} כבר מחובר/ת מטלפון אחר.',
+  'sync.yourTurn': 'תורך לדבר',
+  'sync.turnOf': 'התור של {name}',
+  'sync.nextUp': 'הבא בתור: {name}',
+  'sync.yourTalk': 'זמן הדיבור שלך',
+  'sync.share': '{percent}% מזמן השיח',
+
+  'hand.raise': 'הרמת יד',
+  'hand.lower': 'הורדת יד',
+  'hand.queue': 'ידיים מורמות: {names}',
+  'hand.position': 'מקומך בתור: {position}',
+  'vote.question': 'אפשר להמשיך בשיח?',
+  'vote.continue': 'אפשר להמשיך',
+  'vote.object': 'התנגדות מהותית',
+  'vote.anotherRound': 'סבב נוסף',
+  'vote.tally': 'ממשיכים: {continue} · התנגדויות: {object} · טרם הצביעו: {pending}',
+  'shortcuts.title': 'קיצורי מקלדת',
+  'shortcuts.help': '1–9: הרמת/הורדת יד · בבדיקת המשך: 1–9 אפשר להמשיך, Shift+1–9 התנגדות · N: התור הבא · P: דילוג · C: ממשיכים · R: סבב נוסף',
+
+  'history.title': 'היסטוריית שיחים',
+  'history.new': 'שיח חדש',
+  'history.empty': 'עדיין לא נשמרו שיחים בדפדפן הזה',
+  'history.compareHint': 'סמנו עד {max} שיחים כדי להשוות ביניהם',
+  'history.compare': 'השוואה',
+  'history.rename': 'לחצו כדי לשנות שם',
+  'history.meta': '{date} · {participants} משתתפים · {duration} שניות',
+  'history.current': 'השיח הנוכחי',
+  'history.open': 'פתיחה',
+  'history.delete': 'מחיקה',
+  'history.confirmDelete': 'למחוק את "{name}"? לא ניתן לשחזר.',
+  'history.comparison': 'השוואת שיחים',
+  'history.participants': 'משתתפים',
+  'history.rounds': 'סבבים',
+  'history.topShare': 'החלק הגבוה ביותר',
+
+  'roster.title': 'קבוצות קבועות',
+  'roster.placeholder': 'בחירת קבוצה שמורה',
+  'roster.option': '{name} ({count})',
+  'roster.load': 'טעינת הקבוצה לשיח',
+  'roster.delete': 'מחיקת הקבוצה',
+  'roster.colorHint': 'לחצו להחלפת צבע',
+  'roster.role': 'תפקיד (לא חובה)',
+  'roster.saveAs': 'שמירת המשתתפים כקבוצה...',
+  'history.tab.sessions': 'שיחים',
+  'history.tab.trends': 'מגמות',
+  'trends.hint': 'חלק הדיבור של כל אדם לאורך השיחים; נקודה כתומה מסמנת שיח שבו היה שקט',
+  'trends.allPeople': 'כל המשתתפים',
+  'trends.sessions': 'שיחים',
+  'trends.averageShare': 'חלק ממוצע',
+  'trends.quietRate': 'שיחים בשקט',
+  'trends.shareOverTime': 'חלק לאורך זמן',
+
+  'agenda.title': 'סדר יום',
+  'agenda.titleWithCurrent': 'סדר יום · {title}',
+  'agenda.newTopic': 'נושא {n}',
+  'agenda.start': 'מעבר לנושא הזה',
+  'agenda.remove': 'הסרת הנושא',
+  'agenda.minutes': 'משך הנושא בדקות',
+  'agenda.minutesShort': 'דק׳',
+  'agenda.mode.open': 'דיון פתוח',
+  'agenda.mode.structured': 'סבב תורות',
+  'agenda.mode.reflection': 'הרהור שקט',
+  'agenda.add': 'נושא',
+  'agenda.begin': 'התחלת סדר היום',
+  'agenda.next': 'לנושא הבא',
+  'agenda.finish': 'סיום סדר היום',
+  'agenda.current': '{title} · נותרו {remaining}',
+  'agenda.overtime': '{title} · חריגה של {over}',
+  'report.topics': 'איזון לפי נושא',
+  'report.topic': 'נושא',
+  'report.timebox': 'זמן / מוקצב',
+  'report.topSpeaker': 'דיבר/ה הכי הרבה',
+
+  'flow.title': 'מהלך הדיון',
+  'flow.default': 'מהלך רגיל',
+  'flow.skip-nudge': 'ישר לסבבים',
+  'flow.pair-share': 'שיחה בזוגות',
+  'flow.devils-advocate': 'פרקליט השטן',
+  'flow.export': 'ייצוא מהלך',
+  'flow.import': 'ייבוא מהלך',
+  'flow.delete': 'מחיקת מהלך',
+
+  'cue.title': 'רמזים קוליים',
+  'cue.enabled': 'השמעת רמזים',
+  'cue.volume': 'עוצמה',
+  'cue.chime': 'צליל מעבר',
+  'cue.chime.bell': 'פעמון',
+  'cue.chime.soft': 'אקורד רך',
+  'cue.chime.wood': 'קוביית עץ',
+  'cue.speakMessages': 'הקראת הודעות המצב',
+  'cue.announceTurns': 'הכרזה על הדובר הבא',
+  'cue.pauseGong': 'גונג בתחילת הפסקה ובסופה',
+  'cue.states': 'מצבים עם רמזים',
+  'cue.noSpeech': 'הדפדפן אינו תומך בהקראה',
+  'cue.test': 'בדיקת צליל',
+  'cue.imbalanceDetected': 'נראה שכמה קולות תופסים את רוב הדיון.',
+  'cue.nudge': 'בואו נאט רגע ונשאיר מקום לאחרים.',
+  'cue.structuredTurnTaking': 'עכשיו נעבור בסבב, כל אחד בתורו.',
+  'cue.reflectionPause': 'ניקח רגע של שקט כדי לחשוב.',
+  'cue.checkIn': 'האם אפשר להמשיך? הצביעו בבקשה.',
+  'cue.nextSpeaker': '{name}, רשות הדיבור שלך.',
+};
+
+export type MessageKey = keyof typeof he;
+type Catalog = Record<MessageKey, string>;
+
+const en: Catalog = {
+  'state.monitoring': 'Open discussion',
+  'state.imbalanceDetected': 'Imbalance detected',
+  'state.nudge': 'Slowing down',
+  'state.structuredTurnTaking': 'Round of turns',
+  'state.reflectionPause': 'Reflective silence',
+  'state.checkIn': 'Checking whether to continue',
+
+  'app.quietVoice': 'The quiet voice',
+  'app.controlPanel': 'Control panel',
+  'app.language': 'Session language',
+  'app.auto': 'Auto',
+  'app.manual': 'Manual',
+  'app.autoManage': 'Automatic facilitation',
+  'app.start': 'Start',
+  'app.stop': 'Stop',
+  'app.silence': 'Silence',
+  'app.cancel': 'Cancel',
+  'clock.break': 'Break',
+  'clock.resume': 'Resume',
+  'clock.paused': 'The session is on a break',
+  'clock.speed': 'Clock speed',
+  'app.micOn': 'Detect speech from the microphone',
+  'app.micOff': 'Turn off speech detection',
+  'app.participantsPlaceholder': 'Participant names',
+  'app.overlapHint': 'Shift+click: overlapping speech',
+  'app.interruptions': 'Interruptions',
+  'app.enrollStart': 'Record a voice sample',
+  'app.enrollCancel': 'Cancel voice recording',
+  'app.quietModeOn': '"Quiet voice" mode',
+  'app.quietModeOff': 'Exit "quiet voice"',
+  'app.balanceIndex': 'Balance index',
+  'app.totalTime': 'Total time',
+  'app.addParticipants': 'Add participants in the control panel to begin...',
+  'app.chooseQuiet': 'Please choose a "quiet voice" in the control panel',
+  'app.pauseCaption': 'A quiet space to reflect and absorb',
+  'app.checkinCaption': 'Checking whether we can continue',
+  'app.roundSummary': 'What was said this round',
+  'app.speakerOf': 'Speaker {index} of {total}',
+  'app.passedList': 'Passed: {names}',
+  'app.pass': 'Pass',
+  'app.passTitle': 'Pass on this turn',
+  'app.quietViewTip': 'Now is the time to listen to those who have not spoken yet',
+  'app.interventionCountdown': 'The discussion seems unbalanced. The system will step in in {seconds} seconds.',
+
+  'metric.dominance': 'Dominance',
+  'metric.gini': 'Gini',
+  'metric.entropy': 'Entropy',
+  'metric.turnShare': 'Turn share',
+  'metric.interruptionRate': 'Interruptions',
+
+  'turnOrder.roster': 'Roster order',
+  'turnOrder.leastTalkFirst': 'Least talk first',
+  'turnOrder.quietFirst': 'Quiet voice first',
+  'turnOrder.random': 'Random',
+  'turnOrder.skipDominant': 'Skip the dominant speaker',
+
+  'settings.title': 'Timings and thresholds',
+  'settings.metric': 'Imbalance metric',
+  'settings.weighted': 'Weighted',
+  'settings.weight': '{metric} weight',
+  'settings.turnOrder': 'Round order',
+  'settings.reset': 'Defaults',
+  'settings.field.imbalanceScoreThreshold': 'Balance score threshold',
+  'settings.field.gracePeriodSeconds': 'Opening grace period (s)',
+  'settings.field.monologueLimitSeconds': 'Monologue limit (s)',
+  'settings.field.imbalanceHoldSeconds': 'Warning before imbalance (s)',
+  'settings.field.imbalanceStateSeconds': 'Imbalance duration (s)',
+  'settings.field.nudgeHoldSeconds': 'Slow-down duration (s)',
+  'settings.field.turnHoldSeconds': 'Turn length (s)',
+  'settings.field.adaptiveTurnBoost': 'Longer turns for quiet voices (0–1)',
+  'settings.field.pauseSeconds': 'Silence duration (s)',
+  'settings.field.checkinSeconds': 'Check-in duration (s)',
+  'settings.field.checkinObjectionQuorum': 'Objections for another round',
+  'settings.field.interrupterThreshold': 'Interruptions per speaker (0 = off)',
+  'settings.field.imbalanceWindowSeconds': 'Rolling window (s, 0 = cumulative)',
+  'settings.field.windowBucketSeconds': 'History resolution (s)',
+  'settings.field.windowDecayHalfLifeSeconds': 'Decay half-life (s, 0 = none)',
+  'settings.field.agendaWarningSeconds': 'Warn before topic ends (s)',
+
+  'preset.placeholder': 'Facilitation profile...',
+  'preset.export': 'Export profile',
+  'preset.import': 'Import profile',
+  'preset.delete': 'Delete profile',
+  'preset.saveAs': 'Save settings as a profile',
+  'preset.saveFailed': 'Saving failed',
+  'preset.builtin-brainstorm': 'Brainstorm',
+  'preset.builtin-decision': 'Decision meeting',
+  'preset.builtin-classroom': 'Classroom',
+
+  'common.invalidFile': 'Invalid file',
+  'common.serverUrl': 'Server URL',
+  'common.model': 'Model name',
+
+  'replay.title': 'Recording and replay',
+  'replay.export': 'Export event log',
+  'replay.load': 'Load event log',
+  'replay.replay': 'Replay',
+  'replay.backToLive': 'Back to live',
+
+  'llm.title': 'Language model',
+  'llm.provider': 'Provider',
+  'llm.apiKey': 'API key',
+  'llm.keyFromEnv': 'From environment',
+  'llm.noKey': 'None',
+  'llm.offlineNote': 'When the model is unavailable, tips are computed from the metrics offline.',
+  'llmProvider.gemini': 'Gemini',
+  'llmProvider.openai': 'OpenAI-compatible',
+  'llmProvider.rules': 'No model (rules)',
+
+  'transcript.title': 'Live transcript',
+  'transcript.segments': '{count} segments',
+  'transcript.engine': 'Engine',
+  'transcript.browser': 'Browser speech recognition',
+  'transcript.whisper': 'Whisper server',
+  'transcript.start': 'Start transcribing',
+  'transcript.stop': 'Stop transcribing',
+
+  'report.title': 'Discussion summary report',
+  'report.htmlTitle': 'Discussion report – {date}',
+  'report.summaryLine': '{duration} seconds · {turns} speaking turns',
+  'report.dateLine': '{date} · {duration} seconds',
+  'report.empty': 'No speech data in this discussion yet',
+  'report.talkBySpeaker': 'Talk time by participant',
+  'report.participant': 'Participant',
+  'report.talkTime': 'Talk time',
+  'report.share': 'Share',
+  'report.turns': 'Turns',
+  'report.timeToFirst': 'Time to first contribution',
+  'report.timeline': 'Turn timeline',
+  'report.dominanceOverTime': 'Dominance over time',
+  'report.stateEntries': 'State entries',
+  'report.state': 'State',
+  'report.entries': 'Entries',
+  'report.longestMonologues': 'Longest monologues',
+  'report.duration': 'Duration',
+  'report.range': 'Range',
+
+  'tip.waiting': 'Waiting for participants to join the discussion...',
+  'tip.fallback.monitoring': 'A fruitful discussion to everyone!',
+  'tip.fallback.imbalanceDetected': 'The discussion is unbalanced right now; some voices are barely heard',
+  'tip.fallback.nudge': 'Slowing down for a moment to let the discussion rebalance',
+  'tip.fallback.structuredTurnTaking': 'To make room for everyone, we will now go around in turns',
+  'tip.fallback.reflectionPause': 'Let us take a quiet moment to think about what was said',
+  'tip.fallback.checkIn': 'We will continue unless there is a substantive objection',
+  'tip.imbalance': 'The discussion is leaning towards {top} – let us make room for {quiet} too',
+  'tip.nudge': '{name}, we would love to hear your view',
+  'tip.turnNext': 'Round of turns – now it is {holder}\'s turn, then {next}',
+  'tip.turnLast': 'Round of turns – {holder} closes the round',
+  'tip.pause': 'A quiet moment – what stays with you from what {names} said?',
+  'tip.checkin': '{spoke} of {total} spoke this round – we continue unless there is a substantive objection',
+  'tip.checkinPassed': '{spoke} of {total} spoke this round and {passed} passed – we continue unless there is a substantive objection',
+  'tip.interrupter': '{name}, please let others finish their thoughts',
+  'tip.monologue': '{name}, maybe wrap up and let someone else respond',
+  'tip.inviteQuiet': 'We would love to hear from {name} too',
+  'tip.opening': 'Who would like to start?',
+  'tip.balanced': 'The discussion is balanced – keep it up!',
+
+  'summary.passed': 'Passed on the turn',
+  'summary.nothing': 'Nothing transcribed',
+
+  'sync.title': 'Remote views',
+  'sync.start': 'Share session',
+  'sync.stop': 'Stop sharing',
+  'sync.session': 'Session code',
+  'sync.roomLink': 'Room display',
+  'sync.participantLink': 'Participant phone',
+  'sync.status.connecting': 'Connecting...',
+  'sync.status.open': 'Connected',
+  'sync.status.closed': 'Disconnected',
+  'sync.presence': 'Displays: {rooms} · Participants: {participants}',
+  'sync.waiting': 'Waiting for the facilitator...',
+  'sync.chooseName': 'Who are you?',
+  'sync.changeName': 'Change name',
+  'sync.forbidden': 'Another console is already sharing this session.',
+  'sync.nameTaken': '{name} is already connected from another phone.',
+  'sync.yourTurn': 'Your turn to speak',
+  'sync.turnOf': 'Turn: {name}',
+  'sync.nextUp': 'Next up: {name}',
+  'sync.yourTalk': 'Your talk time',
+  'sync.share': '{percent}% of the discussion',
+
+  'hand.raise': 'Raise hand',
+  'hand.lower': 'Lower hand',
+  'hand.queue': 'Hands raised: {names}',
+  'hand.position': 'Your place in line: {position}',
+  'vote.question': 'Can we continue?',
+  'vote.continue': 'Fine to continue',
+  'vote.object': 'Substantial objection',
+  'vote.anotherRound': 'Another round',
+  'vote.tally': 'Continue: {continue} · Objections: {object} · Not voted: {pending}',
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.help': '1–9: raise/lower hand · At check-in: 1–9 continue, Shift+1–9 objection · N: next turn · P: pass · C: continue · R: another round',
+
+  'history.title': 'Session history',
+  'history.new': 'New session',
+  'history.empty': 'No sessions saved in this browser yet',
+  'history.compareHint': 'Tick up to {max} sessions to compare them',
+  'history.compare': 'Compare',
+  'history.rename': 'Click to rename',
+  'history.meta': '{date} · {participants} participants · {duration} seconds',
+  'history.current': 'Current session',
+  'history.open': 'Open',
+  'history.delete': 'Delete',
+  'history.confirmDelete': 'Delete "{name}"? This cannot be undone.',
+  'history.comparison': 'Session comparison',
+  'history.participants': 'Participants',
+  'history.rounds': 'Rounds',
+  'history.topShare': 'Largest share',
+
+  'roster.title': 'Recurring groups',
+  'roster.placeholder': 'Choose a saved group',
+  'roster.option': '{name} ({count})',
+  'roster.load': 'Load the group into the session',
+  'roster.delete': 'Delete the group',
+  'roster.colorHint': 'Click to change color',
+  'roster.role': 'Role (optional)',
+  'roster.saveAs': 'Save participants as a group...',
+  'history.tab.sessions': 'Sessions',
+  'history.tab.trends': 'Trends',
+  'trends.hint': 'Each person\'s talk share across sessions; an orange dot marks a session where they were quiet',
+  'trends.allPeople': 'All participants',
+  'trends.sessions': 'Sessions',
+  'trends.averageShare': 'Average share',
+  'trends.quietRate': 'Quiet sessions',
+  'trends.shareOverTime': 'Share over time',
+
+  'agenda.title': 'Agenda',
+  'agenda.titleWithCurrent': 'Agenda · {title}',
+  'agenda.newTopic': 'Topic {n}',
+  'agenda.start': 'Go to this topic',
+  'agenda.remove': 'Remove topic',
+  'agenda.minutes': 'Timebox in minutes',
+  'agenda.minutesShort': 'min',
+  'agenda.mode.open': 'Open discussion',
+  'agenda.mode.structured': 'Structured round',
+  'agenda.mode.reflection': 'Silent reflection',
+  'agenda.add': 'Topic',
+  'agenda.begin': 'Start agenda',
+  'agenda.next': 'Next topic',
+  'agenda.finish': 'Close agenda',
+  'agenda.current': '{title} · {remaining} left',
+  'agenda.overtime': '{title} · {over} over time',
+  'report.topics': 'Balance by topic',
+  'report.topic': 'Topic',
+  'report.timebox': 'Time / timebox',
+  'report.topSpeaker': 'Spoke most',
+
+  'flow.title': 'Discussion flow',
+  'flow.default': 'Standard flow',
+  'flow.skip-nudge': 'Straight to rounds',
+  'flow.pair-share': 'Pair share',
+  'flow.devils-advocate': 'Devils advocate',
+  'flow.export': 'Export flow',
+  'flow.import': 'Import flow',
+  'flow.delete': 'Delete flow',
+
+  'cue.title': 'Audio cues',
+  'cue.enabled': 'Play cues',
+  'cue.volume': 'Volume',
+  'cue.chime': 'Transition chime',
+  'cue.chime.bell': 'Bell',
+  'cue.chime.soft': 'Soft chord',
+  'cue.chime.wood': 'Wood block',
+  'cue.speakMessages': 'Speak the state messages',
+  'cue.announceTurns': 'Announce the next speaker',
+  'cue.pauseGong': 'Gong at the start and end of a pause',
+  'cue.states': 'States with cues',
+  'cue.noSpeech': 'This browser cannot speak',
+  'cue.test': 'Test sound',
+  'cue.imbalanceDetected': 'A few voices seem to be carrying most of the discussion.',
+  'cue.nudge': 'Let us slow down for a moment and leave room for others.',
+  'cue.structuredTurnTaking': 'We will now go around, one at a time.',
+  'cue.reflectionPause': 'Let us take a moment of silence to reflect.',
+  'cue.checkIn': 'Can we continue? Please cast your vote.',
+  'cue.nextSpeaker': '{name}, the floor is yours.',
+};
+
+const ar: Catalog = {
+  'state.monitoring': 'نقاش مفتوح',
+  'state.imbalanceDetected': 'تم رصد عدم توازن',
+  'state.nudge': 'نتمهّل قليلاً',
+  'state.structuredTurnTaking': 'جولة أدوار',
+  'state.reflectionPause': 'صمت تأمّلي',
+  'state.checkIn': 'نتحقق إن كان بالإمكان المتابعة',
+
+  'app.quietVoice': 'الصوت الهادئ',
+  'app.controlPanel': 'لوحة التحكم',
+  'app.language': 'لغة النقاش',
+  'app.auto': 'تلقائي',
+  'app.manual': 'يدوي',
+  'app.autoManage': 'إدارة تلقائية',
+  'app.start': 'تشغيل',
+  'app.stop': 'إيقاف',
+  'app.silence': 'صمت',
+  'app.cancel': 'إلغاء',
+  'clock.break': 'استراحة',
+  'clock.resume': 'استئناف',
+  'clock.paused': 'الجلسة في استراحة',
+  'clock.speed': 'سرعة الساعة',
+  'app.micOn': 'رصد الكلام من الميكروفون',
+  'app.micOff': 'إيقاف رصد الكلام',
+  'app.participantsPlaceholder': 'أسماء المشاركين',
+  'app.overlapHint': 'Shift+نقرة: كلام متداخل',
+  'app.interruptions': 'مقاطعات',
+  'app.enrollStart': 'تسجيل عيّنة صوت',
+  'app.enrollCancel': 'إلغاء تسجيل الصوت',
+  'app.quietModeOn': 'وضع "الصوت الهادئ"',
+  'app.quietModeOff': 'إلغاء "الصوت الهادئ"',
+  'app.balanceIndex': 'مؤشر التوازن',
+  'app.totalTime': 'الوقت الكلي',
+  'app.addParticipants': 'أضيفوا مشاركين في لوحة التحكم للبدء...',
+  'app.chooseQuiet': 'يرجى اختيار "صوت هادئ" من لوحة التحكم',
+  'app.pauseCaption': 'مساحة هادئة للتأمّل والاستيعاب',
+  'app.checkinCaption': 'نتحقق إن كان بالإمكان متابعة النقاش',
+  'app.roundSummary': 'ما قيل في الجولة',
+  'app.speakerOf': 'المتحدث {index} من {total}',
+  'app.passedList': 'تنازلوا عن الدور: {names}',
+  'app.pass': 'تخطٍّ',
+  'app.passTitle': 'التنازل عن الدور',
+  'app.quietViewTip': 'الآن وقت الإصغاء لمن لم يُسمع صوته بعد',
+  'app.interventionCountdown': 'يبدو أن النقاش غير متوازن. سيتدخل النظام خلال {seconds} ثانية.',
+
+  'metric.dominance': 'الهيمنة',
+  'metric.gini': 'جيني',
+  'metric.entropy': 'الإنتروبيا',
+  'metric.turnShare': 'توزيع الأدوار',
+  'metric.interruptionRate': 'المقاطعات',
+
+  'turnOrder.roster': 'حسب ترتيب القائمة',
+  'turnOrder.leastTalkFirst': 'الأقل كلاماً أولاً',
+  'turnOrder.quietFirst': 'الصوت الهادئ أولاً',
+  'turnOrder.random': 'عشوائي',
+  'turnOrder.skipDominant': 'دون المتحدث المهيمن',
+
+  'settings.title': 'الأوقات والعتبات',
+  'settings.metric': 'مؤشر رصد عدم التوازن',
+  'settings.weighted': 'مرجّح',
+  'settings.weight': 'وزن {metric}',
+  'settings.turnOrder': 'ترتيب الأدوار في الجولة',
+  'settings.reset': 'الإعدادات الافتراضية',
+  'settings.field.imbalanceScoreThreshold': 'عتبة مؤشر التوازن',
+  'settings.field.gracePeriodSeconds': 'مهلة البداية (ث)',
+  'settings.field.monologueLimitSeconds': 'حد المونولوج (ث)',
+  'settings.field.imbalanceHoldSeconds': 'تنبيه قبل عدم التوازن (ث)',
+  'settings.field.imbalanceStateSeconds': 'مدة عدم التوازن (ث)',
+  'settings.field.nudgeHoldSeconds': 'مدة التمهّل (ث)',
+  'settings.field.turnHoldSeconds': 'مدة الدور (ث)',
+  'settings.field.adaptiveTurnBoost': 'إطالة دور الهادئين (0–1)',
+  'settings.field.pauseSeconds': 'مدة الصمت (ث)',
+  'settings.field.checkinSeconds': 'مدة التحقق (ث)',
+  'settings.field.checkinObjectionQuorum': 'اعتراضات لجولة أخرى',
+  'settings.field.interrupterThreshold': 'عتبة المقاطعات للمتحدث (0 = معطّل)',
+  'settings.field.imbalanceWindowSeconds': 'نافذة قياس متحركة (ث، 0 = تراكمي)',
+  'settings.field.windowBucketSeconds': 'دقة السجل (ث)',
+  'settings.field.windowDecayHalfLifeSeconds': 'عمر النصف للتلاشي (ث، 0 = بدون)',
+  'settings.field.agendaWarningSeconds': 'تنبيه قبل نهاية الموضوع (ث)',
+
+  'preset.placeholder': 'ملف تيسير...',
+  'preset.export': 'تصدير الملف',
+  'preset.import': 'استيراد ملف',
+  'preset.delete': 'حذف الملف',
+  'preset.saveAs': 'حفظ الإعدادات كملف',
+  'preset.saveFailed': 'فشل الحفظ',
+  'preset.builtin-brainstorm': 'عصف ذهني',
+  'preset.builtin-decision': 'اجتماع قرارات',
+  'preset.builtin-classroom': 'صف دراسي',
+
+  'common.invalidFile': 'ملف غير صالح',
+  'common.serverUrl': 'عنوان الخادم',
+  'common.model': 'اسم النموذج',
+
+  'replay.title': 'تسجيل وإعادة تشغيل',
+  'replay.export': 'تصدير سجل الأحداث',
+  'replay.load': 'تحميل سجل الأحداث',
+  'replay.replay': 'إعادة',
+  'replay.backToLive': 'العودة للبث المباشر',
+
+  'llm.title': 'نموذج لغوي',
+  'llm.provider': 'المزوّد',
+  'llm.apiKey': 'مفتاح API',
+  'llm.keyFromEnv': 'من البيئة',
+  'llm.noKey': 'بدون',
+  'llm.offlineNote': 'عندما لا يتوفر النموذج، تُحسب التوصيات من المؤشرات دون اتصال.',
+  'llmProvider.gemini': 'Gemini',
+  'llmProvider.openai': 'OpenAI-compatible',
+  'llmProvider.rules': 'بدون نموذج (قواعد)',
+
+  'transcript.title': 'تفريغ مباشر',
+  'transcript.segments': '{count} مقاطع',
+  'transcript.engine': 'المحرك',
+  'transcript.browser': 'التعرّف على الكلام في المتصفح',
+  'transcript.whisper': 'خادم Whisper',
+  'transcript.start': 'بدء التفريغ',
+  'transcript.stop': 'إيقاف التفريغ',
+
+  'report.title': 'تقرير ملخص النقاش',
+  'report.htmlTitle': 'تقرير النقاش – {date}',
+  'report.summaryLine': 'المدة {duration} ثانية · {turns} أدوار كلام',
+  'report.dateLine': '{date} · المدة {duration} ثانية',
+  'report.empty': 'لا توجد بيانات كلام في هذا النقاش بعد',
+  'report.talkBySpeaker': 'وقت الكلام لكل مشارك',
+  'report.participant': 'مشارك',
+  'report.talkTime': 'وقت الكلام',
+  'report.share': 'النسبة',
+  'report.turns': 'أدوار',
+  'report.timeToFirst': 'الوقت حتى أول مشاركة',
+  'report.timeline': 'الخط الزمني للأدوار',
+  'report.dominanceOverTime': 'مؤشر الهيمنة عبر الزمن',
+  'report.stateEntries': 'الدخول إلى الحالات',
+  'report.state': 'الحالة',
+  'report.entries': 'مرات الدخول',
+  'report.longestMonologues': 'أطول المونولوجات',
+  'report.duration': 'المدة',
+  'report.range': 'النطاق',
+
+  'tip.waiting': 'ننتظر انضمام المشاركين إلى النقاش...',
+  'tip.fallback.monitoring': 'نقاشاً مثمراً للجميع!',
+  'tip.fallback.imbalanceDetected': 'النقاش غير متوازن حالياً، هناك أصوات بالكاد تُسمع',
+  'tip.fallback.nudge': 'نتمهّل قليلاً لنتيح توازن النقاش',
+  'tip.fallback.structuredTurnTaking': 'لنفسح المجال للجميع ننتقل الآن إلى جولة أدوار',
+  'tip.fallback.reflectionPause': 'لنأخذ لحظة صمت للتفكير واستيعاب ما قيل',
+  'tip.fallback.checkIn': 'نتابع النقاش ما لم يكن هناك اعتراض جوهري',
+  'tip.imbalance': 'النقاش يميل الآن نحو {top} – لنفسح المجال أيضاً لـ{quiet}',
+  'tip.nudge': '{name}، يسعدنا سماع رأيك',
+  'tip.turnNext': 'جولة أدوار – الآن دور {holder}، وبعده {next}',
+  'tip.turnLast': 'جولة أدوار – {holder} يختتم الجولة',
+  'tip.pause': 'لحظة صمت – ما الذي بقي معكم مما قاله {names}؟',
+  'tip.checkin': 'تحدث {spoke} من {total} في الجولة – نتابع ما لم يكن هناك اعتراض جوهري',
+  'tip.checkinPassed': 'تحدث {spoke} من {total} في الجولة وتنازل {passed} – نتابع ما لم يكن هناك اعتراض جوهري',
+  'tip.interrupter': '{name}، من الأفضل أن تدع الآخرين يُكملون كلامهم',
+  'tip.monologue': '{name}، ربما حان وقت التلخيص وإتاحة الرد لغيرك',
+  'tip.inviteQuiet': 'يسعدنا أن نسمع {name} أيضاً',
+  'tip.opening': 'من يرغب في البدء؟',
+  'tip.balanced': 'النقاش متوازن – استمروا هكذا!',
+
+  'summary.passed': 'تنازل عن الدور',
+  'summary.nothing': 'لم يُفرَّغ شيء',
+
+  'sync.title': 'عروض إضافية',
+  'sync.start': 'مشاركة الجلسة',
+  'sync.stop': 'إيقاف المشاركة',
+  'sync.session': 'رمز الجلسة',
+  'sync.roomLink': 'شاشة الغرفة',
+  'sync.participantLink': 'هاتف المشارك',
+  'sync.status.connecting': 'جارٍ الاتصال...',
+  'sync.status.open': 'متصل',
+  'sync.status.closed': 'غير متصل',
+  'sync.presence': 'الشاشات: {rooms} · المشاركون: {participants}',
+  'sync.waiting': 'بانتظار الميسّر...',
+  'sync.chooseName': 'من أنت؟',
+  'sync.changeName': 'تغيير الاسم',
+  'sync.forbidden': 'جهاز آخر يشارك هذه الجلسة بالفعل.',
+  'sync.nameTaken': '{name} متصل بالفعل من هاتف آخر.',
+  'sync.yourTurn': 'دورك في الكلام',
+  'sync.turnOf': 'دور {name}',
+  'sync.nextUp': 'التالي: {name}',
+  'sync.yourTalk': 'وقت حديثك',
+  'sync.share': '{percent}% من النقاش',
+
+  'hand.raise': 'رفع اليد',
+  'hand.lower': 'إنزال اليد',
+  'hand.queue': 'أيادٍ مرفوعة: {names}',
+  'hand.position': 'دورك في الطابور: {position}',
+  'vote.question': 'هل يمكننا المتابعة؟',
+  'vote.continue': 'يمكن المتابعة',
+  'vote.object': 'اعتراض جوهري',
+  'vote.anotherRound': 'جولة أخرى',
+  'vote.tally': 'متابعة: {continue} · اعتراضات: {object} · لم يصوّتوا: {pending}',
+  'shortcuts.title': 'اختصارات لوحة المفاتيح',
+  'shortcuts.help': '1–9: رفع/إنزال اليد · عند التحقق: 1–9 متابعة، Shift+1–9 اعتراض · N: الدور التالي · P: تخطٍّ · C: نتابع · R: جولة أخرى',
+
+  'history.title': 'سجل الجلسات',
+  'history.new': 'جلسة جديدة',
+  'history.empty': 'لم تُحفظ أي جلسات في هذا المتصفح بعد',
+  'history.compareHint': 'حدّدوا حتى {max} جلسات للمقارنة بينها',
+  'history.compare': 'مقارنة',
+  'history.rename': 'انقروا لتغيير الاسم',
+  'history.meta': '{date} · {participants} مشاركين · {duration} ثانية',
+  'history.current': 'الجلسة الحالية',
+  'history.open': 'فتح',
+  'history.delete': 'حذف',
+  'history.confirmDelete': 'حذف "{name}"؟ لا يمكن التراجع عن ذلك.',
+  'history.comparison': 'مقارنة الجلسات',
+  'history.participants': 'المشاركون',
+  'history.rounds': 'الجولات',
+  'history.topShare': 'أكبر حصة',
+
+  'roster.title': 'مجموعات ثابتة',
+  'roster.placeholder': 'اختيار مجموعة محفوظة',
+  'roster.option': '{name} ({count})',
+  'roster.load': 'تحميل المجموعة إلى الجلسة',
+  'roster.delete': 'حذف المجموعة',
+  'roster.colorHint': 'انقروا لتغيير اللون',
+  'roster.role': 'الدور (اختياري)',
+  'roster.saveAs': 'حفظ المشاركين كمجموعة...',
+  'history.tab.sessions': 'الجلسات',
+  'history.tab.trends': 'الاتجاهات',
+  'trends.hint': 'حصة كل شخص من الكلام عبر الجلسات؛ النقطة البرتقالية تشير إلى جلسة كان فيها صامتًا',
+  'trends.allPeople': 'جميع المشاركين',
+  'trends.sessions': 'الجلسات',
+  'trends.averageShare': 'متوسط الحصة',
+  'trends.quietRate': 'جلسات الصمت',
+  'trends.shareOverTime': 'الحصة عبر الزمن',
+
+  'agenda.title': 'جدول الأعمال',
+  'agenda.titleWithCurrent': 'جدول الأعمال · {title}',
+  'agenda.newTopic': 'موضوع {n}',
+  'agenda.start': 'الانتقال إلى هذا الموضوع',
+  'agenda.remove': 'إزالة الموضوع',
+  'agenda.minutes': 'مدة الموضوع بالدقائق',
+  'agenda.minutesShort': 'د',
+  'agenda.mode.open': 'نقاش مفتوح',
+  'agenda.mode.structured': 'جولة أدوار',
+  'agenda.mode.reflection': 'تأمل صامت',
+  'agenda.add': 'موضوع',
+  'agenda.begin': 'بدء جدول الأعمال',
+  'agenda.next': 'الموضوع التالي',
+  'agenda.finish': 'إنهاء جدول الأعمال',
+  'agenda.current': '{title} · تبقّى {remaining}',
+  'agenda.overtime': '{title} · تجاوز بمقدار {over}',
+  'report.topics': 'التوازن حسب الموضوع',
+  'report.topic': 'الموضوع',
+  'report.timebox': 'الوقت / المخصص',
+  'report.topSpeaker': 'الأكثر كلامًا',
+
+  'flow.title': 'مسار النقاش',
+  'flow.default': 'المسار المعتاد',
+  'flow.skip-nudge': 'مباشرة إلى الجولات',
+  'flow.pair-share': 'نقاش ثنائي',
+  'flow.devils-advocate': 'محامي الشيطان',
+  'flow.export': 'تصدير المسار',
+  'flow.import': 'استيراد مسار',
+  'flow.delete': 'حذف المسار',
+
+  'cue.title': 'إشارات صوتية',
+  'cue.enabled': 'تشغيل الإشارات',
+  'cue.volume': 'مستوى الصوت',
+  'cue.chime': 'نغمة الانتقال',
+  'cue.chime.bell': 'جرس',
+  'cue.chime.soft': 'نغمة هادئة',
+  'cue.chime.wood': 'قطعة خشب',
+  'cue.speakMessages': 'قراءة رسائل الحالة',
+  'cue.announceTurns': 'الإعلان عن المتحدث التالي',
+  'cue.pauseGong': 'صوت غونغ في بداية الاستراحة ونهايتها',
+  'cue.states': 'حالات مع إشارات',
+  'cue.noSpeech': 'هذا المتصفح لا يدعم القراءة الصوتية',
+  'cue.test': 'اختبار الصوت',
+  'cue.imbalanceDetected': 'يبدو أن أصواتًا قليلة تستحوذ على معظم النقاش.',
+  'cue.nudge': 'لنتمهّل قليلاً ونترك مجالًا للآخرين.',
+  'cue.structuredTurnTaking': 'سننتقل الآن إلى جولة، كلٌّ بدوره.',
+  'cue.reflectionPause': 'لنأخذ لحظة صمت للتأمل.',
+  'cue.checkIn': 'هل يمكننا المتابعة؟ يرجى التصويت.',
+  'cue.nextSpeaker': '{name}، الكلمة لك.',
+};
+
+const ru: Catalog = {
+  'state.monitoring': 'Открытое обсуждение',
+  'state.imbalanceDetected': 'Обнаружен дисбаланс',
+  'state.nudge': 'Немного притормозим',
+  'state.structuredTurnTaking': 'Круг по очереди',
+  'state.reflectionPause': 'Пауза для размышления',
+  'state.checkIn': 'Проверяем, можно ли продолжать',
+
+  'app.quietVoice': 'Тихий голос',
+  'app.controlPanel': 'Панель управления',
+  'app.language': 'Язык обсуждения',
+  'app.auto': 'Авто',
+  'app.manual': 'Вручную',
+  'app.autoManage': 'Автоматическая фасилитация',
+  'app.start': 'Старт',
+  'app.stop': 'Стоп',
+  'app.silence': 'Тишина',
+  'app.cancel': 'Отмена',
+  'clock.break': 'Перерыв',
+  'clock.resume': 'Продолжить',
+  'clock.paused': 'Сессия на перерыве',
+  'clock.speed': 'Скорость часов',
+  'app.micOn': 'Распознавать речь с микрофона',
+  'app.micOff': 'Выключить распознавание речи',
+  'app.participantsPlaceholder': 'Имена участников',
+  'app.overlapHint': 'Shift+клик: одновременная речь',
+  'app.interruptions': 'Перебивания',
+  'app.enrollStart': 'Записать образец голоса',
+  'app.enrollCancel': 'Отменить запись голоса',
+  'app.quietModeOn': 'Режим «тихий голос»',
+  'app.quietModeOff': 'Выйти из «тихого голоса»',
+  'app.balanceIndex': 'Индекс баланса',
+  'app.totalTime': 'Общее время',
+  'app.addParticipants': 'Добавьте участников в панели управления, чтобы начать...',
+  'app.chooseQuiet': 'Выберите «тихий голос» в панели управления',
+  'app.pauseCaption': 'Тихое пространство, чтобы осмыслить услышанное',
+  'app.checkinCaption': 'Проверяем, можно ли продолжать обсуждение',
+  'app.roundSummary': 'Что прозвучало в этом круге',
+  'app.speakerOf': 'Выступающий {index} из {total}',
+  'app.passedList': 'Пропустили ход: {names}',
+  'app.pass': 'Пропуск',
+  'app.passTitle': 'Пропустить свой ход',
+  'app.quietViewTip': 'Сейчас время выслушать тех, кто ещё не высказался',
+  'app.interventionCountdown': 'Похоже, обсуждение несбалансированно. Система вмешается через {seconds} с.',
+
+  'metric.dominance': 'Доминирование',
+  'metric.gini': 'Джини',
+  'metric.entropy': 'Энтропия',
+  'metric.turnShare': 'Доля ходов',
+  'metric.interruptionRate': 'Перебивания',
+
+  'turnOrder.roster': 'По списку',
+  'turnOrder.leastTalkFirst': 'Сначала говорившие меньше',
+  'turnOrder.quietFirst': 'Сначала тихий голос',
+  'turnOrder.random': 'Случайно',
+  'turnOrder.skipDominant': 'Без доминирующего',
+
+  'settings.title': 'Тайминги и пороги',
+  'settings.metric': 'Метрика дисбаланса',
+  'settings.weighted': 'Взвешенная',
+  'settings.weight': 'Вес: {metric}',
+  'settings.turnOrder': 'Порядок в круге',
+  'settings.reset': 'По умолчанию',
+  'settings.field.imbalanceScoreThreshold': 'Порог индекса баланса',
+  'settings.field.gracePeriodSeconds': 'Льготный период в начале (с)',
+  'settings.field.monologueLimitSeconds': 'Лимит монолога (с)',
+  'settings.field.imbalanceHoldSeconds': 'Предупреждение до дисбаланса (с)',
+  'settings.field.imbalanceStateSeconds': 'Длительность дисбаланса (с)',
+  'settings.field.nudgeHoldSeconds': 'Длительность замедления (с)',
+  'settings.field.turnHoldSeconds': 'Длительность хода (с)',
+  'settings.field.adaptiveTurnBoost': 'Дольше для тихих (0–1)',
+  'settings.field.pauseSeconds': 'Длительность тишины (с)',
+  'settings.field.checkinSeconds': 'Длительность проверки (с)',
+  'settings.field.checkinObjectionQuorum': 'Возражений для нового круга',
+  'settings.field.interrupterThreshold': 'Порог перебиваний (0 = выкл.)',
+  'settings.field.imbalanceWindowSeconds': 'Скользящее окно (с, 0 = накопительно)',
+  'settings.field.windowBucketSeconds': 'Шаг истории (с)',
+  'settings.field.windowDecayHalfLifeSeconds': 'Период полураспада (с, 0 = нет)',
+  'settings.field.agendaWarningSeconds': 'Предупреждать до конца темы (с)',
+
+  'preset.placeholder': 'Профиль фасилитации...',
+  'preset.export': 'Экспорт профиля',
+  'preset.import': 'Импорт профиля',
+  'preset.delete': 'Удалить профиль',
+  'preset.saveAs': 'Сохранить настройки как профиль',
+  'preset.saveFailed': 'Не удалось сохранить',
+  'preset.builtin-brainstorm': 'Мозговой штурм',
+  'preset.builtin-decision': 'Совещание для решений',
+  'preset.builtin-classroom': 'Класс',
+
+  'common.invalidFile': 'Некорректный файл',
+  'common.serverUrl': 'Адрес сервера',
+  'common.model': 'Название модели',
+
+  'replay.title': 'Запись и воспроизведение',
+  'replay.export': 'Экспорт журнала событий',
+  'replay.load': 'Загрузить журнал событий',
+  'replay.replay': 'Повтор',
+  'replay.backToLive': 'Вернуться к трансляции',
+
+  'llm.title': 'Языковая модель',
+  'llm.provider': 'Провайдер',
+  'llm.apiKey': 'Ключ API',
+  'llm.keyFromEnv': 'Из окружения',
+  'llm.noKey': 'Нет',
+  'llm.offlineNote': 'Когда модель недоступна, подсказки вычисляются по метрикам без сети.',
+  'llmProvider.gemini': 'Gemini',
+  'llmProvider.openai': 'OpenAI-compatible',
+  'llmProvider.rules': 'Без модели (правила)',
+
+  'transcript.title': 'Живая расшифровка',
+  'transcript.segments': 'Фрагментов: {count}',
+  'transcript.engine': 'Движок',
+  'transcript.browser': 'Распознавание речи в браузере',
+  'transcript.whisper': 'Сервер Whisper',
+  'transcript.start': 'Начать расшифровку',
+  'transcript.stop': 'Остановить расшифровку',
+
+  'report.title': 'Итоговый отчёт обсуждения',
+  'report.htmlTitle': 'Отчёт обсуждения – {date}',
+  'report.summaryLine': '{duration} с · ходов: {turns}',
+  'report.dateLine': '{date} · {duration} с',
+  'report.empty': 'В этом обсуждении пока нет данных о речи',
+  'report.talkBySpeaker': 'Время речи по участникам',
+  'report.participant': 'Участник',
+  'report.talkTime': 'Время речи',
+  'report.share': 'Доля',
+  'report.turns': 'Ходы',
+  'report.timeToFirst': 'Время до первого высказывания',
+  'report.timeline': 'Хронология ходов',
+  'report.dominanceOverTime': 'Индекс доминирования во времени',
+  'report.stateEntries': 'Входы в состояния',
+  'report.state': 'Состояние',
+  'report.entries': 'Входы',
+  'report.longestMonologues': 'Самые длинные монологи',
+  'report.duration': 'Длительность',
+  'report.range': 'Интервал',
+
+  'tip.waiting': 'Ждём, пока участники присоединятся к обсуждению...',
+  'tip.fallback.monitoring': 'Плодотворного обсуждения всем!',
+  'tip.fallback.imbalanceDetected': 'Сейчас обсуждение несбалансированно, некоторых голосов почти не слышно',
+  'tip.fallback.nudge': 'Немного притормозим, чтобы выровнять обсуждение',
+  'tip.fallback.structuredTurnTaking': 'Чтобы дать место каждому, переходим к кругу по очереди',
+  'tip.fallback.reflectionPause': 'Возьмём минуту тишины, чтобы обдумать сказанное',
+  'tip.fallback.checkIn': 'Продолжаем, если нет существенных возражений',
+  'tip.imbalance': 'Обсуждение сейчас смещено к {top} – давайте дадим место и {quiet}',
+  'tip.nudge': '{name}, нам интересно ваше мнение',
+  'tip.turnNext': 'Круг по очереди – сейчас очередь {holder}, затем {next}',
+  'tip.turnLast': 'Круг по очереди – {holder} завершает круг',
+  'tip.pause': 'Минута тишины – что вам запомнилось из сказанного {names}?',
+  'tip.checkin': 'В круге высказались {spoke} из {total} – продолжаем, если нет существенных возражений',
+  'tip.checkinPassed': 'В круге высказались {spoke} из {total}, пропустили {passed} – продолжаем, если нет существенных возражений',
+  'tip.interrupter': '{name}, давайте дадим другим договорить',
+  'tip.monologue': '{name}, возможно, стоит подвести итог и дать ответить другим',
+  'tip.inviteQuiet': 'Хотим услышать и {name}',
+  'tip.opening': 'Кто хотел бы начать?',
+  'tip.balanced': 'Обсуждение сбалансировано – так держать!',
+
+  'summary.passed': 'Пропустил(а) ход',
+  'summary.nothing': 'Ничего не расшифровано',
+
+  'sync.title': 'Дополнительные экраны',
+  'sync.start': 'Поделиться сессией',
+  'sync.stop': 'Остановить показ',
+  'sync.session': 'Код сессии',
+  'sync.roomLink': 'Экран в зале',
+  'sync.participantLink': 'Телефон участника',
+  'sync.status.connecting': 'Подключение...',
+  'sync.status.open': 'Подключено',
+  'sync.status.closed': 'Нет связи',
+  'sync.presence': 'Экраны: {rooms} · Участники: {participants}',
+  'sync.waiting': 'Ждём ведущего...',
+  'sync.chooseName': 'Кто вы?',
+  'sync.changeName': 'Сменить имя',
+  'sync.forbidden': 'Эту сессию уже транслирует другая консоль.',
+  'sync.nameTaken': '{name} уже подключается с другого телефона.',
+  'sync.yourTurn': 'Ваша очередь говорить',
+  'sync.turnOf': 'Очередь: {name}',
+  'sync.nextUp': 'Следующий: {name}',
+  'sync.yourTalk': 'Ваше время речи',
+  'sync.share': '{percent}% обсуждения',
+
+  'hand.raise': 'Поднять руку',
+  'hand.lower': 'Опустить руку',
+  'hand.queue': 'Подняли руку: {names}',
+  'hand.position': 'Ваше место в очереди: {position}',
+  'vote.question': 'Можно продолжать?',
+  'vote.continue': 'Можно продолжать',
+  'vote.object': 'Существенное возражение',
+  'vote.anotherRound': 'Ещё круг',
+  'vote.tally': 'Продолжить: {continue} · Возражения: {object} · Не голосовали: {pending}',
+  'shortcuts.title': 'Горячие клавиши',
+  'shortcuts.help': '1–9: поднять/опустить руку · На проверке: 1–9 продолжить, Shift+1–9 возражение · N: следующий ход · P: пропуск · C: продолжаем · R: ещё круг',
+
+  'history.title': 'История сессий',
+  'history.new': 'Новая сессия',
+  'history.empty': 'В этом браузере пока нет сохранённых сессий',
+  'history.compareHint': 'Отметьте до {max} сессий, чтобы сравнить их',
+  'history.compare': 'Сравнить',
+  'history.rename': 'Нажмите, чтобы переименовать',
+  'history.meta': '{date} · участников: {participants} · {duration} с',
+  'history.current': 'Текущая сессия',
+  'history.open': 'Открыть',
+  'history.delete': 'Удалить',
+  'history.confirmDelete': 'Удалить «{name}»? Это нельзя отменить.',
+  'history.comparison': 'Сравнение сессий',
+  'history.participants': 'Участники',
+  'history.rounds': 'Раунды',
+  'history.topShare': 'Наибольшая доля',
+
+  'roster.title': 'Постоянные группы',
+  'roster.placeholder': 'Выберите сохранённую группу',
+  'roster.option': '{name} ({count})',
+  'roster.load': 'Загрузить группу в сессию',
+  'roster.delete': 'Удалить группу',
+  'roster.colorHint': 'Нажмите, чтобы сменить цвет',
+  'roster.role': 'Роль (необязательно)',
+  'roster.saveAs': 'Сохранить участников как группу...',
+  'history.tab.sessions': 'Сессии',
+  'history.tab.trends': 'Тенденции',
+  'trends.hint': 'Доля речи каждого участника по сессиям; оранжевая точка отмечает сессию, где он молчал',
+  'trends.allPeople': 'Все участники',
+  'trends.sessions': 'Сессии',
+  'trends.averageShare': 'Средняя доля',
+  'trends.quietRate': 'Тихие сессии',
+  'trends.shareOverTime': 'Доля во времени',
+
+  'agenda.title': 'Повестка',
+  'agenda.titleWithCurrent': 'Повестка · {title}',
+  'agenda.newTopic': 'Тема {n}',
+  'agenda.start': 'Перейти к этой теме',
+  'agenda.remove': 'Удалить тему',
+  'agenda.minutes': 'Время на тему в минутах',
+  'agenda.minutesShort': 'мин',
+  'agenda.mode.open': 'Открытое обсуждение',
+  'agenda.mode.structured': 'Круг по очереди',
+  'agenda.mode.reflection': 'Тихое размышление',
+  'agenda.add': 'Тема',
+  'agenda.begin': 'Начать повестку',
+  'agenda.next': 'Следующая тема',
+  'agenda.finish': 'Закрыть повестку',
+  'agenda.current': '{title} · осталось {remaining}',
+  'agenda.overtime': '{title} · перерасход {over}',
+  'report.topics': 'Баланс по темам',
+  'report.topic': 'Тема',
+  'report.timebox': 'Время / лимит',
+  'report.topSpeaker': 'Говорил(а) больше всех',
+
+  'flow.title': 'Ход обсуждения',
+  'flow.default': 'Обычный ход',
+  'flow.skip-nudge': 'Сразу к кругам',
+  'flow.pair-share': 'Обсуждение в парах',
+  'flow.devils-advocate': 'Адвокат дьявола',
+  'flow.export': 'Экспорт сценария',
+  'flow.import': 'Импорт сценария',
+  'flow.delete': 'Удалить сценарий',
+
+  'cue.title': 'Звуковые сигналы',
+  'cue.enabled': 'Включить сигналы',
+  'cue.volume': 'Громкость',
+  'cue.chime': 'Сигнал перехода',
+  'cue.chime.bell': 'Колокольчик',
+  'cue.chime.soft': 'Мягкий аккорд',
+  'cue.chime.wood': 'Деревянный блок',
+  'cue.speakMessages': 'Озвучивать сообщения',
+  'cue.announceTurns': 'Объявлять следующего',
+  'cue.pauseGong': 'Гонг в начале и конце паузы',
+  'cue.states': 'Состояния с сигналами',
+  'cue.noSpeech': 'Браузер не поддерживает озвучивание',
+  'cue.test': 'Проверить звук',
+  'cue.imbalanceDetected': 'Кажется, большую часть обсуждения ведут лишь несколько голосов.',
+  'cue.nudge': 'Давайте немного притормозим и дадим место другим.',
+  'cue.structuredTurnTaking': 'Теперь пройдём по кругу, по очереди.',
+  'cue.reflectionPause': 'Возьмём минуту тишины, чтобы подумать.',
+  'cue.checkIn': 'Можем ли мы продолжать? Пожалуйста, проголосуйте.',
+  'cue.nextSpeaker': '{name}, вам слово.',
+};
+
+export const CATALOGS: Record<SessionLanguage, Catalog> = { he, en, ar, ru };
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/** Looks up a message and fills `{name}` placeholders; falls back to Hebrew, then to the key. */
+export function translate(language: SessionLanguage, key: MessageKey, params?: MessageParams): string {
+  const template = CATALOGS[language]?.[key] ?? he[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+}
+
+export function isRtl(language: SessionLanguage): boolean {
+  return LANGUAGES[language].dir === 'rtl';
+}
+
+export interface I18n {
+  language: SessionLanguage;
+  dir: 'rtl' | 'ltr';
+  t: Translate;
+}
+
+export function createI18n(language: SessionLanguage): I18n {
+  return { language, dir: LANGUAGES[language].dir, t: (key, params) => translate(language, key, params) };
+}
+
+export const I18nContext = createContext<I18n>(createI18n('he'));
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
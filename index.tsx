@@ -1,16 +1,25 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import App from './App';
+import SessionRoot from './SessionRoot';
+import RoomDisplay from './RoomDisplay';
+import ParticipantView from './ParticipantView';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// `?view=room&session=…` and `?view=participant&session=…` open the synced views; anything else is the facilitator console.
+const params = new URLSearchParams(window.location.search);
+const view = params.get('view');
+const session = params.get('session');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {view === 'room' && session ? <RoomDisplay session={session} />
+      : view === 'participant' && session ? <ParticipantView session={session} initialName={params.get('name')} />
+      : <SessionRoot />}
   </React.StrictMode>
 );
@@ -0,0 +1,35 @@
+import { DiscussionEvent, DiscussionState, EngineContext } from './types';
+
+/** The parts of a KeyboardEvent the shortcuts depend on. */
+export interface ShortcutKey {
+  code: string;
+  shiftKey: boolean;
+}
+
+/**
+ * Maps a facilitator key press to an engine event, or null when the key is not a shortcut.
+ * Digits address participants by roster position: they toggle a raised hand, and at
+ * CHECKIN record that participant's vote (Shift for a substantial objection).
+ */
+export function shortcutEvent(key: ShortcutKey, state: DiscussionState, context: EngineContext): DiscussionEvent | null {
+  const digit = /^Digit([1-9])$/.exec(key.code);
+  if (digit) {
+    const name = context.speakers[Number(digit[1]) - 1];
+    if (!name) return null;
+    if (state === DiscussionState.CHECKIN) return { type: 'CHECKIN_VOTE', name, vote: key.shiftKey ? 'object' : 'continue' };
+    return { type: context.raisedHands.includes(name) ? 'LOWER_HAND' : 'RAISE_HAND', name };
+  }
+
+  switch (key.code) {
+    case 'KeyN':
+      return state === DiscussionState.STRUCTURED ? { type: 'NEXT_TURN' } : null;
+    case 'KeyP':
+      return state === DiscussionState.STRUCTURED ? { type: 'PASS_TURN' } : null;
+    case 'KeyC':
+      return state === DiscussionState.CHECKIN ? { type: 'CHECKIN', canContinue: true } : null;
+    case 'KeyR':
+      return state === DiscussionState.CHECKIN ? { type: 'CHECKIN', canContinue: false } : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,203 @@
+import { GoogleGenAI } from "@google/genai";
+import { DiscussionState, EngineContext, SessionLanguage } from "./types";
+import { translate, MessageKey, MessageParams } from "./i18n";
+
+export type LLMProviderId = 'gemini' | 'openai' | 'rules';
+
+/** Runtime-selectable model backend for moderation tips. */
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string;
+  /** Base URL of an OpenAI-compatible API (e.g. a local llama.cpp or Ollama server). */
+  baseUrl: string;
+  /** Optional; Gemini falls back to the build-time key when empty. */
+  apiKey: string;
+}
+
+export interface GenerationRequest {
+  prompt: string;
+  systemInstruction: string;
+  temperature: number;
+  /** Deterministic answer used by the rule-based provider (and by callers when a model fails). */
+  offline: () => string;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  generate(request: GenerationRequest): Promise<string>;
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderId, { defaultModel: string }> = {
+  gemini: { defaultModel: 'gemini-3-flash-preview' },
+  openai: { defaultModel: 'llama3.1' },
+  rules: { defaultModel: '' },
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'gemini',
+  model: LLM_PROVIDERS.gemini.defaultModel,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+const STORAGE_KEY = "discussion-flow.llm.v1";
+
+export function loadLLMSettings(): LLMSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...DEFAULT_LLM_SETTINGS };
+    const parsed = JSON.parse(raw);
+    const provider = parsed.provider in LLM_PROVIDERS ? parsed.provider as LLMProviderId : DEFAULT_LLM_SETTINGS.provider;
+    return {
+      provider,
+      model: typeof parsed.model === 'string' ? parsed.model : LLM_PROVIDERS[provider].defaultModel,
+      baseUrl: typeof parsed.baseUrl === 'string' ? parsed.baseUrl : DEFAULT_LLM_SETTINGS.baseUrl,
+      apiKey: typeof parsed.apiKey === 'string' ? parsed.apiKey : '',
+    };
+  } catch (error) {
+    console.error("LLM settings storage error:", error);
+    return { ...DEFAULT_LLM_SETTINGS };
+  }
+}
+
+export function saveLLMSettings(settings: LLMSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Safe, fixed text used whenever nothing better can be generated for a state. */
+export function fallbackTip(state: DiscussionState, language: SessionLanguage = 'he'): string {
+  return translate(language, `tip.fallback.${state}`);
+}
+
+/** Speakers ordered by recent talk time, most talkative first. */
+function rankByTalk(context: EngineContext): string[] {
+  const { talkTime } = context.recentActivity;
+  return [...context.speakers].sort((a, b) => (talkTime[b] || 0) - (talkTime[a] || 0));
+}
+
+/** The marked quiet speaker, or whoever has spoken least recently. */
+export function quietestSpeaker(context: EngineContext): string | null {
+  if (context.quietSpeaker && context.speakers.includes(context.quietSpeaker)) return context.quietSpeaker;
+  const ranked = rankByTalk(context);
+  return ranked.length > 1 ? ranked[ranked.length - 1] : null;
+}
+
+/**
+ * Deterministic tip derived from the engine metrics; works offline and is the
+ * fallback whenever a model call fails.
+ */
+export function ruleBasedTip(state: DiscussionState, context: EngineContext, language: SessionLanguage = 'he'): string {
+  const t = (key: MessageKey, params?: MessageParams) => translate(language, key, params);
+  const { speakers, recentActivity } = context;
+  if (speakers.length === 0) return t('tip.waiting');
+
+  const ranked = rankByTalk(context);
+  const top = ranked[0];
+  const quietest = quietestSpeaker(context);
+
+  switch (state) {
+    case DiscussionState.IMBALANCE:
+      if (quietest && quietest !== top && (recentActivity.talkTime[top] || 0) > 0) {
+        return t('tip.imbalance', { top, quiet: quietest });
+      }
+      return fallbackTip(state, language);
+    case DiscussionState.NUDGE:
+      return quietest ? t('tip.nudge', { name: quietest }) : fallbackTip(state, language);
+    case DiscussionState.STRUCTURED: {
+      const holder = context.turnOrder[context.turnIndex];
+      if (!holder) return fallbackTip(state, language);
+      const next = context.turnOrder[context.turnIndex + 1];
+      return next ? t('tip.turnNext', { holder, next }) : t('tip.turnLast', { holder });
+    }
+    case DiscussionState.PAUSE: {
+      const spoke = context.turnOrder.filter(s => !context.passedTurns.includes(s));
+      return spoke.length > 0 ? t('tip.pause', { names: spoke.join(', ') }) : fallbackTip(state, language);
+    }
+    case DiscussionState.CHECKIN: {
+      if (context.turnOrder.length === 0) return fallbackTip(state, language);
+      const passed = context.passedTurns.length;
+      const counts = { spoke: context.turnOrder.length - passed, total: context.turnOrder.length, passed };
+      return passed > 0 ? t('tip.checkinPassed', counts) : t('tip.checkin', counts);
+    }
+    case DiscussionState.MONITORING:
+    default:
+      break;
+  }
+
+  const topInterrupter = [...speakers].sort((a, b) => (recentActivity.interruptionsBy[b] || 0) - (recentActivity.interruptionsBy[a] || 0))[0];
+
+  if ((recentActivity.interruptionsBy[topInterrupter] || 0) >= 2) {
+    return t('tip.interrupter', { name: topInterrupter });
+  }
+  if (context.currentMonologueSeconds >= context.monologueLimitSeconds * 0.75 && context.activeSpeaker) {
+    return t('tip.monologue', { name: context.activeSpeaker });
+  }
+  if (context.imbalanceScore >= context.imbalanceScoreThreshold * 0.75 && quietest) {
+    return t('tip.inviteQuiet', { name: quietest });
+  }
+  if (recentActivity.totalTalkTime === 0) return t('tip.opening');
+  return t('tip.balanced');
+}
+
+class GeminiProvider implements LLMProvider {
+  id: LLMProviderId = 'gemini';
+  private ai: GoogleGenAI | null = null;
+
+  constructor(private settings: LLMSettings) {}
+
+  async generate({ prompt, systemInstruction, temperature }: GenerationRequest): Promise<string> {
+    // Created lazily so a missing key only matters once Gemini is actually used.
+    if (!this.ai) this.ai = new GoogleGenAI({ apiKey: this.settings.apiKey || process.env.API_KEY });
+    const response = await this.ai.models.generateContent({
+      model: this.settings.model || LLM_PROVIDERS.gemini.defaultModel,
+      contents: prompt,
+      config: { systemInstruction, temperature },
+    });
+    return response.text?.trim() ?? '';
+  }
+}
+
+class OpenAICompatibleProvider implements LLMProvider {
+  id: LLMProviderId = 'openai';
+
+  constructor(private settings: LLMSettings) {}
+
+  async generate({ prompt, systemInstruction, temperature }: GenerationRequest): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.settings.apiKey) headers.Authorization = `Bearer ${this.settings.apiKey}`;
+
+    const response = await fetch(`${this.settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.settings.model || LLM_PROVIDERS.openai.defaultModel,
+        temperature,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: prompt },
+        ],
+      }),
+    });
+    if (!response.ok) throw new Error(`LLM endpoint returned ${response.status}`);
+    const data = await response.json();
+    return (data?.choices?.[0]?.message?.content ?? '').trim();
+  }
+}
+
+class RuleBasedProvider implements LLMProvider {
+  id: LLMProviderId = 'rules';
+
+  async generate({ offline }: GenerationRequest): Promise<string> {
+    return offline();
+  }
+}
+
+export function createProvider(settings: LLMSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'gemini': return new GeminiProvider(settings);
+    case 'openai': return new OpenAICompatibleProvider(settings);
+    case 'rules':
+    default:
+      return new RuleBasedProvider();
+  }
+}
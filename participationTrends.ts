@@ -0,0 +1,67 @@
+import { StoredSession } from './sessionStore';
+import { buildSessionReport, SessionReport } from './sessionReport';
+
+/** One person's participation in one session. */
+export interface TrendPoint {
+  sessionId: string;
+  date: string;
+  share: number;
+  quiet: boolean;
+}
+
+export interface ParticipantTrend {
+  /** Stable roster id, or `name:<name>` for people who never had a profile. */
+  id: string;
+  /** The name used in the most recent session. */
+  name: string;
+  role?: string;
+  /** Oldest session first. */
+  points: TrendPoint[];
+  averageShare: number;
+  /** Fraction of their sessions in which they counted as quiet. */
+  quietRate: number;
+}
+
+/** Below this fraction of an equal share, a participant counts as quiet in that session. */
+const QUIET_SHARE_RATIO = 0.5;
+
+/**
+ * Follows each person across stored sessions by their stable id, so renames and roster
+ * order do not split their history. A session counts as quiet for someone when their talk
+ * share was under half of an equal share, or the facilitator marked them as the quiet speaker.
+ * Sessions without any speech are skipped. Reports the caller already built are reused.
+ */
+export function buildParticipationTrends(sessions: StoredSession[], reports: ReadonlyMap<string, SessionReport> = new Map()): ParticipantTrend[] {
+  const trends = new Map<string, ParticipantTrend>();
+  const chronological = [...sessions].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const session of chronological) {
+    const report = reports.get(session.id) ?? buildSessionReport(session.log);
+    if (report.turns.length === 0) continue;
+    const profiles = session.snapshot.context.speakerProfiles ?? {};
+    const markedQuiet = new Set(
+      session.log.events.flatMap(e => e.event.type === 'SET_QUIET_SPEAKER' && e.event.name ? [e.event.name] : [])
+    );
+    const participants = session.speakers.length;
+
+    for (const name of session.speakers) {
+      const profile = profiles[name];
+      const id = profile?.id ?? `name:${name}`;
+      const share = report.speakers.find(s => s.speaker === name)?.share ?? 0;
+      const quiet = markedQuiet.has(name) || (participants > 1 && share < QUIET_SHARE_RATIO / participants);
+      const trend = trends.get(id) ?? { id, name, points: [], averageShare: 0, quietRate: 0 };
+      trend.name = name;
+      trend.role = profile?.role ?? trend.role;
+      trend.points.push({ sessionId: session.id, date: session.createdAt, share, quiet });
+      trends.set(id, trend);
+    }
+  }
+
+  return [...trends.values()]
+    .map(trend => ({
+      ...trend,
+      averageShare: trend.points.reduce((acc, p) => acc + p.share, 0) / trend.points.length,
+      quietRate: trend.points.filter(p => p.quiet).length / trend.points.length,
+    }))
+    .sort((a, b) => b.points.length - a.points.length || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,104 @@
+import { FacilitationPreset, SessionLanguage, EngineConfig } from "./types";
+import { DEFAULT_ENGINE_CONFIG, pickEngineConfig, validateEngineConfig } from "./DiscussionEngine";
+
+const STORAGE_KEY = "discussion-flow.presets.v1";
+const LANGUAGES: SessionLanguage[] = ['he', 'en', 'ar', 'ru'];
+
+export const BUILTIN_PRESETS: FacilitationPreset[] = [
+  {
+    id: "builtin-brainstorm",
+    name: "סיעור מוחות",
+    builtIn: true,
+    autoMode: true,
+    language: 'he',
+    config: { ...DEFAULT_ENGINE_CONFIG, imbalanceScoreThreshold: 0.45, monologueLimitSeconds: 30, turnHoldSeconds: 45, pauseSeconds: 15 },
+  },
+  {
+    id: "builtin-decision",
+    name: "ישיבת החלטות",
+    builtIn: true,
+    autoMode: true,
+    language: 'he',
+    config: { ...DEFAULT_ENGINE_CONFIG, imbalanceScoreThreshold: 0.3, imbalanceHoldSeconds: 20, turnHoldSeconds: 90, pauseSeconds: 30, checkinSeconds: 30 },
+  },
+  {
+    id: "builtin-classroom",
+    name: "כיתה",
+    builtIn: true,
+    autoMode: true,
+    language: 'he',
+    config: { ...DEFAULT_ENGINE_CONFIG, imbalanceScoreThreshold: 0.35, monologueLimitSeconds: 60, gracePeriodSeconds: 60, turnHoldSeconds: 60 },
+  },
+];
+
+function readUserPresets(): FacilitationPreset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(normalizePreset) : [];
+  } catch (error) {
+    console.error("Preset storage error:", error);
+    return [];
+  }
+}
+
+function writeUserPresets(presets: FacilitationPreset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates an untrusted preset (e.g. from an imported file) and fills in defaults.
+ * Throws with a descriptive message when the preset cannot be used.
+ */
+export function normalizePreset(input: unknown): FacilitationPreset {
+  if (!isRecord(input)) throw new Error("Preset must be an object");
+  if (typeof input.name !== 'string' || !input.name.trim()) throw new Error("Preset is missing a name");
+
+  // Only the config keys are taken, and validateEngineConfig checks each value below.
+  const overrides = isRecord(input.config) ? pickEngineConfig(input.config as Partial<EngineConfig>) : {};
+  const config: EngineConfig = { ...DEFAULT_ENGINE_CONFIG, ...overrides };
+  const errors = validateEngineConfig(config);
+  if (errors.length > 0) throw new Error(`Preset "${input.name}" is invalid: ${errors.join('; ')}`);
+
+  return {
+    id: typeof input.id === 'string' && input.id ? input.id : `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: input.name.trim(),
+    config,
+    autoMode: typeof input.autoMode === 'boolean' ? input.autoMode : true,
+    language: LANGUAGES.find(l => l === input.language) ?? 'he',
+  };
+}
+
+export function loadPresets(): FacilitationPreset[] {
+  return [...BUILTIN_PRESETS, ...readUserPresets()];
+}
+
+/** Saves (or overwrites by id) a user preset and returns the full preset list. */
+export function savePreset(preset: FacilitationPreset): FacilitationPreset[] {
+  const user = readUserPresets().filter(p => p.id !== preset.id);
+  writeUserPresets([...user, { ...preset, builtIn: undefined }]);
+  return loadPresets();
+}
+
+export function deletePreset(id: string): FacilitationPreset[] {
+  writeUserPresets(readUserPresets().filter(p => p.id !== id));
+  return loadPresets();
+}
+
+export function exportPreset(preset: FacilitationPreset): string {
+  const { builtIn, ...shareable } = preset;
+  return JSON.stringify({ ...shareable, kind: "facilitation-preset", version: 1 }, null, 2);
+}
+
+/** Parses an exported preset file; a fresh id is assigned so imports never clobber existing presets. */
+export function importPreset(text: string): FacilitationPreset {
+  const parsed = JSON.parse(text);
+  if (parsed?.kind !== undefined && parsed.kind !== "facilitation-preset") {
+    throw new Error("File is not a facilitation preset");
+  }
+  return normalizePreset({ ...parsed, id: undefined });
+}
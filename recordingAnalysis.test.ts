@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { analyzeSegments, parseRttm, parseSegmentCsv, segmentsToEvents } from './recordingAnalysis';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+test('back-to-back diarized turns are handovers, not interruptions', () => {
+  const segments = parseSegmentCsv(fixture('handovers.csv'));
+  const events = segmentsToEvents(segments);
+  assert.ok(!events.some(e => e.type === 'SPEAKER_SET'));
+  // Each end comes before the next start, so nobody ever talks over anyone.
+  assert.deepEqual(events.slice(10, 14), [
+    { type: 'TICK', seconds: 1 },
+    { type: 'SPEAKER_STOP', name: 'Ada' },
+    { type: 'SPEAKER_START', name: 'Ben' },
+    { type: 'TICK', seconds: 1 },
+  ]);
+
+  const analysis = analyzeSegments(segments);
+  assert.equal(analysis.interruptions, 0);
+  assert.equal(analysis.metrics.interruptionRate, 0);
+  assert.ok(analysis.interventions.every(i => !i.triggers.includes('interruptions')));
+  assert.deepEqual(analysis.speakers.map(s => [s.speaker, s.talkSeconds]), [['Ada', 70], ['Ben', 70], ['Cleo', 70], ['Dan', 70]]);
+});
+
+test('segments that start while another is running are interruptions', () => {
+  const analysis = analyzeSegments(parseRttm(fixture('overlaps.rttm')));
+  // Ben cuts into Ada twice and into Cleo once; the other changes of speaker are handovers.
+  assert.equal(analysis.interruptions, 3);
+  const ben = analysis.speakers.find(s => s.speaker === 'Ben');
+  assert.equal(ben?.talkSeconds, 35);
+});
+
+test('segments that start at the same moment are a joint start', () => {
+  const analysis = analyzeSegments(parseSegmentCsv(fixture('joint-start.csv')));
+  // Cleo starts with Ada, whatever the input order; only Ben cuts in.
+  assert.equal(analysis.interruptions, 1);
+});
+
+test('a long overlap stays one interruption and one monologue after an intervention', () => {
+  const analysis = analyzeSegments(parseSegmentCsv(fixture('long-overlap.csv')));
+  assert.equal(analysis.interruptions, 1);
+  // The floor comes back without new interruptions or a restarted monologue, so the
+  // imbalance stays one episode and never turns into an interrupter warning.
+  assert.deepEqual(analysis.interventions.map(i => [i.at, i.speaker, i.triggers]), [[30, 'Ada', ['score', 'monologue']]]);
+  assert.deepEqual(analysis.speakers.map(s => [s.speaker, s.talkSeconds, s.turns]), [['Ada', 400, 1], ['Ben', 375, 1]]);
+});
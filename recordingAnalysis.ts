@@ -0,0 +1,335 @@
+import { DiscussionEngine, DEFAULT_FLOW } from "./DiscussionEngine";
+import { RecordedEvent, SessionLog, SESSION_LOG_VERSION } from "./SessionRecorder";
+import { buildSessionReport, SpeakerSummary } from "./sessionReport";
+import { computeFairnessMetrics, METRIC_IDS } from "./fairnessMetrics";
+import { DiscussionEvent, DiscussionFlow, DiscussionState, EngineConfig, EngineContext, FairnessMetrics } from "./types";
+
+/** One stretch of speech from a diarized recording, in seconds from its start. */
+export interface SpeakerSegment {
+  speaker: string;
+  start: number;
+  end: number;
+}
+
+export type SegmentFormat = 'rttm' | 'vtt' | 'csv';
+
+/** Why the imbalance flag was up when an intervention fired; `other` covers custom flow exits. */
+export type InterventionTrigger = 'score' | 'monologue' | 'interruptions' | 'other';
+
+export interface Intervention {
+  /** Seconds into the recording. */
+  at: number;
+  flowState: string;
+  state: DiscussionState;
+  triggers: InterventionTrigger[];
+  /** Who held the floor when it fired. */
+  speaker: string | null;
+  imbalanceScore: number;
+  metrics: FairnessMetrics;
+}
+
+export interface RecordingAnalysis {
+  durationSeconds: number;
+  tickSeconds: number;
+  /** Whether the engine played each intervention out instead of returning to monitoring. */
+  followed: boolean;
+  config: Partial<EngineConfig>;
+  flow: string;
+  speakers: SpeakerSummary[];
+  interruptions: number;
+  /** Balance metrics over the whole recording. */
+  metrics: FairnessMetrics;
+  interventions: Intervention[];
+  stateEntries: Record<DiscussionState, number>;
+}
+
+export interface AnalysisOptions {
+  config?: Partial<EngineConfig>;
+  flow?: DiscussionFlow;
+  /** Engine clock resolution; speech is sampled once per tick. */
+  tickSeconds?: number;
+  /**
+   * By default the engine goes straight back to the flow's initial state after each
+   * intervention, since the recorded meeting never followed it, and reports one intervention
+   * per imbalance episode. With `follow`, the engine plays the flow out (nudge, round,
+   * pause...) while the recording keeps talking.
+   */
+  follow?: boolean;
+}
+
+/** `[hh:]mm:ss[.fff]` or plain seconds. */
+function parseTime(value: string): number {
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text);
+  const match = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{2}(?:[.,]\d+)?)$/);
+  if (!match) return NaN;
+  return Number(match[1] ?? 0) * 3600 + Number(match[2]) * 60 + Number(match[3].replace(',', '.'));
+}
+
+const isSegment = (s: SpeakerSegment) => s.speaker !== '' && Number.isFinite(s.start) && Number.isFinite(s.end) && s.end > s.start && s.start >= 0;
+
+/** NIST RTTM: `SPEAKER <file> <channel> <start> <duration> <NA> <NA> <name> ...`; other record types are ignored. */
+export function parseRttm(text: string): SpeakerSegment[] {
+  return text.split(/\r?\n/)
+    .map(line => line.trim().split(/\s+/))
+    .filter(fields => fields[0] === 'SPEAKER' && fields.length >= 8)
+    .map(fields => ({ speaker: fields[7], start: Number(fields[3]), end: Number(fields[3]) + Number(fields[4]) }))
+    .filter(isSegment);
+}
+
+/** WebVTT cues with `<v Speaker>` voice tags; cues without a voice are skipped. */
+export function parseWebVtt(text: string): SpeakerSegment[] {
+  const segments: SpeakerSegment[] = [];
+  for (const block of text.split(/\r?\n\r?\n/)) {
+    const lines = block.split(/\r?\n/);
+    const timing = lines.findIndex(line => line.includes('-->'));
+    if (timing === -1) continue;
+    const [from, to] = lines[timing].split('-->');
+    const voice = lines.slice(timing + 1).join('\n').match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+    if (!voice) continue;
+    segments.push({ speaker: voice[1].trim(), start: parseTime(from), end: parseTime(to.trim().split(/\s+/)[0]) });
+  }
+  return segments.filter(isSegment);
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(cell); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+}
+
+/**
+ * CSV rows of start, end and speaker. A header row naming the columns (`start`, `end`,
+ * `speaker`) may put them in any order; without one, that column order is assumed.
+ */
+export function parseSegmentCsv(text: string): SpeakerSegment[] {
+  const rows = text.split(/\r?\n/).filter(line => line.trim()).map(splitCsvLine);
+  if (rows.length === 0) return [];
+  const header = rows[0].map(c => c.toLowerCase());
+  const hasHeader = ['start', 'end', 'speaker'].every(name => header.includes(name));
+  const [startCol, endCol, speakerCol] = hasHeader ? ['start', 'end', 'speaker'].map(name => header.indexOf(name)) : [0, 1, 2];
+  return rows.slice(hasHeader ? 1 : 0)
+    .map(row => ({ speaker: row[speakerCol] ?? '', start: parseTime(row[startCol] ?? ''), end: parseTime(row[endCol] ?? '') }))
+    .filter(isSegment);
+}
+
+/** Guesses the format from the file name, then from the content. */
+export function detectSegmentFormat(fileName: string, text: string): SegmentFormat {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'rttm' || ext === 'vtt' || ext === 'csv') return ext;
+  if (text.trimStart().startsWith('WEBVTT')) return 'vtt';
+  if (/^SPEAKER\s/m.test(text)) return 'rttm';
+  return 'csv';
+}
+
+export function parseSegments(format: SegmentFormat, text: string): SpeakerSegment[] {
+  switch (format) {
+    case 'rttm': return parseRttm(text);
+    case 'vtt': return parseWebVtt(text);
+    case 'csv': return parseSegmentCsv(text);
+  }
+}
+
+/**
+ * Turns the segments into the events a live session would have sent: `SPEAKER_START` and
+ * `SPEAKER_STOP` at the segment boundaries and a `TICK` per step. Boundaries up to the middle
+ * of a tick come before its TICK, so whoever speaks then is credited with it. At the same
+ * instant an end comes before a start, so a handover is not mistaken for an interruption;
+ * a segment that starts while another is still running is one. Segments that start together
+ * are joint onsets, whatever their order in the input.
+ */
+export function segmentsToEvents(segments: SpeakerSegment[], tickSeconds = 1): DiscussionEvent[] {
+  const boundaries = segments
+    .flatMap(s => [{ at: s.start, speaker: s.speaker, starts: true }, { at: s.end, speaker: s.speaker, starts: false }])
+    .sort((a, b) => a.at - b.at || Number(a.starts) - Number(b.starts));
+  const duration = segments.reduce((acc, s) => Math.max(acc, s.end), 0);
+  const events: DiscussionEvent[] = [];
+  // Open segments per speaker, since diarization may emit overlapping segments for one voice.
+  const open: Record<string, number> = {};
+  // Who is talking, earliest first like the engine's floor, and since when.
+  const talking: string[] = [];
+  const since: Record<string, number> = {};
+  let next = 0;
+
+  for (let tick = 0; tick * tickSeconds < duration; tick++) {
+    const mid = (tick + 0.5) * tickSeconds;
+    for (; next < boundaries.length && boundaries[next].at <= mid; next++) {
+      const { at, speaker, starts } = boundaries[next];
+      open[speaker] = (open[speaker] || 0) + (starts ? 1 : -1);
+      if (starts && open[speaker] === 1) {
+        const joint = talking.length > 0 && since[talking[0]] === at;
+        talking.push(speaker);
+        since[speaker] = at;
+        events.push(joint ? { type: 'SPEAKER_START', name: speaker, joint } : { type: 'SPEAKER_START', name: speaker });
+      }
+      if (!starts && open[speaker] === 0) {
+        talking.splice(talking.indexOf(speaker), 1);
+        events.push({ type: 'SPEAKER_STOP', name: speaker });
+      }
+    }
+    events.push({ type: 'TICK', seconds: tickSeconds });
+  }
+  return events;
+}
+
+function interventionTriggers(context: EngineContext): InterventionTrigger[] {
+  const triggers: InterventionTrigger[] = [];
+  if (context.imbalanceScore >= context.imbalanceScoreThreshold) triggers.push('score');
+  if (context.currentMonologueSeconds >= context.monologueLimitSeconds) triggers.push('monologue');
+  const topInterrupter = Math.max(0, ...Object.values(context.recentActivity.interruptionsBy));
+  if (context.interrupterThreshold > 0 && topInterrupter >= context.interrupterThreshold) triggers.push('interruptions');
+  return triggers.length > 0 ? triggers : ['other'];
+}
+
+/**
+ * Runs a diarized recording through the engine in auto mode, as fast as it will go, and
+ * reports every intervention that would have fired along with the balance of the meeting.
+ * An intervention is an automatic move away from the flow's initial state.
+ */
+export function analyzeSegments(segments: SpeakerSegment[], options: AnalysisOptions = {}): RecordingAnalysis {
+  const tickSeconds = options.tickSeconds ?? 1;
+  const flow = options.flow ?? DEFAULT_FLOW;
+  const config = options.config ?? {};
+  const speakers = [...new Set([...segments].sort((a, b) => a.start - b.start).map(s => s.speaker))];
+  const engine = new DiscussionEngine(speakers, config);
+  const recorded: RecordedEvent[] = [];
+  const interventions: Intervention[] = [];
+  let clock = 0;
+  let interruptions = 0;
+  let returnToInitial = false;
+  // Returning to monitoring leaves the imbalance in place, so the engine fires again after every
+  // hold period; only the first intervention of each imbalance episode is reported.
+  let episodeOpen = false;
+
+  engine.on('imbalanceCleared', () => { episodeOpen = false; });
+  engine.on('stateEntered', ({ event, before, after }) => {
+    if (event.type !== 'TICK' || before.context.flowState !== flow.initial) return;
+    returnToInitial = !options.follow;
+    const repeated = episodeOpen && before.context.imbalanceFlag;
+    episodeOpen = before.context.imbalanceFlag;
+    if (repeated) return;
+    interventions.push({
+      at: clock + event.seconds,
+      flowState: after.context.flowState,
+      state: after.state,
+      triggers: interventionTriggers(before.context),
+      speaker: before.context.activeSpeaker,
+      imbalanceScore: before.context.imbalanceScore,
+      metrics: before.context.metrics,
+    });
+  });
+
+  const send = (event: DiscussionEvent) => {
+    const before = engine.snapshot().context.interruptionCount;
+    recorded.push({ kind: 'event', seq: recorded.length, at: Math.round(clock * 1000), event });
+    engine.send(event);
+    interruptions += Math.max(0, engine.snapshot().context.interruptionCount - before);
+    if (event.type === 'TICK') clock += event.seconds;
+  };
+
+  if (flow !== DEFAULT_FLOW) send({ type: 'SET_FLOW', flow });
+  send({ type: 'SET_AUTO_MODE', enabled: true });
+  // Who is speaking in the recording, earliest first, as the engine orders `activeSpeakers`,
+  // and how long the first of them has held the floor.
+  let talking: string[] = [];
+  let monologueSeconds = 0;
+  for (const event of segmentsToEvents(segments, tickSeconds)) {
+    const holder = talking[0];
+    if (event.type === 'SPEAKER_START') talking = [...talking, event.name];
+    if (event.type === 'SPEAKER_STOP') talking = talking.filter(s => s !== event.name);
+    if (talking[0] !== holder) monologueSeconds = 0;
+    send(event);
+    if (event.type !== 'TICK') continue;
+    monologueSeconds = talking.length > 0 ? monologueSeconds + event.seconds : 0;
+    if (returnToInitial) {
+      returnToInitial = false;
+      send({ type: 'ENTER_STATE', id: flow.initial });
+    }
+    // An intervention may have taken the floor away; the recording keeps whoever really spoke,
+    // and for as long as they really did. A followed flow owns the floor during its rounds, so
+    // only observation mode restores it.
+    if (!options.follow && engine.snapshot().context.activeSpeakers.join('\n') !== talking.join('\n')) {
+      send({ type: 'RESTORE_FLOOR', speakers: talking, monologueSeconds });
+    }
+  }
+
+  const log: SessionLog = {
+    header: { kind: 'header', version: SESSION_LOG_VERSION, startedAt: new Date(0).toISOString(), speakers, config },
+    events: recorded,
+  };
+  const report = buildSessionReport(log);
+  const talkTime = Object.fromEntries(report.speakers.map(s => [s.speaker, s.talkSeconds]));
+  const turnCounts = Object.fromEntries(report.speakers.map(s => [s.speaker, s.turns]));
+
+  return {
+    durationSeconds: report.durationSeconds,
+    tickSeconds,
+    followed: !!options.follow,
+    config,
+    flow: flow.id,
+    speakers: report.speakers,
+    interruptions,
+    metrics: computeFairnessMetrics({
+      speakers,
+      talkTime,
+      totalTalkTime: report.speakers.reduce((acc, s) => acc + s.talkSeconds, 0),
+      turnCounts,
+      interruptionCount: interruptions,
+    }),
+    interventions,
+    stateEntries: report.stateEntries,
+  };
+}
+
+const formatTime = (seconds: number) => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const mm = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+  const ss = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+const mdCell = (value: string) => value.replace(/\|/g, '\\|');
+
+/** A readable summary of an analysis, for pasting into notes or an issue. */
+export function analysisToMarkdown(analysis: RecordingAnalysis, title = 'Recording analysis'): string {
+  const lines = [
+    `# ${mdCell(title)}`,
+    '',
+    `- Duration: ${formatTime(analysis.durationSeconds)} (sampled every ${analysis.tickSeconds}s)`,
+    `- Flow: ${analysis.flow}${analysis.followed ? ', interventions played out' : ''}`,
+    `- Interventions: ${analysis.interventions.length}`,
+    `- Interruptions: ${analysis.interruptions}`,
+  ];
+  const overrides = Object.entries(analysis.config);
+  if (overrides.length > 0) lines.push(`- Settings: ${overrides.map(([k, v]) => `\`${k}=${JSON.stringify(v)}\``).join(', ')}`);
+
+  lines.push('', '## Speakers', '', '| Speaker | Talk time | Share | Turns |', '| --- | ---: | ---: | ---: |');
+  analysis.speakers.forEach(s => lines.push(`| ${mdCell(s.speaker)} | ${formatTime(s.talkSeconds)} | ${(s.share * 100).toFixed(1)}% | ${s.turns} |`));
+
+  lines.push('', '## Balance metrics', '', '| Metric | Score |', '| --- | ---: |');
+  METRIC_IDS.forEach(id => lines.push(`| ${id} | ${analysis.metrics[id].toFixed(3)} |`));
+
+  lines.push('', '## Interventions', '');
+  if (analysis.interventions.length === 0) {
+    lines.push('None would have fired.');
+  } else {
+    lines.push('| Time | State | Triggers | Speaker | Score |', '| --- | --- | --- | --- | ---: |');
+    analysis.interventions.forEach(i => lines.push(
+      `| ${formatTime(i.at)} | ${mdCell(i.flowState)} | ${i.triggers.join(', ')} | ${mdCell(i.speaker ?? '-')} | ${i.imbalanceScore.toFixed(3)} |`
+    ));
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,83 @@
+import { Roster, RosterMember, SpeakerProfile } from "./types";
+
+const STORAGE_KEY = "discussion-flow.rosters.v1";
+
+function readRosters(): Roster[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(normalizeRoster) : [];
+  } catch (error) {
+    console.error("Roster storage error:", error);
+    return [];
+  }
+}
+
+function writeRosters(rosters: Roster[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rosters));
+}
+
+export function createMemberId(): string {
+  return `member-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a stored roster and fills in missing ids. Members without a name are dropped
+ * and repeated names keep their first entry, since the engine keys speakers by name.
+ */
+export function normalizeRoster(input: unknown): Roster {
+  if (!isRecord(input)) throw new Error("Roster must be an object");
+  if (typeof input.name !== 'string' || !input.name.trim()) throw new Error("Roster is missing a name");
+  const members: RosterMember[] = [];
+  for (const m of Array.isArray(input.members) ? input.members : []) {
+    if (!isRecord(m)) continue;
+    const name = typeof m.name === 'string' ? m.name.trim() : '';
+    if (!name || members.some(x => x.name === name)) continue;
+    members.push({
+      id: typeof m.id === 'string' && m.id ? m.id : createMemberId(),
+      name,
+      role: typeof m.role === 'string' && m.role.trim() ? m.role.trim() : undefined,
+      color: typeof m.color === 'string' && m.color ? m.color : undefined,
+    });
+  }
+  return {
+    id: typeof input.id === 'string' && input.id ? input.id : `roster-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: input.name.trim(),
+    members,
+  };
+}
+
+export function loadRosters(): Roster[] {
+  return readRosters();
+}
+
+/** Saves (or overwrites by id) a roster and returns the full roster list. */
+export function saveRoster(roster: Roster): Roster[] {
+  writeRosters([...readRosters().filter(r => r.id !== roster.id), normalizeRoster(roster)]);
+  return loadRosters();
+}
+
+export function deleteRoster(id: string): Roster[] {
+  writeRosters(readRosters().filter(r => r.id !== id));
+  return loadRosters();
+}
+
+/**
+ * The profile a typed-in name should get: the same person from a saved roster when the name
+ * matches, so they keep their identity across sessions. Other names get none, and history
+ * groups them by name instead.
+ */
+export function profileForName(name: string): SpeakerProfile | undefined {
+  for (const roster of readRosters()) {
+    const member = roster.members.find(m => m.name === name);
+    if (member) {
+      const { name: _name, ...profile } = member;
+      return profile;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,137 @@
+/** A monotonic source of milliseconds; only differences between readings matter. */
+export interface TimeSource {
+  now(): number;
+}
+
+export const monotonicTime: TimeSource = { now: () => performance.now() };
+
+/** Time that only moves when told to, for tests and offline runs. */
+export class VirtualTime implements TimeSource {
+  private ms = 0;
+
+  public now() {
+    return this.ms;
+  }
+
+  public advance(seconds: number) {
+    this.ms += seconds * 1000;
+  }
+}
+
+/** A break in the session, at `at` session seconds; `seconds` is its real length, null while ongoing. */
+export interface ClockPause {
+  at: number;
+  seconds: number | null;
+}
+
+/** What is needed to continue a clock after a reload. */
+export interface ClockState {
+  elapsedSeconds: number;
+  speed: number;
+  paused: boolean;
+  pauses: ClockPause[];
+}
+
+export const CLOCK_SPEEDS = [1, 2, 5, 10];
+
+/**
+ * Session time derived from a monotonic time source rather than from counting timer callbacks,
+ * so throttled timers (background tabs) and late callbacks cannot make it drift.
+ *
+ * The clock advances only while it is started and not paused. `stop()` is the facilitator
+ * turning the simulation off; `pause()` is a break in the session and is recorded in `pauses`.
+ * `speed` scales session time against real time, for demos and replay.
+ */
+export class SessionClock {
+  private base: number;
+  private anchor: number | null = null;
+  private running = false;
+  private pausedAt: number | null = null;
+  private rate: number;
+  private breaks: ClockPause[];
+
+  constructor(private readonly source: TimeSource = monotonicTime, state: Partial<ClockState> = {}) {
+    this.base = state.elapsedSeconds ?? 0;
+    this.rate = state.speed && state.speed > 0 ? state.speed : 1;
+    this.breaks = (state.pauses ?? []).map(p => ({ ...p }));
+    // A break that was ongoing when the state was saved continues from now.
+    if (state.paused) {
+      if (this.breaks.length === 0 || this.breaks[this.breaks.length - 1].seconds !== null) {
+        this.breaks.push({ at: this.base, seconds: null });
+      }
+      this.pausedAt = this.source.now();
+    } else {
+      const open = this.breaks[this.breaks.length - 1];
+      if (open && open.seconds === null) open.seconds = 0;
+    }
+  }
+
+  public elapsedSeconds(): number {
+    return this.anchor === null ? this.base : this.base + (this.source.now() - this.anchor) / 1000 * this.rate;
+  }
+
+  public get speed() {
+    return this.rate;
+  }
+
+  public get isRunning() {
+    return this.running;
+  }
+
+  public get isPaused() {
+    return this.pausedAt !== null;
+  }
+
+  public get pauses(): ClockPause[] {
+    return this.breaks.map(p => ({ ...p }));
+  }
+
+  public start() {
+    this.running = true;
+    this.sync();
+  }
+
+  public stop() {
+    this.running = false;
+    this.sync();
+  }
+
+  public pause() {
+    if (this.isPaused) return;
+    this.pausedAt = this.source.now();
+    this.sync();
+    this.breaks.push({ at: this.base, seconds: null });
+  }
+
+  /** Ends the current break and returns its real length in seconds. */
+  public resume(): number {
+    if (this.pausedAt === null) return 0;
+    const seconds = (this.source.now() - this.pausedAt) / 1000;
+    this.pausedAt = null;
+    this.breaks[this.breaks.length - 1].seconds = seconds;
+    this.sync();
+    return seconds;
+  }
+
+  public setSpeed(speed: number) {
+    if (!(speed > 0)) throw new Error(`Invalid clock speed: ${speed}`);
+    this.sync();
+    this.rate = speed;
+  }
+
+  /** Jumps to a session time, e.g. when seeking in a replay. */
+  public seek(seconds: number) {
+    this.base = Math.max(0, seconds);
+    if (this.anchor !== null) this.anchor = this.source.now();
+  }
+
+  public state(): ClockState {
+    return { elapsedSeconds: this.elapsedSeconds(), speed: this.rate, paused: this.isPaused, pauses: this.pauses };
+  }
+
+  /** Folds time so far into `base` and re-anchors according to whether the clock should run. */
+  private sync() {
+    this.base = this.elapsedSeconds();
+    this.anchor = this.running && this.pausedAt === null ? this.source.now() : null;
+  }
+}
@@ -0,0 +1,296 @@
+import { DiscussionEngine } from "./DiscussionEngine";
+import { SessionLog, replayEvent } from "./SessionRecorder";
+import { DiscussionState, FairnessMetrics, SessionLanguage } from "./types";
+import { computeFairnessMetrics, METRIC_IDS } from "./fairnessMetrics";
+import { LANGUAGES, translate, MessageKey, MessageParams } from "./i18n";
+
+export interface SpeakingTurn {
+  speaker: string;
+  /** Seconds since the session start at which the turn started/ended. */
+  start: number;
+  end: number;
+}
+
+export interface SpeakerSummary {
+  speaker: string;
+  talkSeconds: number;
+  turns: number;
+  share: number;
+  /** Seconds from joining the session to first speaking; null if they never spoke. */
+  timeToFirstContribution: number | null;
+}
+
+/** Balance within one agenda item, over the time it was the current topic. */
+export interface TopicSummary {
+  id: string;
+  title: string;
+  timeboxSeconds: number;
+  durationSeconds: number;
+  talkSeconds: Record<string, number>;
+  turns: Record<string, number>;
+  interruptions: number;
+  /** Who talked most on this topic, with their share of its talk time. */
+  topSpeaker: string | null;
+  topShare: number;
+  metrics: FairnessMetrics;
+}
+
+export interface SessionReport {
+  startedAt: string;
+  durationSeconds: number;
+  speakers: SpeakerSummary[];
+  turns: SpeakingTurn[];
+  dominanceSeries: { t: number, score: number }[];
+  stateEntries: Record<DiscussionState, number>;
+  longestMonologues: SpeakingTurn[];
+  /** Agenda items in the order they were first discussed. */
+  topics: TopicSummary[];
+}
+
+/**
+ * Replays a session log through a fresh engine and derives the post-session report.
+ * Totals are accumulated independently of the engine, so CHECKIN resets do not lose data.
+ */
+export function buildSessionReport(log: SessionLog, monologueCount = 5): SessionReport {
+  const engine = new DiscussionEngine(log.header.speakers, log.header.config);
+  const turns: SpeakingTurn[] = [];
+  const dominanceSeries: { t: number, score: number }[] = [];
+  const stateEntries = Object.fromEntries(Object.values(DiscussionState).map(s => [s, 0])) as Record<DiscussionState, number>;
+  const joinedAt: Record<string, number> = {};
+  const roster: string[] = [];
+
+  const noteSpeaker = (name: string, t: number) => {
+    if (!(name in joinedAt)) {
+      joinedAt[name] = t;
+      roster.push(name);
+    }
+  };
+  log.header.speakers.forEach(s => noteSpeaker(s, 0));
+
+  let prevState = engine.snapshot().state;
+  stateEntries[prevState] += 1;
+  let openTurns: Record<string, SpeakingTurn> = {};
+  const topics = new Map<string, Omit<TopicSummary, 'topSpeaker' | 'topShare' | 'metrics'>>();
+  let lastTalking: string[] = [];
+  // The engine clock restarts after CHECKIN, so the report keeps its own monotonic clock.
+  let clock = 0;
+
+  for (const { event } of log.events) {
+    const before = engine.snapshot().context;
+    replayEvent(engine, event);
+    const { state, context } = engine.snapshot();
+
+    if (event.type === 'ADD_SPEAKER') noteSpeaker(event.name, clock);
+
+    const item = before.agendaIndex === null ? null : before.agenda[before.agendaIndex];
+    if (item) {
+      const topic = topics.get(item.id) ?? { id: item.id, title: item.title, timeboxSeconds: item.timeboxSeconds, durationSeconds: 0, talkSeconds: {}, turns: {}, interruptions: 0 };
+      topic.title = item.title;
+      topic.timeboxSeconds = item.timeboxSeconds;
+      if (event.type === 'TICK') {
+        topic.durationSeconds += event.seconds;
+        before.activeSpeakers.filter(s => before.talkTime[s] !== undefined).forEach(s => {
+          topic.talkSeconds[s] = (topic.talkSeconds[s] || 0) + event.seconds;
+          if (!lastTalking.includes(s) || !(s in topic.turns)) topic.turns[s] = (topic.turns[s] || 0) + 1;
+        });
+      }
+      topic.interruptions += Math.max(0, context.interruptionCount - before.interruptionCount);
+      topics.set(item.id, topic);
+    }
+
+    if (event.type === 'TICK') {
+      // Overlapping speakers each get their own turn bar.
+      const talking = before.activeSpeakers.filter(s => before.talkTime[s] !== undefined);
+      const start = clock;
+      clock += event.seconds;
+      const end = clock;
+      const stillOpen: Record<string, SpeakingTurn> = {};
+      talking.forEach(speaker => {
+        const open = openTurns[speaker];
+        if (open && open.end === start) {
+          open.end = end;
+          stillOpen[speaker] = open;
+        } else {
+          const turn = { speaker, start, end };
+          turns.push(turn);
+          stillOpen[speaker] = turn;
+        }
+      });
+      openTurns = stillOpen;
+      lastTalking = talking;
+      dominanceSeries.push({ t: end, score: context.dominanceScore });
+    }
+
+    if (state !== prevState) {
+      stateEntries[state] += 1;
+      prevState = state;
+    }
+  }
+
+  const durationSeconds = clock;
+  const totalTalk = turns.reduce((acc, t) => acc + (t.end - t.start), 0);
+
+  const speakers: SpeakerSummary[] = roster.map(speaker => {
+    const own = turns.filter(t => t.speaker === speaker);
+    const talkSeconds = own.reduce((acc, t) => acc + (t.end - t.start), 0);
+    return {
+      speaker,
+      talkSeconds,
+      turns: own.length,
+      share: totalTalk > 0 ? talkSeconds / totalTalk : 0,
+      timeToFirstContribution: own.length > 0 ? Math.max(0, own[0].start - joinedAt[speaker]) : null,
+    };
+  });
+
+  const longestMonologues = [...turns]
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+    .slice(0, monologueCount);
+
+  const topicSummaries: TopicSummary[] = [...topics.values()].map(topic => {
+    const totalTalkTime = Object.values(topic.talkSeconds).reduce((a, b) => a + b, 0);
+    const top = Object.entries(topic.talkSeconds).sort((a, b) => b[1] - a[1])[0];
+    return {
+      ...topic,
+      topSpeaker: top ? top[0] : null,
+      topShare: top && totalTalkTime > 0 ? top[1] / totalTalkTime : 0,
+      metrics: computeFairnessMetrics({
+        speakers: roster,
+        talkTime: topic.talkSeconds,
+        totalTalkTime,
+        turnCounts: topic.turns,
+        interruptionCount: topic.interruptions,
+      }),
+    };
+  });
+
+  return {
+    startedAt: log.header.startedAt,
+    durationSeconds,
+    speakers,
+    turns,
+    dominanceSeries,
+    stateEntries,
+    longestMonologues,
+    topics: topicSummaries,
+  };
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number | null)[][]) => rows.map(r => r.map(csvCell).join(',')).join('\n');
+
+/** Multi-section CSV: speaker summary, turns, state entries, agenda topics. */
+export function reportToCsv(report: SessionReport): string {
+  return [
+    toCsv([
+      ['speaker', 'talk_seconds', 'share', 'turns', 'time_to_first_contribution'],
+      ...report.speakers.map(s => [s.speaker, s.talkSeconds, s.share.toFixed(3), s.turns, s.timeToFirstContribution]),
+    ]),
+    toCsv([
+      ['speaker', 'start', 'end', 'duration'],
+      ...report.turns.map(t => [t.speaker, t.start, t.end, t.end - t.start]),
+    ]),
+    toCsv([
+      ['state', 'entries'],
+      ...Object.entries(report.stateEntries).map(([state, count]) => [state, count]),
+    ]),
+    ...(report.topics.length > 0 ? [toCsv([
+      ['topic', 'timebox_seconds', 'duration_seconds', 'top_speaker', 'top_share', ...METRIC_IDS],
+      ...report.topics.map(tp => [tp.title, tp.timeboxSeconds, tp.durationSeconds, tp.topSpeaker, tp.topShare.toFixed(3), ...METRIC_IDS.map(id => tp.metrics[id].toFixed(3))]),
+    ])] : []),
+  ].join('\n\n') + '\n';
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PALETTE = ['#4a635d', '#a66e51', '#6b754d', '#b5925d', '#5c727d', '#8c6b5a', '#547366', '#b38576', '#9e9672', '#6e747a'];
+
+/** Inline SVG Gantt chart of speaking turns, one row per speaker. */
+export function timelineSvg(report: SessionReport, width = 760): string {
+  const rowH = 22;
+  const labelW = 110;
+  const span = Math.max(1, report.durationSeconds);
+  const height = report.speakers.length * rowH + 20;
+  const x = (t: number) => labelW + (t / span) * (width - labelW - 10);
+
+  const rows = report.speakers.map((s, i) => {
+    const y = i * rowH + 4;
+    const bars = report.turns
+      .filter(t => t.speaker === s.speaker)
+      .map(t => `<rect x="${x(t.start).toFixed(1)}" y="${y}" width="${Math.max(1, x(t.end) - x(t.start)).toFixed(1)}" height="${rowH - 8}" rx="3" fill="${PALETTE[i % PALETTE.length]}"/>`)
+      .join('');
+    return `<text x="${labelW - 8}" y="${y + rowH / 2}" text-anchor="end" font-size="12" font-weight="700" fill="#3d2e25">${escapeHtml(s.speaker)}</text>${bars}`;
+  }).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<line x1="${labelW}" y1="${height - 14}" x2="${width - 10}" y2="${height - 14}" stroke="#d6cdc1"/>`
+    + `<text x="${labelW}" y="${height - 2}" font-size="10" fill="#736d52">0s</text>`
+    + `<text x="${width - 10}" y="${height - 2}" font-size="10" text-anchor="end" fill="#736d52">${report.durationSeconds}s</text>`
+    + rows + `</svg>`;
+}
+
+/** Inline SVG line chart of the dominance score over session time. */
+export function dominanceSvg(report: SessionReport, threshold: number | null, width = 760, height = 140): string {
+  const span = Math.max(1, report.durationSeconds);
+  const maxScore = Math.max(0.5, threshold ?? 0, ...report.dominanceSeries.map(p => p.score));
+  const x = (t: number) => 10 + (t / span) * (width - 20);
+  const y = (v: number) => height - 10 - (v / maxScore) * (height - 20);
+  const points = report.dominanceSeries.map(p => `${x(p.t).toFixed(1)},${y(p.score).toFixed(1)}`).join(' ');
+  const thresholdLine = threshold === null ? '' :
+    `<line x1="10" x2="${width - 10}" y1="${y(threshold).toFixed(1)}" y2="${y(threshold).toFixed(1)}" stroke="#b91c1c" stroke-dasharray="4 4" opacity="0.6"/>`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect x="0" y="0" width="${width}" height="${height}" fill="none" stroke="#d6cdc1" rx="8"/>`
+    + thresholdLine
+    + `<polyline points="${points}" fill="none" stroke="#4a635d" stroke-width="2"/>`
+    + `</svg>`;
+}
+
+/** Self-contained, printable HTML document (print to PDF from the browser), in the session language. */
+export function reportToHtml(report: SessionReport, threshold: number | null, language: SessionLanguage = 'he'): string {
+  const t = (key: MessageKey, params?: MessageParams) => escapeHtml(translate(language, key, params));
+  const { dir } = LANGUAGES[language];
+  const speakerRows = report.speakers.map(s => `<tr><td>${escapeHtml(s.speaker)}</td><td>${s.talkSeconds}s</td><td>${(s.share * 100).toFixed(0)}%</td><td>${s.turns}</td><td>${s.timeToFirstContribution === null ? '—' : `${s.timeToFirstContribution}s`}</td></tr>`).join('');
+  const stateRows = Object.entries(report.stateEntries).map(([state, count]) => `<tr><td>${t(`state.${state as DiscussionState}`)}</td><td>${count}</td></tr>`).join('');
+  const topicRows = report.topics.map(tp => `<tr><td>${escapeHtml(tp.title)}</td><td>${tp.durationSeconds}s / ${tp.timeboxSeconds}s</td><td>${tp.topSpeaker === null ? '—' : `${escapeHtml(tp.topSpeaker)} (${(tp.topShare * 100).toFixed(0)}%)`}</td>${METRIC_IDS.map(id => `<td>${tp.metrics[id].toFixed(2)}</td>`).join('')}</tr>`).join('');
+  const topicSection = report.topics.length === 0 ? '' : `<h2>${t('report.topics')}</h2>
+<table><tr><th>${t('report.topic')}</th><th>${t('report.timebox')}</th><th>${t('report.topSpeaker')}</th>${METRIC_IDS.map(id => `<th>${t(`metric.${id}`)}</th>`).join('')}</tr>${topicRows}</table>
+`;
+  const monologueRows = report.longestMonologues.map(t => `<tr><td>${escapeHtml(t.speaker)}</td><td>${t.end - t.start}s</td><td>${t.start}s–${t.end}s</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${language}" dir="${dir}">
+<head>
+<meta charset="UTF-8" />
+<title>${t('report.htmlTitle', { date: report.startedAt })}</title>
+<style>
+  body { font-family: 'Inter', Arial, sans-serif; color: #1a1816; background: #f2ede4; margin: 32px; }
+  h1 { margin: 0 0 4px; } h2 { margin-top: 28px; color: #4a635d; }
+  table { border-collapse: collapse; width: 100%; background: #fff; }
+  th, td { border: 1px solid #d6cdc1; padding: 6px 10px; text-align: start; font-size: 13px; }
+  th { background: #ebe6db; }
+  svg { background: #fff; border-radius: 8px; direction: ltr; }
+  @media print { body { background: #fff; margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${t('report.title')}</h1>
+<div>${t('report.dateLine', { date: report.startedAt, duration: report.durationSeconds })}</div>
+<h2>${t('report.talkBySpeaker')}</h2>
+<table><tr><th>${t('report.participant')}</th><th>${t('report.talkTime')}</th><th>${t('report.share')}</th><th>${t('report.turns')}</th><th>${t('report.timeToFirst')}</th></tr>${speakerRows}</table>
+${topicSection}<h2>${t('report.timeline')}</h2>
+${timelineSvg(report)}
+<h2>${t('report.dominanceOverTime')}</h2>
+${dominanceSvg(report, threshold)}
+<h2>${t('report.stateEntries')}</h2>
+<table><tr><th>${t('report.state')}</th><th>${t('report.entries')}</th></tr>${stateRows}</table>
+<h2>${t('report.longestMonologues')}</h2>
+<table><tr><th>${t('report.participant')}</th><th>${t('report.duration')}</th><th>${t('report.range')}</th></tr>${monologueRows}</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,98 @@
+import { EngineConfig, SessionLanguage } from "./types";
+import { EngineSnapshot, SessionLog } from "./SessionRecorder";
+import { ClockState } from "./sessionClock";
+
+const DB_NAME = "discussion-flow";
+const DB_VERSION = 1;
+const STORE = "sessions";
+const ACTIVE_KEY = "discussion-flow.activeSession.v1";
+
+/** Everything needed to list a past session and to continue it where it stopped. */
+export interface StoredSession {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  language: SessionLanguage;
+  speakers: string[];
+  config: EngineConfig;
+  autoMode: boolean;
+  /** Whether the session clock was running, so a reload continues mid-discussion. */
+  running: boolean;
+  /** Speed and recorded breaks of the session clock; absent in sessions saved before it existed. */
+  clock?: ClockState;
+  /** Engine state at the last save; the log is authoritative when resuming. */
+  snapshot: EngineSnapshot;
+  log: SessionLog;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if IndexedDB was unavailable (e.g. blocked in a private window).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function saveSession(session: StoredSession): Promise<IDBValidKey> {
+  return withStore('readwrite', store => store.put(session));
+}
+
+export async function loadSession(id: string): Promise<StoredSession | null> {
+  return (await withStore<StoredSession | undefined>('readonly', store => store.get(id))) ?? null;
+}
+
+/** All stored sessions, most recently updated first. */
+export async function listSessions(): Promise<StoredSession[]> {
+  const sessions = await withStore<StoredSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  const session = await loadSession(id);
+  if (session) await saveSession({ ...session, name });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  if (getActiveSessionId() === id) setActiveSessionId(null);
+}
+
+/** The session the console resumes after a reload. */
+export function getActiveSessionId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch (error) {
+    console.error("Session storage error:", error);
+    return null;
+  }
+}
+
+export function setActiveSessionId(id: string | null) {
+  if (id) localStorage.setItem(ACTIVE_KEY, id);
+  else localStorage.removeItem(ACTIVE_KEY);
+}
@@ -0,0 +1,203 @@
+import { DiscussionEvent, DiscussionState, EngineContext, SessionLanguage } from './types';
+import { RoundSummary } from './geminiService';
+
+/** Path on the dev server where the sync WebSocket endpoint listens. */
+export const SYNC_PATH = '/sync';
+
+export type SyncRole = 'facilitator' | 'room' | 'participant';
+
+export type SyncStatus = 'connecting' | 'open' | 'closed';
+
+/** Why the server turned a connection away: a wrong facilitator secret, or a participant name already connected. */
+export type SyncRejection = 'forbidden' | 'nameTaken';
+
+/**
+ * The engine context without what only grows over a session (transcript, interruption log)
+ * or only the console uses, so publishing it every second stays small.
+ */
+export type SyncContext = Omit<EngineContext, 'transcript' | 'interruptions' | 'recentActivity'>;
+
+export function toSyncContext(context: EngineContext): SyncContext {
+  const { transcript, interruptions, recentActivity, ...rest } = context;
+  return rest;
+}
+
+/** Everything a remote view needs to render the current moment of the session. */
+export interface SyncSnapshot {
+  state: DiscussionState;
+  context: SyncContext;
+  quietView: boolean;
+  tip: string | null;
+  roundSummary: RoundSummary | null;
+  language: SessionLanguage;
+}
+
+/** Who is connected to a session besides the facilitator. */
+export interface SyncPresence {
+  rooms: number;
+  participants: string[];
+}
+
+export type SyncMessage =
+  | { type: 'snapshot', snapshot: SyncSnapshot }
+  | { type: 'event', event: DiscussionEvent, from: string | null }
+  | { type: 'presence', presence: SyncPresence }
+  | { type: 'rejected', reason: SyncRejection };
+
+export interface SyncHandlers {
+  onSnapshot?: (snapshot: SyncSnapshot) => void;
+  onEvent?: (event: DiscussionEvent, from: string | null) => void;
+  onPresence?: (presence: SyncPresence) => void;
+  onStatus?: (status: SyncStatus) => void;
+  /** The server refused the connection; the client stops reconnecting. */
+  onRejected?: (reason: SyncRejection) => void;
+}
+
+/** Who a connection claims to be: a participant's name, or the facilitator's secret. */
+export interface SyncCredentials {
+  name?: string;
+  secret?: string;
+}
+
+const RECONNECT_MS = 2000;
+
+const MESSAGE_TYPES: readonly string[] = ['snapshot', 'event', 'presence', 'rejected'] satisfies SyncMessage['type'][];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads one message off the wire. Anything that is not an object with a known `type`,
+ * or an event without a `type` of its own, comes back as null. Fields are not checked
+ * further: the engine ignores events it cannot apply.
+ */
+export function parseSyncMessage(text: string): SyncMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(message) || typeof message.type !== 'string' || !MESSAGE_TYPES.includes(message.type)) return null;
+  if (message.type === 'event' && !(isObject(message.event) && typeof message.event.type === 'string')) return null;
+  if (message.type === 'snapshot' && !isObject(message.snapshot)) return null;
+  return message as SyncMessage;
+}
+
+/**
+ * Proves to the sync server that a connection comes from the console that shared the session.
+ * Unlike the session code it never appears in a link, so knowing the code is not enough to
+ * publish to the room display.
+ */
+export function createFacilitatorSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Short human-readable code that keys a session on the sync server. */
+export function createSessionCode(): string {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  return Array.from({ length: 5 }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join('');
+}
+
+export function syncSocketUrl(session: string, role: SyncRole, { name, secret }: SyncCredentials = {}): string {
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const params = new URLSearchParams({ session, role });
+  if (name) params.set('name', name);
+  if (secret) params.set('secret', secret);
+  return `${protocol}//${location.host}${SYNC_PATH}?${params}`;
+}
+
+/** Link that opens the given view of a session on another device. */
+export function viewUrl(session: string, view: Exclude<SyncRole, 'facilitator'>): string {
+  return `${location.origin}${location.pathname}?${new URLSearchParams({ view, session })}`;
+}
+
+/**
+ * Participants may only act for themselves (their own turn, hand and vote): anything
+ * else they send is ignored, so a phone can never steer the session on the facilitator's behalf.
+ */
+export function isAllowedRemoteEvent(event: DiscussionEvent, from: string | null, context: EngineContext): boolean {
+  if (!from || !context.speakers.includes(from)) return false;
+  switch (event.type) {
+    case 'PASS_TURN':
+      return context.turnOrder[context.turnIndex] === from;
+    case 'RAISE_HAND':
+    case 'LOWER_HAND':
+    case 'CHECKIN_VOTE':
+      return event.name === from;
+    default:
+      return false;
+  }
+}
+
+/**
+ * One connection to the local sync server. The facilitator publishes snapshots and
+ * receives participant events; room displays and participants receive snapshots.
+ * Reconnects on its own until closed.
+ */
+export class SessionSyncClient {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: number | null = null;
+  private closed = false;
+
+  constructor(
+    private readonly session: string,
+    private readonly role: SyncRole,
+    private readonly handlers: SyncHandlers,
+    private readonly credentials: SyncCredentials = {}
+  ) {}
+
+  public connect() {
+    this.closed = false;
+    this.handlers.onStatus?.('connecting');
+    const socket = new WebSocket(syncSocketUrl(this.session, this.role, this.credentials));
+    socket.onopen = () => this.handlers.onStatus?.('open');
+    socket.onmessage = (e) => this.receive(e.data);
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handlers.onStatus?.('closed');
+      if (!this.closed) this.reconnectTimer = window.setTimeout(() => this.connect(), RECONNECT_MS);
+    };
+    this.socket = socket;
+  }
+
+  public close() {
+    this.closed = true;
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.handlers.onStatus?.('closed');
+  }
+
+  public publish(snapshot: SyncSnapshot) {
+    this.post({ type: 'snapshot', snapshot });
+  }
+
+  public sendEvent(event: DiscussionEvent) {
+    this.post({ type: 'event', event, from: this.credentials.name ?? null });
+  }
+
+  private post(message: SyncMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private receive(data: unknown) {
+    const message = parseSyncMessage(String(data));
+    if (!message) {
+      console.error("Sync message ignored:", data);
+      return;
+    }
+    if (message.type === 'snapshot') this.handlers.onSnapshot?.(message.snapshot);
+    else if (message.type === 'event') this.handlers.onEvent?.(message.event, message.from);
+    else if (message.type === 'presence') this.handlers.onPresence?.(message.presence);
+    else if (message.type === 'rejected') {
+      // Retrying would be refused the same way; the server closes the socket next.
+      this.closed = true;
+      this.handlers.onRejected?.(message.reason);
+    }
+  }
+}
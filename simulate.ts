@@ -0,0 +1,84 @@
+/**
+ * Command-line batches of simulated discussions, for tuning thresholds and hold timings.
+ * Run with `npm run simulate -- [options]`.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { exitWithUsage, readEngineConfig } from './cliSupport';
+import { DEFAULT_FLOW } from './DiscussionEngine';
+import { importFlow } from './flowStore';
+import { batchReportToMarkdown, parsePersonas, runSimulationBatch } from './discussionSimulator';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Options:
+  --personas <list>       Participants, e.g. dominant,quiet,balanced*2 (default: dominant,quiet,interrupter,balanced)
+  --runs <n>              Number of simulated discussions (default: 50)
+  --seed <n>              Seed of the first run; run i uses seed + i (default: 1)
+  --duration <seconds>    Length of each discussion (default: 900)
+  --config <file>         Engine settings as JSON, or an exported facilitation preset
+  --set <key>=<value>     Override one setting, e.g. --set imbalanceHoldSeconds=20
+  --flow <file>           An exported discussion flow to run instead of the default
+  --output json|markdown  Report format (default: markdown)
+  --out <file>            Write the report to a file instead of stdout
+`;
+
+function fail(message: string): never {
+  return exitWithUsage(message, USAGE);
+}
+
+function parseArgs(argv: string[]) {
+  const options = { personas: 'dominant,quiet,interrupter,balanced', runs: 50, seed: 1, duration: 900, config: '', flow: '', output: 'markdown', out: '', set: [] as string[] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => argv[++i] ?? fail(`${arg} needs a value`);
+    switch (arg) {
+      case '--personas': options.personas = value(); break;
+      case '--runs': options.runs = Number(value()); break;
+      case '--seed': options.seed = Number(value()); break;
+      case '--duration': options.duration = Number(value()); break;
+      case '--config': options.config = value(); break;
+      case '--flow': options.flow = value(); break;
+      case '--set': options.set.push(value()); break;
+      case '--output': options.output = value(); break;
+      case '--out': options.out = value(); break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+      default:
+        fail(`Unexpected argument "${arg}"`);
+    }
+  }
+  if (!Number.isInteger(options.runs) || options.runs < 1) fail('--runs must be a positive whole number');
+  if (!Number.isInteger(options.seed)) fail('--seed must be a whole number');
+  if (!(options.duration > 0)) fail('--duration must be a positive number of seconds');
+  if (options.output !== 'json' && options.output !== 'markdown') fail(`Unknown output "${options.output}"`);
+  return options;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  try {
+    const flow = options.flow ? importFlow(readFileSync(options.flow, 'utf8')) : DEFAULT_FLOW;
+    const personas = parsePersonas(options.personas);
+    if (personas.length === 0) fail('No personas given');
+
+    const report = runSimulationBatch({
+      personas,
+      durationSeconds: options.duration,
+      config: readEngineConfig(options.config, options.set),
+      flow,
+    }, options.runs, options.seed);
+    const text = options.output === 'markdown'
+      ? batchReportToMarkdown(report, flow)
+      : JSON.stringify({ flow: flow.id, ...report }, null, 2) + '\n';
+
+    if (options.out) writeFileSync(options.out, text);
+    else process.stdout.write(text);
+  } catch (error: any) {
+    console.error(error?.message ?? error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { AddressInfo, connect, Socket } from 'node:net';
+import { once } from 'node:events';
+import { attachSyncServer } from './syncServer';
+
+/** A bare WebSocket client: handshake, masked text frames, and everything received as text. */
+async function openPeer(port: number, query: string) {
+  const socket = connect(port, '127.0.0.1');
+  await once(socket, 'connect');
+  let received = '';
+  socket.on('data', (chunk: Buffer) => { received += chunk.toString('latin1'); });
+  socket.write([
+    `GET /sync?${query} HTTP/1.1`,
+    'Host: localhost',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+    'Sec-WebSocket-Version: 13',
+    '', '',
+  ].join('\r\n'));
+  await waitFor(() => received.includes('101 Switching Protocols'));
+  return { socket, received: () => received };
+}
+
+function sendText(socket: Socket, text: string) {
+  const payload = Buffer.from(text);
+  const mask = Buffer.from([1, 2, 3, 4]);
+  const masked = payload.map((b, i) => b ^ mask[i % 4]);
+  socket.write(Buffer.concat([Buffer.from([0x81, 0x80 | payload.length]), mask, masked]));
+}
+
+async function waitFor(check: () => boolean) {
+  for (let i = 0; i < 100 && !check(); i++) await new Promise(resolve => setTimeout(resolve, 10));
+  assert.ok(check(), 'timed out');
+}
+
+test('malformed messages are dropped without taking the relay down', async () => {
+  const server = createServer();
+  attachSyncServer(server);
+  server.listen(0);
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const room = await openPeer(port, 'session=abcde&role=room');
+    const participant = await openPeer(port, 'session=abcde&role=participant&name=Ada');
+    ['null', '42', '"x"', '[]', '{"type":7}'].forEach(text => sendText(room.socket, text));
+    ['{"type":"event","event":null}', '{"type":"event"}', '{"type":"event","event":{"type":1}}'].forEach(text => sendText(participant.socket, text));
+
+    const facilitator = await openPeer(port, 'session=abcde&role=facilitator&secret=0123456789abcdef');
+    sendText(facilitator.socket, '{"type":"snapshot","snapshot":{"state":"MONITORING"}}');
+    await waitFor(() => room.received().includes('MONITORING') && participant.received().includes('MONITORING'));
+    assert.ok(!room.socket.destroyed);
+    assert.ok(!facilitator.received().includes('"event"'));
+    [room, participant, facilitator].forEach(p => p.socket.destroy());
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+});
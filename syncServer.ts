@@ -0,0 +1,230 @@
+import { IncomingMessage, Server } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { Duplex } from 'node:stream';
+import { Plugin } from 'vite';
+import { SYNC_PATH, SyncMessage, SyncPresence, SyncRejection, SyncRole, parseSyncMessage } from './sessionSync';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+/** Shorter facilitator secrets are refused, so a guessable one cannot claim a session. */
+const MIN_SECRET_LENGTH = 16;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** One upgraded connection, speaking just enough of RFC 6455 for JSON text messages. */
+class SyncPeer {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+
+  constructor(
+    private readonly socket: Duplex,
+    public readonly role: SyncRole,
+    public readonly name: string | null,
+    private readonly onText: (peer: SyncPeer, text: string) => void,
+    private readonly onClose: (peer: SyncPeer) => void
+  ) {
+    socket.on('data', (chunk: Buffer) => {
+      // A malformed frame drops this connection, never the server hosting the relay.
+      try {
+        this.feed(chunk);
+      } catch (error) {
+        console.error("Sync peer error:", error);
+        socket.destroy();
+      }
+    });
+    socket.on('close', () => this.onClose(this));
+    socket.on('error', () => socket.destroy());
+  }
+
+  public send(text: string) {
+    if (!this.socket.destroyed) this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text)));
+  }
+
+  private feed(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_MESSAGE_BYTES) {
+        this.socket.destroy();
+        return;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= this.buffer[maskOffset + (i % 4)];
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+      this.handleFrame(fin, opcode, payload);
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer) {
+    if (opcode === OPCODE_TEXT || opcode === OPCODE_CONTINUATION) {
+      this.fragments.push(payload);
+      if (!fin) return;
+      const text = Buffer.concat(this.fragments).toString('utf8');
+      this.fragments = [];
+      this.onText(this, text);
+    } else if (opcode === OPCODE_PING) {
+      this.socket.write(encodeFrame(0xa, payload));
+    } else if (opcode === OPCODE_CLOSE) {
+      this.socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    }
+  }
+}
+
+interface SyncSession {
+  peers: Set<SyncPeer>;
+  /** Latest snapshot from the facilitator, replayed to views that join later. */
+  snapshot: string | null;
+  /** Digest of the secret of the first facilitator to connect; later facilitators must match it. */
+  secret: Buffer | null;
+}
+
+const digest = (secret: string) => createHash('sha256').update(secret).digest();
+
+const sameName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'accent' }) === 0;
+
+const ROLES: SyncRole[] = ['facilitator', 'room', 'participant'];
+
+/**
+ * Relays one facilitator's engine snapshots to the room displays and participant
+ * phones of the same session code, and participant events back to the facilitator.
+ * The server holds no engine state of its own.
+ *
+ * The session code only lets a device watch. Publishing takes the facilitator secret the
+ * session was claimed with, and a participant name can be connected once at a time, so
+ * nobody can vote or pass for someone else.
+ */
+export function attachSyncServer(server: Server) {
+  const sessions = new Map<string, SyncSession>();
+
+  const facilitators = (session: SyncSession) => [...session.peers].filter(p => p.role === 'facilitator');
+
+  const announcePresence = (session: SyncSession) => {
+    const others = [...session.peers].filter(p => p.role !== 'facilitator');
+    const presence: SyncPresence = {
+      rooms: others.filter(p => p.role === 'room').length,
+      participants: others.filter(p => p.role === 'participant' && p.name).map(p => p.name!),
+    };
+    const text = JSON.stringify({ type: 'presence', presence } satisfies SyncMessage);
+    facilitators(session).forEach(p => p.send(text));
+  };
+
+  const handleText = (session: SyncSession, peer: SyncPeer, text: string) => {
+    const message = parseSyncMessage(text);
+    if (!message) return;
+    if (message.type === 'snapshot' && peer.role === 'facilitator') {
+      session.snapshot = text;
+      session.peers.forEach(p => { if (p.role !== 'facilitator') p.send(text); });
+    } else if (message.type === 'event' && peer.role === 'participant') {
+      // The sender is whoever joined under that name, not whatever the message claims.
+      const relayed: SyncMessage = { type: 'event', event: message.event, from: peer.name };
+      facilitators(session).forEach(p => p.send(JSON.stringify(relayed)));
+    }
+  };
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== SYNC_PATH) return;
+
+    const code = url.searchParams.get('session');
+    const role = url.searchParams.get('role') as SyncRole;
+    const key = req.headers['sec-websocket-key'];
+    if (!code || !ROLES.includes(role) || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '', '',
+    ].join('\r\n'));
+
+    // Refusals go over the socket rather than as an HTTP status, which browsers do not expose.
+    const reject = (reason: SyncRejection) => {
+      socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify({ type: 'rejected', reason } satisfies SyncMessage))));
+      socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    };
+
+    const session = sessions.get(code) ?? { peers: new Set<SyncPeer>(), snapshot: null, secret: null };
+    const name = url.searchParams.get('name')?.trim() || null;
+    if (role === 'facilitator') {
+      const secret = url.searchParams.get('secret') ?? '';
+      if (secret.length < MIN_SECRET_LENGTH) return reject('forbidden');
+      const presented = digest(secret);
+      if (session.secret && !timingSafeEqual(session.secret, presented)) return reject('forbidden');
+      session.secret = presented;
+    } else if (role === 'participant' && name && [...session.peers].some(p => p.role === 'participant' && p.name && sameName(p.name, name))) {
+      return reject('nameTaken');
+    }
+
+    sessions.set(code, session);
+    const peer = new SyncPeer(
+      socket,
+      role,
+      name,
+      (from, text) => handleText(session, from, text),
+      (closed) => {
+        session.peers.delete(closed);
+        if (session.peers.size === 0) sessions.delete(code);
+        else announcePresence(session);
+      }
+    );
+    session.peers.add(peer);
+    if (role !== 'facilitator' && session.snapshot) peer.send(session.snapshot);
+    announcePresence(session);
+  });
+}
+
+/** Serves the sync endpoint from `vite` and `vite preview`, so no extra process is needed. */
+export function sessionSyncPlugin(): Plugin {
+  return {
+    name: 'discussion-session-sync',
+    configureServer(server) {
+      if (server.httpServer) attachSyncServer(server.httpServer as Server);
+    },
+    configurePreviewServer(server) {
+      attachSyncServer(server.httpServer as Server);
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { EngineContext, TurnOrderStrategy } from './types';
+
+/** Display names live in the i18n catalogs under `turnOrder.<id>`. */
+export const TURN_ORDER_IDS: TurnOrderStrategy[] = ['roster', 'leastTalkFirst', 'quietFirst', 'random', 'skipDominant'];
+
+/** Small deterministic PRNG so replays of a session shuffle identically. */
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function hashString(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+type OrderingInput = Pick<EngineContext, 'speakers' | 'quietSpeaker' | 'recentActivity' | 'roundNumber'>;
+
+/** Builds the STRUCTURED round order for the given strategy. */
+export function orderTurns(strategy: TurnOrderStrategy, ctx: OrderingInput): string[] {
+  const roster = [...ctx.speakers];
+  const talk = (s: string) => ctx.recentActivity.talkTime[s] || 0;
+
+  switch (strategy) {
+    case 'leastTalkFirst':
+      // Array.prototype.sort is stable, so ties keep roster order.
+      return roster.sort((a, b) => talk(a) - talk(b));
+    case 'quietFirst': {
+      const quiet = ctx.quietSpeaker && roster.includes(ctx.quietSpeaker) ? ctx.quietSpeaker : null;
+      return quiet ? [quiet, ...roster.filter(s => s !== quiet)] : roster;
+    }
+    case 'random': {
+      const rand = mulberry32(hashString(`${roster.join('|')}#${ctx.roundNumber}`));
+      for (let i = roster.length - 1; i > 0; i--) {
+        const j = Math.floor(rand() * (i + 1));
+        [roster[i], roster[j]] = [roster[j], roster[i]];
+      }
+      return roster;
+    }
+    case 'skipDominant': {
+      if (roster.length < 2) return roster;
+      const dominant = roster.reduce((top, s) => talk(s) > talk(top) ? s : top, roster[0]);
+      return talk(dominant) > 0 ? roster.filter(s => s !== dominant) : roster;
+    }
+    case 'roster':
+    default:
+      return roster;
+  }
+}
+
+/**
+ * Per-turn durations for a round. With `boost` > 0, speakers below an equal share of
+ * recent talk time get proportionally longer turns (up to +boost), louder ones shorter.
+ */
+export function adaptiveTurnDurations(order: string[], ctx: Pick<EngineContext, 'speakers' | 'recentActivity' | 'turnHoldSeconds'>, boost: number): number[] {
+  const base = ctx.turnHoldSeconds;
+  const total = ctx.recentActivity.totalTalkTime;
+  const n = ctx.speakers.length;
+  if (boost <= 0 || total <= 0 || n === 0) return order.map(() => base);
+
+  return order.map(s => {
+    const share = (ctx.recentActivity.talkTime[s] || 0) / total;
+    const factor = Math.max(1 - boost, Math.min(1 + boost, 1 + boost * (1 - share * n)));
+    return Math.max(1, Math.round(base * Math.max(0.25, factor)));
+  });
+}
@@ -8,15 +8,142 @@ export enum DiscussionState {
   CHECKIN = "checkIn",
 }
 
+export type ImbalanceMetric = 'dominance' | 'gini' | 'entropy' | 'turnShare' | 'interruptionRate';
+
+/** How the STRUCTURED round order is built from the roster. */
+export type TurnOrderStrategy = 'roster' | 'leastTalkFirst' | 'quietFirst' | 'random' | 'skipDominant';
+
+/** Imbalance scores in [0, 1] per metric; higher means less balanced. */
+export type FairnessMetrics = Record<ImbalanceMetric, number>;
+
+/** Speech activity aggregated over the rolling imbalance window (or since reset when the window is off). */
+export interface SpeechWindow {
+  talkTime: Record<string, number>;
+  totalTalkTime: number;
+  turnCounts: Record<string, number>;
+  interruptionCount: number;
+  /** Interruptions made per speaker (the interrupter). */
+  interruptionsBy: Record<string, number>;
+}
+
+/** Someone starting to speak while another speaker was mid-sentence. */
+export interface InterruptionRecord {
+  /** Session seconds (engine clock). */
+  at: number;
+  by: string;
+  of: string;
+}
+
+/** A piece of transcribed speech, attributed to whoever held the floor when it arrived. */
+/** A participant's answer at CHECKIN: fine to continue, or a substantial objection. */
+export type CheckinVote = 'continue' | 'object';
+
+export interface TranscriptSegment {
+  /** Session seconds (engine clock). */
+  at: number;
+  speaker: string | null;
+  text: string;
+  /** The STRUCTURED round it was spoken in, or null outside of rounds. */
+  round: number | null;
+}
+
+/** Text in a flow definition: one string for every language, or per session language. */
+export type FlowText = string | Partial<Record<SessionLanguage, string>>;
+
+/** A duration in seconds, or the name of the engine setting that holds it. */
+export type FlowSeconds = number | keyof EngineConfig;
+
+/** Values an exit condition can watch. */
+export type FlowMetric = ImbalanceMetric | 'imbalanceScore' | 'silenceSeconds' | 'currentMonologueSeconds';
+
+/** What happens when a flow state is entered, on top of its behavior. */
+export type FlowAction =
+  | { type: 'clearFloor' }
+  | { type: 'lowerHands' }
+  | { type: 'setQuietMode', enabled: boolean }
+  | { type: 'setConfig', config: Partial<EngineConfig> };
+
+/**
+ * How a flow state is left. Automatic exits (all but `manual`) only fire in auto mode,
+ * except `roundComplete` and `checkin`, which follow the round and the vote.
+ */
+export type FlowExit =
+  /** The imbalance flag has been up for `holdSeconds`; ignored in quiet mode. */
+  | { when: 'imbalance', to: string, holdSeconds?: FlowSeconds }
+  | { when: 'elapsed', to: string, seconds: FlowSeconds }
+  /** A metric stays above (or below) a threshold for `holdSeconds`. */
+  | { when: 'metric', to: string, metric: FlowMetric, above?: number, below?: number, holdSeconds?: FlowSeconds }
+  /** The last turn of the round ended; only for states with STRUCTURED behavior. */
+  | { when: 'roundComplete', to: string }
+  /** The check-in outcome, decided by the votes after `seconds` (default `checkinSeconds`); only for CHECKIN behavior. */
+  | { when: 'checkin', continue: string, another: string, seconds?: FlowSeconds }
+  /** Offered to the facilitator as a button. */
+  | { when: 'manual', to: string, label?: FlowText };
+
+export interface FlowStateDefinition {
+  id: string;
+  /** Built-in state whose behavior (floor handling, rounds, votes) this state runs with. */
+  behavior: DiscussionState;
+  /** Defaults to the label of its behavior. */
+  label?: FlowText;
+  /** Instruction shown on the stage while the state is active. */
+  message?: FlowText;
+  /** Hex colors overriding the behavior's theme. */
+  theme?: { text?: string, background?: string };
+  /** Round order for STRUCTURED behavior; defaults to the `turnOrderStrategy` setting. */
+  turnOrder?: TurnOrderStrategy;
+  onEnter?: FlowAction[];
+  exits: FlowExit[];
+}
+
+/** A declarative discussion flow: states, what they do on entry and how they are left. */
+export interface DiscussionFlow {
+  id: string;
+  name: string;
+  initial: string;
+  states: FlowStateDefinition[];
+  /** Built-in flows ship with the app and cannot be deleted. */
+  builtIn?: boolean;
+}
+
+/** How a topic is run: free discussion, a STRUCTURED round from the start, or silent reflection. */
+export type AgendaMode = 'open' | 'structured' | 'reflection';
+
+export interface AgendaItem {
+  id: string;
+  title: string;
+  timeboxSeconds: number;
+  mode: AgendaMode;
+}
+
+/** Time and talk accumulated while an agenda item was current. */
+export interface AgendaProgress {
+  elapsedSeconds: number;
+  talkTime: Record<string, number>;
+  turnCounts: Record<string, number>;
+}
+
+/** `nearEnd` once the current topic is within `agendaWarningSeconds` of its timebox. */
+export type AgendaWarning = 'nearEnd' | 'over' | null;
+
 export interface EngineContext {
   speakers: string[];
+  /** Stable identity, role and color per speaker name, when known (e.g. loaded from a roster). */
+  speakerProfiles: Record<string, SpeakerProfile>;
+  /** The speaker holding the floor (the earliest of `activeSpeakers`). */
   activeSpeaker: string | null;
+  /** Everyone currently speaking; more than one entry means overlapping speech. */
+  activeSpeakers: string[];
 
   /** Manually selected quiet speaker (or auto-assigned when auto mode needs one). */
   quietSpeaker: string | null;
 
   talkTime: Record<string, number>;
   totalSeconds: number;
+  /** Session time consumed through TICKs; unlike `totalSeconds`, never reset at a check-in. */
+  sessionSeconds: number;
+  /** A break in the whole session: TICKs are ignored until it is resumed. */
+  sessionPaused: boolean;
   silenceSeconds: number;
   
   /** Total duration of all talking activity (sum of all speech), used as denominator in Dominance Score. */
@@ -25,6 +152,22 @@ export interface EngineContext {
   /** Current continuous talk duration for the current active speaker. Resets on change/silence. */
   currentMonologueSeconds: number;
 
+  /** Number of speaking turns per speaker (a turn starts when someone begins talking). */
+  turnCounts: Record<string, number>;
+  /** Speech that started while someone else was still talking, or reported via INTERRUPTION. */
+  interruptionCount: number;
+  interruptions: InterruptionRecord[];
+  /** Interruptions made / suffered per speaker. */
+  interruptionsMade: Record<string, number>;
+  interruptionsReceived: Record<string, number>;
+  /** Seconds during which more than one person was speaking. */
+  overlapSeconds: number;
+  /** Live transcript since the last reset. */
+  transcript: TranscriptSegment[];
+
+  /** Activity inside the rolling window; this (not the cumulative totals) drives imbalance detection. */
+  recentActivity: SpeechWindow;
+
   /** If true, the engine will advance states automatically on each TICK. */
   autoMode: boolean;
 
@@ -32,11 +175,45 @@ export interface EngineContext {
   quietMode: boolean;
 
   imbalanceScoreThreshold: number;
+  /** Metric compared against `imbalanceScoreThreshold`, or 'weighted' for a weighted mean of all metrics. */
+  imbalanceMetric: ImbalanceMetric | 'weighted';
+  /** Per-metric weights used when `imbalanceMetric` is 'weighted'. */
+  metricWeights: Record<ImbalanceMetric, number>;
+  /** Seconds the imbalance flag must hold in MONITORING before entering IMBALANCE. */
   imbalanceHoldSeconds: number;
+  /** Seconds spent in IMBALANCE before escalating to NUDGE. */
+  imbalanceStateSeconds: number;
+  /** Seconds spent in NUDGE before escalating to STRUCTURED. */
   nudgeHoldSeconds: number;
 
   /** Seconds per speaker in STRUCTURED mode before auto-advancing to next turn (auto mode only). */
   turnHoldSeconds: number;
+  /** How the STRUCTURED round is ordered. */
+  turnOrderStrategy: TurnOrderStrategy;
+  /** How much turn lengths adapt to recent talk share (0 = equal turns, 0.5 = quietest up to +50%). */
+  adaptiveTurnBoost: number;
+
+  /** Duration of the reflection PAUSE before moving to CHECKIN. */
+  pauseSeconds: number;
+  /** Duration of CHECKIN before the votes cast so far decide (MONITORING when nobody voted). */
+  checkinSeconds: number;
+  /** Substantial objections at CHECKIN that open another round instead of returning to MONITORING. */
+  checkinObjectionQuorum: number;
+  /** Continuous talk by one speaker that raises the imbalance flag on its own. */
+  monologueLimitSeconds: number;
+  /** Seconds at the start of the discussion (or after a reset) during which imbalance is not measured. */
+  gracePeriodSeconds: number;
+
+  /** Length of the rolling window imbalance is evaluated over; 0 uses the cumulative totals. */
+  imbalanceWindowSeconds: number;
+  /** Granularity of the speech history kept for the rolling window. */
+  windowBucketSeconds: number;
+  /** Half-life for exponentially down-weighting older speech inside the window; 0 disables decay. */
+  windowDecayHalfLifeSeconds: number;
+  /** Interruptions by one speaker (within the window) that raise the imbalance flag; 0 disables. */
+  interrupterThreshold: number;
+  /** Seconds before a topic's timebox ends at which the facilitator is warned. */
+  agendaWarningSeconds: number;
 
   imbalanceSince: number | null;
   nudgeSince: number | null;
@@ -48,24 +225,167 @@ export interface EngineContext {
 
   turnOrder: string[];
   turnIndex: number;
+  /** Seconds allotted to each entry of `turnOrder`. */
+  turnDurations: number[];
+  /** Participants who declined their turn in the current round. */
+  passedTurns: string[];
+  /** Number of STRUCTURED rounds started this session; seeds the random order. */
+  roundNumber: number;
+  /** Participants asking for the floor, in the order they raised their hand. */
+  raisedHands: string[];
+  /** Votes cast in the current CHECKIN, keyed by participant. */
+  checkinVotes: Record<string, CheckinVote>;
+
+  agenda: AgendaItem[];
+  /** Index into `agenda` of the topic under discussion; null before the first and after the last. */
+  agendaIndex: number | null;
+  /** Keyed by agenda item id; survives CHECKIN resets, unlike the session totals. */
+  agendaProgress: Record<string, AgendaProgress>;
+  agendaWarning: AgendaWarning;
+
+  flow: DiscussionFlow;
+  /** Id of the active flow state; its behavior is the engine's `DiscussionState`. */
+  flowState: string;
 
   dominanceScore: number;
+  /** All fairness metrics, recomputed alongside the dominance score. */
+  metrics: FairnessMetrics;
+  /** The score actually compared against the threshold (see `imbalanceMetric`). */
+  imbalanceScore: number;
   imbalanceFlag: boolean;
 }
 
+/** Tunable thresholds and timings, validated by `validateEngineConfig`. */
+export type EngineConfig = Pick<EngineContext,
+  | 'imbalanceScoreThreshold'
+  | 'imbalanceMetric'
+  | 'metricWeights'
+  | 'imbalanceHoldSeconds'
+  | 'imbalanceStateSeconds'
+  | 'nudgeHoldSeconds'
+  | 'turnHoldSeconds'
+  | 'turnOrderStrategy'
+  | 'adaptiveTurnBoost'
+  | 'pauseSeconds'
+  | 'checkinSeconds'
+  | 'checkinObjectionQuorum'
+  | 'monologueLimitSeconds'
+  | 'gracePeriodSeconds'
+  | 'imbalanceWindowSeconds'
+  | 'windowBucketSeconds'
+  | 'windowDecayHalfLifeSeconds'
+  | 'interrupterThreshold'
+  | 'agendaWarningSeconds'>;
+
+export type SessionLanguage = 'he' | 'en' | 'ar' | 'ru';
+
+/** A named, shareable bundle of facilitation settings. */
+export interface FacilitationPreset {
+  id: string;
+  name: string;
+  config: EngineConfig;
+  autoMode: boolean;
+  language: SessionLanguage;
+  /** Built-in presets ship with the app and cannot be deleted. */
+  builtIn?: boolean;
+}
+
+/** Identity of a participant that stays the same across sessions, whatever the roster order. */
+export interface SpeakerProfile {
+  id: string;
+  role?: string;
+  /** Name of a stage speaker color; unset falls back to the roster position. */
+  color?: string;
+}
+
+export interface RosterMember extends SpeakerProfile {
+  name: string;
+}
+
+/** A recurring group, saved so the same people need not be re-typed each meeting. */
+export interface Roster {
+  id: string;
+  name: string;
+  members: RosterMember[];
+}
+
 export type DiscussionEvent =
   | { type: 'SPEAKER_SET', name: string }
+  /**
+   * Overlap-aware speech onset/offset: unlike SPEAKER_SET, other speakers keep talking. A `joint`
+   * start began at the same moment as whoever holds the floor, so it does not interrupt them.
+   */
+  | { type: 'SPEAKER_START', name: string, joint?: boolean }
+  | { type: 'SPEAKER_STOP', name: string }
+  /** Explicit interruption reported by an external detector. */
+  | { type: 'INTERRUPTION', by: string, of: string }
   | { type: 'SILENCE' }
+  /** Transcribed text; attributed to `speaker` when given, otherwise to the floor holder. */
+  | { type: 'TRANSCRIPT', text: string, speaker?: string | null }
   | { type: 'TICK', seconds: number }
   | { type: 'NEXT_TURN' }
+  /** The current turn holder declines their turn; the round moves on immediately. */
+  | { type: 'PASS_TURN' }
   | { type: 'SET_QUIET_SPEAKER', name: string | null }
   | { type: 'SET_AUTO_MODE', enabled: boolean }
   | { type: 'SET_QUIET_MODE', enabled: boolean }
+  | { type: 'SET_SESSION_PAUSED', paused: boolean }
   | { type: 'TURNS_COMPLETE' }
   | { type: 'PAUSE_DONE' }
+  /** The facilitator's own call at CHECKIN: back to MONITORING, or another round. */
   | { type: 'CHECKIN', canContinue: boolean }
-  | { type: 'ADD_SPEAKER', name: string }
+  | { type: 'CHECKIN_VOTE', name: string, vote: CheckinVote }
+  /** A participant asks for the floor; in STRUCTURED they get the next turn. */
+  | { type: 'RAISE_HAND', name: string }
+  | { type: 'LOWER_HAND', name: string }
+  /** Replaces the agenda; progress on topics that remain is kept. */
+  | { type: 'SET_AGENDA', items: AgendaItem[] }
+  /** Replaces the discussion flow; throws when the flow does not validate. */
+  | { type: 'SET_FLOW', flow: DiscussionFlow }
+  /** Enters a flow state by id, like FORCE_STATE does for built-in states. */
+  | { type: 'ENTER_STATE', id: string }
+  /** Moves to the given topic and enters the state its mode calls for. */
+  | { type: 'START_TOPIC', id: string }
+  /** Moves to the next topic, or closes the agenda after the last one. */
+  | { type: 'NEXT_TOPIC' }
+  | { type: 'ADD_SPEAKER', name: string, profile?: SpeakerProfile }
+  | { type: 'SET_SPEAKER_PROFILE', name: string, profile: SpeakerProfile }
   | { type: 'REMOVE_SPEAKER', name: string }
   | { type: 'SET_TALK_TIME', name: string, seconds: number }
   | { type: 'SET_SILENCE', seconds: number }
-  | { type: 'FORCE_STATE', state: DiscussionState };
+  /**
+   * Puts back who is speaking, earliest first, e.g. after a state change cleared the floor
+   * during a replay. Nobody is counted as interrupting, and `monologueSeconds` (kept as is
+   * when omitted) is how long the first of them has held the floor.
+   */
+  | { type: 'RESTORE_FLOOR', speakers: string[], monologueSeconds?: number }
+  | { type: 'FORCE_STATE', state: DiscussionState }
+  | { type: 'SET_CONFIG', config: Partial<EngineConfig> }
+  | { type: 'APPLY_PRESET', config: Partial<EngineConfig>, autoMode: boolean };
+
+/** The engine's state and a shallow copy of its context at one moment. */
+export interface EngineSnapshot {
+  state: DiscussionState;
+  context: EngineContext;
+}
+
+/** What changed in a transition; see `EngineNotification`. */
+export type EngineChange =
+  /** Both flow-state notifications name the flow state and the behavior it runs with. */
+  | { type: 'stateExited', state: DiscussionState, flowState: string }
+  | { type: 'stateEntered', state: DiscussionState, flowState: string }
+  /** The floor moved to the next turn of a round, including the first turn of a new round. */
+  | { type: 'turnAdvanced', speaker: string | null, turnIndex: number, round: number }
+  | { type: 'imbalanceRaised' }
+  | { type: 'imbalanceCleared' }
+  /** A break in the whole session started or ended (see `SET_SESSION_PAUSED`). */
+  | { type: 'sessionPaused' }
+  | { type: 'sessionResumed' }
+  | { type: 'speakerAdded', name: string }
+  | { type: 'speakerRemoved', name: string };
+
+export type EngineNotificationType = EngineChange['type'];
+
+/** A transition of the engine, with the event that caused it and the snapshots on either side. */
+export type EngineNotification<T extends EngineNotificationType = EngineNotificationType> =
+  Extract<EngineChange, { type: T }> & { event: DiscussionEvent, before: EngineSnapshot, after: EngineSnapshot };